@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ANIMATION_EFFECTS,
+  getAnimationEffectNames,
+  type EffectContext,
+} from '../../src/animation/effects.js';
+import { createGrid, gridToText, mapGrid } from '../../src/grid.js';
+
+function createContext(text = 'AB\nCD'): EffectContext {
+  const grid = mapGrid(createGrid(text), (cell) => ({
+    ...cell,
+    fg: '#ff0000',
+  }));
+
+  return {
+    grid,
+    colors: ['#ff0000', '#0000ff'],
+    colorize: vi.fn((colors: string[]) =>
+      mapGrid(grid, (cell) => ({ ...cell, fg: colors[0] }))
+    ),
+  };
+}
+
+describe('animation/effects', () => {
+  it('should list every built-in effect', () => {
+    expect(getAnimationEffectNames()).toEqual([
+      'gradient-shift',
+      'typewriter',
+      'shimmer',
+      'fade-in',
+      'rainbow',
+    ]);
+  });
+
+  it('should be deterministic for the same progress', () => {
+    for (const effect of Object.values(ANIMATION_EFFECTS)) {
+      expect(effect(createContext(), 0.4)).toEqual(
+        effect(createContext(), 0.4)
+      );
+    }
+  });
+
+  describe('gradient-shift', () => {
+    it('should start on the static palette', () => {
+      const context = createContext();
+      ANIMATION_EFFECTS['gradient-shift'](context, 0);
+
+      expect(context.colorize).toHaveBeenCalledWith(['#ff0000', '#0000ff']);
+    });
+
+    it('should move the stops and wrap the end around to the start', () => {
+      const context = createContext();
+      ANIMATION_EFFECTS['gradient-shift'](context, 0.5);
+
+      expect(context.colorize).toHaveBeenCalledWith([
+        '#800080 0%',
+        '#0000ff 50%',
+        '#ff0000 50%',
+        '#800080 100%',
+      ]);
+    });
+
+    it('should keep stop positions', () => {
+      const context = {
+        ...createContext(),
+        colors: ['#ff0000', '#00ff00 25%', '#0000ff'],
+      };
+      ANIMATION_EFFECTS['gradient-shift'](context, 0.25);
+
+      expect(context.colorize).toHaveBeenCalledWith([
+        '#0055aa 0%',
+        '#0000ff 25%',
+        '#ff0000 25%',
+        '#00ff00 50%',
+        '#0055aa 100%',
+      ]);
+    });
+
+    it('should blend the wrapped edge in the gradient color space', () => {
+      const context = {
+        ...createContext(),
+        gradient: { interpolation: 'oklch' as const },
+      };
+      ANIMATION_EFFECTS['gradient-shift'](context, 0.5);
+
+      expect(context.colorize).toHaveBeenCalledWith(
+        expect.arrayContaining(['#b200b8 0%', '#b200b8 100%'])
+      );
+    });
+  });
+
+  describe('typewriter', () => {
+    it('should reveal columns from the left', () => {
+      const context = createContext('ABCD');
+
+      expect(gridToText(ANIMATION_EFFECTS.typewriter(context, 0))).toBe('    ');
+      expect(gridToText(ANIMATION_EFFECTS.typewriter(context, 0.5))).toBe(
+        'AB  '
+      );
+      expect(ANIMATION_EFFECTS.typewriter(context, 1)).toEqual(context.grid);
+    });
+  });
+
+  describe('shimmer', () => {
+    it('should brighten cells under the band', () => {
+      const context = createContext('AAAAAAAA');
+      const frame = ANIMATION_EFFECTS.shimmer(context, 0.3);
+
+      expect(frame.rows[0].some((cell) => cell.fg !== '#ff0000')).toBe(true);
+    });
+
+    it('should leave the logo untouched once the band has passed', () => {
+      const context = createContext('AAAAAAAA');
+
+      expect(ANIMATION_EFFECTS.shimmer(context, 1)).toEqual(context.grid);
+    });
+  });
+
+  describe('fade-in', () => {
+    it('should fade colors in from black', () => {
+      const context = createContext('A');
+
+      expect(ANIMATION_EFFECTS['fade-in'](context, 0).rows[0][0].fg).toBe(
+        '#000000'
+      );
+      expect(ANIMATION_EFFECTS['fade-in'](context, 1).rows[0][0].fg).toBe(
+        '#ff0000'
+      );
+    });
+  });
+
+  describe('rainbow', () => {
+    it('should recolor the logo with a rotating rainbow', () => {
+      const context = createContext();
+      ANIMATION_EFFECTS.rainbow(context, 0);
+      ANIMATION_EFFECTS.rainbow(context, 0.5);
+
+      const [start, halfway] = vi
+        .mocked(context.colorize)
+        .mock.calls.map(([colors]) => colors);
+      expect(start).toHaveLength(7);
+      expect(start[0]).toBe('#ff0000');
+      expect(start[6]).toBe(start[0]);
+      expect(halfway[0]).not.toBe(start[0]);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  playAnimation,
+  renderTerminalChunks,
+} from '../../src/animation/player.js';
+import type { AnimationFrame } from '../../src/animation/timeline.js';
+import { createGrid, mapGrid } from '../../src/grid.js';
+
+function createStream() {
+  const written: string[] = [];
+  const stream = {
+    write: vi.fn((data: string) => {
+      written.push(data);
+      return true;
+    }),
+  } as unknown as NodeJS.WriteStream;
+
+  return { stream, output: () => written.join('') };
+}
+
+function createFrames(texts: string[], frameDuration = 100): AnimationFrame[] {
+  return texts.map((text, index) => ({
+    index,
+    loop: 0,
+    time: index * frameDuration,
+    progress: texts.length === 1 ? 1 : index / (texts.length - 1),
+    grid: mapGrid(createGrid(text), (cell) => ({ ...cell, fg: '#ff0000' })),
+  }));
+}
+
+describe('animation/player', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should redraw in place by moving the cursor up instead of clearing', async () => {
+    const { stream, output } = createStream();
+
+    const playing = playAnimation(createFrames(['A\nB', 'C\nD']), { stream });
+    await vi.runAllTimersAsync();
+    await playing;
+
+    expect(output()).toContain('\x1b[1A\r');
+    expect(output()).not.toContain('\x1b[2J');
+    expect(output()).not.toContain('\x1b[H');
+  });
+
+  it('should wait for each frame time before drawing it', async () => {
+    const { stream, output } = createStream();
+
+    const playing = playAnimation(createFrames(['A', 'B']), { stream });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(output()).toContain('A');
+    expect(output()).not.toContain('B');
+
+    await vi.advanceTimersByTimeAsync(100);
+    await playing;
+    expect(output()).toContain('B');
+  });
+
+  it('should hide the cursor while playing and restore the terminal after', async () => {
+    const { stream, output } = createStream();
+
+    const playing = playAnimation(createFrames(['A']), { stream });
+    await vi.runAllTimersAsync();
+    await playing;
+
+    expect(output().startsWith('\x1b[?25l')).toBe(true);
+    expect(output().endsWith('\x1b[0m\x1b[?25h')).toBe(true);
+  });
+
+  it('should draw plain glyphs when color is disabled', async () => {
+    const { stream, output } = createStream();
+
+    const playing = playAnimation(createFrames(['A']), {
+      stream,
+      color: false,
+    });
+    await vi.runAllTimersAsync();
+    await playing;
+
+    expect(output()).not.toContain('\x1b[38;2;');
+    expect(output()).toContain('A');
+  });
+
+  it('should stop early when aborted and still restore the terminal', async () => {
+    const { stream, output } = createStream();
+    const controller = new AbortController();
+
+    const playing = playAnimation(createFrames(['A', 'B', 'C']), {
+      stream,
+      signal: controller.signal,
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await playing;
+
+    expect(output()).toContain('A');
+    expect(output()).not.toContain('B');
+    expect(output().endsWith('\x1b[0m\x1b[?25h')).toBe(true);
+  });
+
+  it('should restore the terminal and exit on SIGINT', async () => {
+    const { stream, output } = createStream();
+    const exitSpy = vi
+      .spyOn(process, 'exit')
+      .mockImplementation((() => undefined) as never);
+
+    const playing = playAnimation(createFrames(['A', 'B']), { stream });
+    await vi.advanceTimersByTimeAsync(0);
+    process.emit('SIGINT');
+
+    expect(output()).toContain('\x1b[0m\x1b[?25h');
+    expect(exitSpy).toHaveBeenCalledWith(130);
+
+    await vi.runAllTimersAsync();
+    await playing;
+    exitSpy.mockRestore();
+  });
+
+  it('should remove its SIGINT handler when playback ends', async () => {
+    const { stream } = createStream();
+    const before = process.listenerCount('SIGINT');
+
+    const playing = playAnimation(createFrames(['A']), { stream });
+    expect(process.listenerCount('SIGINT')).toBe(before + 1);
+    await vi.runAllTimersAsync();
+    await playing;
+
+    expect(process.listenerCount('SIGINT')).toBe(before);
+  });
+
+  describe('renderTerminalChunks', () => {
+    it('should produce exactly what playAnimation writes', async () => {
+      const { stream, output } = createStream();
+      const frames = createFrames(['AB\nCD', 'EF\nGH', 'IJ\nKL']);
+
+      const playing = playAnimation(frames, { stream });
+      await vi.runAllTimersAsync();
+      await playing;
+
+      let expected = '';
+      for await (const chunk of renderTerminalChunks(frames)) {
+        expected += chunk.data;
+      }
+      expect(output()).toBe(expected);
+    });
+
+    it('should draw frames at the requested color level', async () => {
+      let output = '';
+      for await (const chunk of renderTerminalChunks(createFrames(['A']), {
+        colorLevel: 2,
+      })) {
+        output += chunk.data;
+      }
+
+      expect(output).toContain('\x1b[38;5;196mA');
+      expect(output).not.toContain('38;2;');
+    });
+
+    it('should hide the cursor first and restore it last', async () => {
+      const chunks = [];
+      for await (const chunk of renderTerminalChunks(
+        createFrames(['A', 'B'])
+      )) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map((chunk) => chunk.kind)).toEqual([
+        'start',
+        'frame',
+        'frame',
+        'end',
+      ]);
+      expect(chunks[0].data).toBe('\x1b[?25l');
+      expect(chunks[3]).toEqual({
+        time: 100,
+        data: '\n\x1b[0m\x1b[?25h',
+        kind: 'end',
+      });
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { EffectContext } from '../../src/animation/effects.js';
+import { createTimeline, getFrameCount } from '../../src/animation/timeline.js';
+import { createGrid, gridToText } from '../../src/grid.js';
+
+function createContext(): EffectContext {
+  const grid = createGrid('ABCD');
+  return { grid, colors: ['#ff0000', '#0000ff'], colorize: () => grid };
+}
+
+describe('animation/timeline', () => {
+  describe('getFrameCount', () => {
+    it('should derive the frame count from fps and duration', () => {
+      expect(getFrameCount(30, 2000)).toBe(60);
+      expect(getFrameCount(10, 250)).toBe(3);
+    });
+
+    it('should always produce at least one frame', () => {
+      expect(getFrameCount(30, 0)).toBe(1);
+    });
+  });
+
+  describe('createTimeline', () => {
+    it('should time frames by fps and run progress from 0 to 1', () => {
+      const frames = [
+        ...createTimeline(createContext(), { fps: 10, duration: 500 }),
+      ];
+
+      expect(frames.map((frame) => frame.time)).toEqual([
+        0, 100, 200, 300, 400,
+      ]);
+      expect(frames.map((frame) => frame.progress)).toEqual([
+        0, 0.25, 0.5, 0.75, 1,
+      ]);
+    });
+
+    it('should repeat the pass for each loop', () => {
+      const frames = [
+        ...createTimeline(createContext(), { fps: 10, duration: 200, loop: 2 }),
+      ];
+
+      expect(frames.map((frame) => frame.loop)).toEqual([0, 0, 1, 1]);
+      expect(frames.map((frame) => frame.index)).toEqual([0, 1, 2, 3]);
+      expect(frames.map((frame) => frame.progress)).toEqual([0, 1, 0, 1]);
+      expect(frames[3].time).toBe(300);
+    });
+
+    it('should apply a built-in effect by name', () => {
+      const frames = [
+        ...createTimeline(createContext(), {
+          effect: 'typewriter',
+          fps: 10,
+          duration: 300,
+        }),
+      ];
+
+      expect(frames.map((frame) => gridToText(frame.grid))).toEqual([
+        '    ',
+        'AB  ',
+        'ABCD',
+      ]);
+    });
+
+    it('should accept a custom effect function', () => {
+      const grid = createGrid('X');
+      const [frame] = createTimeline(createContext(), {
+        effect: () => grid,
+        duration: 0,
+      });
+
+      expect(frame.grid).toBe(grid);
+      expect(frame.progress).toBe(1);
+    });
+
+    it('should be lazy so infinite loops can be consumed', () => {
+      const timeline = createTimeline(createContext(), {
+        fps: 10,
+        duration: 100,
+        loop: Infinity,
+      });
+
+      for (let i = 0; i < 5; i += 1) {
+        expect(timeline.next().done).toBe(false);
+      }
+    });
+
+    it('should reject unknown effects and invalid timing', () => {
+      const run = (options: Parameters<typeof createTimeline>[1]) => () =>
+        createTimeline(createContext(), options).next();
+
+      expect(run({ effect: 'sparkle' as never })).toThrow(
+        /unknown animation effect "sparkle"/
+      );
+      expect(run({ fps: 0 })).toThrow(/fps must be a positive number/);
+      expect(run({ duration: -1 })).toThrow(/duration must be 0 or greater/);
+      expect(run({ loop: 0 })).toThrow(/loop must be a positive integer/);
+    });
+  });
+});
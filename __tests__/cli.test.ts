@@ -1,11 +1,24 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { execSync } from 'child_process';
+import { exec, execSync } from 'child_process';
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { promisify } from 'util';
+import figlet from 'figlet';
+import { stripAnsiCodes } from '../src/utils/stdout.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const cliPath = join(__dirname, '..', 'src', 'index.ts');
+// Unlike execSync, lets the test worker keep talking to vitest meanwhile
+const execAsync = promisify(exec);
 
 describe('CLI', () => {
   let originalExit: typeof process.exit;
@@ -42,6 +55,88 @@ describe('CLI', () => {
       }
     });
 
+    it('should list palettes from the user palette file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+      const file = join(dir, 'palettes.json');
+      writeFileSync(
+        file,
+        JSON.stringify({ 'acme-brand': ['#ff0066', '#00ccff'] })
+      );
+
+      try {
+        const output = execSync(`npx tsx ${cliPath} --list-palettes`, {
+          encoding: 'utf-8',
+          env: { ...process.env, OHMYLOGO_PALETTES_FILE: file },
+        });
+        expect(output).toContain('acme-brand');
+        expect(output).toContain('#ff0066 → #00ccff');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should filter palettes by tag and search text', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} --list-palettes --tag terminal --search nord`,
+        { encoding: 'utf-8' }
+      );
+      expect(stdout).toContain('nord-aurora');
+      expect(stdout).toContain('The Frost blues of the Nord theme');
+      expect(stdout).not.toContain('dracula');
+      expect(stdout).not.toContain('sunset');
+    });
+
+    it('should list palettes with their metadata as JSON', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} --list-palettes --json --tag pastel`,
+        { encoding: 'utf-8' }
+      );
+      const palettes = JSON.parse(stdout);
+      expect(palettes.map(({ name }: { name: string }) => name)).toContain(
+        'catppuccin'
+      );
+      expect(
+        palettes.every(({ tags }: { tags: string[] }) =>
+          tags.includes('pastel')
+        )
+      ).toBe(true);
+    });
+
+    it('should draw a gradient swatch for each palette with color', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} --list-palettes --search sunset --color-level truecolor`,
+        { encoding: 'utf-8' }
+      );
+      expect(stdout).toContain('\x1b[38;2;255;153;102m');
+      expect(stdout).toContain('█');
+      expect(stripAnsiCodes(stdout)).toContain(
+        `  - sunset       ${'█'.repeat(24)} #ff9966 → #ff5e62 → #ffa34e`
+      );
+    });
+
+    it('should render a sample of the text in each palette', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} --list-palettes --search nord --sample "Hi"`,
+        { encoding: 'utf-8' }
+      );
+      const sample = figlet.textSync('Hi', { font: 'Small' });
+      const firstLine = `    ${sample.split('\n')[0]}`.trimEnd();
+
+      expect(
+        stdout.split('\n').filter((line) => line === firstLine)
+      ).toHaveLength(2);
+    });
+
+    it.each([
+      ['--list-palettes --tag spicy', /unknown palette tag "spicy"/],
+      ['"HI" --tag warm', /only work with --list-palettes/],
+      ['"HI" --sample hi', /only work with --list-palettes/],
+    ])('should reject %s', async (args, message) => {
+      await expect(
+        execAsync(`npx tsx ${cliPath} ${args}`, { encoding: 'utf-8' })
+      ).rejects.toMatchObject({ stderr: expect.stringMatching(message) });
+    });
+
     it('should work with -l short option', () => {
       try {
         const output = execSync(`npx tsx ${cliPath} -l`, { encoding: 'utf-8' });
@@ -233,6 +328,45 @@ describe('CLI', () => {
         expect(error.stderr || error.message).toMatch(/Unknown palette/i);
       }
     });
+
+    it('should accept palettes from the user palette file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+      const file = join(dir, 'palettes.json');
+      writeFileSync(
+        file,
+        JSON.stringify({ 'acme-brand': ['#ff0066', '#00ccff'] })
+      );
+
+      try {
+        const output = execSync(
+          `npx tsx ${cliPath} "HI" acme-brand -d horizontal --format svg`,
+          {
+            encoding: 'utf-8',
+            env: { ...process.env, OHMYLOGO_PALETTES_FILE: file },
+          }
+        );
+        expect(output).toContain('#ff0066');
+        expect(output).toContain('#00ccff');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should report a missing user palette file', () => {
+      try {
+        execSync(`npx tsx ${cliPath} "HI"`, {
+          encoding: 'utf-8',
+          stdio: 'pipe',
+          env: {
+            ...process.env,
+            OHMYLOGO_PALETTES_FILE: join(tmpdir(), 'oh-my-logo-missing.json'),
+          },
+        });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(/does not exist/);
+      }
+    });
   });
 
   describe('--palette-colors option', () => {
@@ -290,4 +424,858 @@ describe('CLI', () => {
       }
     });
   });
+
+  describe('invalid palette colors', () => {
+    it('should name the invalid entry', async () => {
+      await expect(
+        execAsync(
+          `npx tsx ${cliPath} "HI" --palette-colors "#ff0066, #12345"`,
+          { encoding: 'utf-8' }
+        )
+      ).rejects.toMatchObject({
+        stderr: expect.stringContaining(
+          'Invalid color "#12345" at palette entry 2: hex colors must have 3, 4, 6 or 8 digits'
+        ),
+      });
+    });
+
+    it('should keep commas inside color functions', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} "HI" --palette-colors "rgb(255, 0, 102), hsl(195, 100%, 50%)" -d horizontal --format svg`,
+        { encoding: 'utf-8' }
+      );
+      expect(stdout).toContain('#ff0066');
+      expect(stdout).toContain('#00bfff');
+    });
+
+    it('should accept hex colors without the #', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} "HI" --palette-colors "ff0000,00ff00" -d horizontal --format svg`,
+        { encoding: 'utf-8' }
+      );
+      expect(stdout).toContain('#ff0000');
+      expect(stdout).toContain('#00ff00');
+    });
+  });
+
+  describe('--palette-file option', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should use colors from a GIMP palette', async () => {
+      const file = join(dir, 'brand.gpl');
+      writeFileSync(file, 'GIMP Palette\n255 0 102\n0 204 255\n');
+
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} "HI" --palette-file ${file} -d horizontal --format svg`,
+        { encoding: 'utf-8' }
+      );
+      expect(stdout).toContain('#ff0066');
+      expect(stdout).toContain('#00ccff');
+    });
+
+    it('should override the palette argument', async () => {
+      const file = join(dir, 'brand.css');
+      writeFileSync(
+        file,
+        '.logo { background: linear-gradient(#ff0066, #00ccff); }'
+      );
+
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} "HI" fire --palette-file ${file} -d horizontal --format svg`,
+        { encoding: 'utf-8' }
+      );
+      expect(stdout).toContain('#ff0066');
+    });
+
+    it('should report malformed palette files', async () => {
+      const file = join(dir, 'brand.gpl');
+      writeFileSync(file, 'GIMP Palette\n255 0\n');
+
+      await expect(
+        execAsync(`npx tsx ${cliPath} "HI" --palette-file ${file}`, {
+          encoding: 'utf-8',
+        })
+      ).rejects.toMatchObject({
+        stderr: expect.stringContaining(
+          `Invalid palette ${file}: line 2 must be red, green and blue values`
+        ),
+      });
+    });
+  });
+
+  describe('--palette-from and --random-palette options', () => {
+    const fills = (output: string) =>
+      new Set(
+        [...output.matchAll(/fill="(#[0-9a-f]{6})"/g)].map((match) => match[1])
+      );
+
+    it('should generate a palette from a seed color', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} "HI" --palette-from "#ff0000" --harmony triadic -d horizontal --format svg`,
+        { encoding: 'utf-8' }
+      );
+      expect(fills(stdout)).toContain('#ff0000');
+      expect(fills(stdout)).toContain('#0000ff');
+    });
+
+    it('should print the random palette so a seed can be reused', async () => {
+      const run = () =>
+        execAsync(
+          `npx tsx ${cliPath} "HI" --random-palette --seed 42 --format svg`,
+          { encoding: 'utf-8' }
+        );
+      const first = await run();
+      const second = await run();
+
+      expect(first.stderr).toMatch(
+        /Random palette \(--seed 42 --harmony \w+\): --palette-colors "#[0-9a-f]{6}(,#[0-9a-f]{6})+"/
+      );
+      expect(first.stdout).toContain('<svg');
+      expect(second.stdout).toBe(first.stdout);
+    });
+
+    it('should reject unknown harmonies', async () => {
+      await expect(
+        execAsync(
+          `npx tsx ${cliPath} "HI" --palette-from red --harmony tetradic`,
+          {
+            encoding: 'utf-8',
+          }
+        )
+      ).rejects.toMatchObject({
+        stderr: expect.stringContaining('unknown harmony "tetradic"'),
+      });
+    });
+
+    it('should reject --harmony without a generated palette', async () => {
+      await expect(
+        execAsync(`npx tsx ${cliPath} "HI" --harmony triadic`, {
+          encoding: 'utf-8',
+        })
+      ).rejects.toMatchObject({
+        stderr: expect.stringContaining(
+          '--harmony only works with --palette-from or --random-palette'
+        ),
+      });
+    });
+
+    it('should keep a harmony from the environment as a default', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} "HI" --format svg`,
+        {
+          encoding: 'utf-8',
+          env: { ...process.env, OHMYLOGO_HARMONY: 'triadic' },
+        }
+      );
+      expect(stdout).toContain('<svg');
+    });
+  });
+
+  describe('--palette-transform option', () => {
+    it('should transform the palette after --reverse-gradient', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} "SVG" --palette-colors "#ff0000,#0000ff" --reverse-gradient --palette-transform "mix:white:100%" --format svg`,
+        { encoding: 'utf-8' }
+      );
+      const fills = new Set(
+        [...stdout.matchAll(/fill="(#[0-9a-f]{6})"/g)].map((match) => match[1])
+      );
+      expect([...fills]).toEqual(['#ffffff']);
+    });
+
+    it('should reject unknown transforms', async () => {
+      await expect(
+        execAsync(`npx tsx ${cliPath} "HI" --palette-transform blur`, {
+          encoding: 'utf-8',
+        })
+      ).rejects.toMatchObject({
+        stderr: expect.stringContaining('unknown palette transform "blur"'),
+      });
+    });
+  });
+
+  describe('--export-palette option', () => {
+    it('should print a palette as CSS custom properties', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} --export-palette sunset`,
+        { encoding: 'utf-8' }
+      );
+      expect(stdout).toContain(':root {');
+      expect(stdout).toContain('--sunset-1: #ff9966;');
+      expect(stdout).toContain('--sunset-gradient: linear-gradient(90deg,');
+    });
+
+    it('should sample steps in the requested format', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} --export-palette mono --export-format json --steps 4`,
+        { encoding: 'utf-8' }
+      );
+      expect(JSON.parse(stdout).colors).toHaveLength(4);
+    });
+
+    it('should export palettes from the user palette file', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+      const file = join(dir, 'palettes.json');
+      writeFileSync(file, JSON.stringify({ 'acme-brand': ['#ff0066'] }));
+
+      try {
+        const { stdout } = await execAsync(
+          `npx tsx ${cliPath} --export-palette acme-brand --export-format scss`,
+          {
+            encoding: 'utf-8',
+            env: { ...process.env, OHMYLOGO_PALETTES_FILE: file },
+          }
+        );
+        expect(stdout).toContain('$acme-brand-1: #ff0066;');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should export custom colors under the given name', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} --export-palette brand --palette-colors "#ff0066,#7f00ff"`,
+        { encoding: 'utf-8' }
+      );
+      expect(stdout).toContain('--brand-1: #ff0066;');
+      expect(stdout).toContain('--brand-2: #7f00ff;');
+    });
+
+    it('should export a palette file under the given name', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+      const file = join(dir, 'brand.css');
+      writeFileSync(file, 'linear-gradient(90deg, #ff0066, #00ccff);');
+
+      try {
+        const { stdout } = await execAsync(
+          `npx tsx ${cliPath} --export-palette brand --palette-file ${file} --export-format json`,
+          { encoding: 'utf-8' }
+        );
+        expect(JSON.parse(stdout)).toEqual({
+          name: 'brand',
+          colors: ['#ff0066', '#00ccff'],
+        });
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should still draw the word "palettes"', async () => {
+      const { stdout } = await execAsync(
+        `npx tsx ${cliPath} palettes --no-color`,
+        { encoding: 'utf-8' }
+      );
+      expect(stdout).toContain("| '_ \\ / _` |");
+    });
+
+    it.each([
+      ['nope', /Unknown palette: nope/],
+      ['sunset --export-format xml', /unknown palette format "xml"/],
+      ['sunset --steps 0', /invalid steps "0"/],
+      ['sunset "HI"', /--export-palette does not take text/],
+    ])('should reject %s', async (args, message) => {
+      await expect(
+        execAsync(`npx tsx ${cliPath} --export-palette ${args}`, {
+          encoding: 'utf-8',
+        })
+      ).rejects.toMatchObject({ stderr: expect.stringMatching(message) });
+    });
+
+    it('should reject --steps without --export-palette', async () => {
+      await expect(
+        execAsync(`npx tsx ${cliPath} "HI" --steps 4`, { encoding: 'utf-8' })
+      ).rejects.toMatchObject({
+        stderr: expect.stringContaining(
+          '--export-format and --steps only work with --export-palette'
+        ),
+      });
+    });
+  });
+
+  describe('--format and --output options', () => {
+    it('should print an SVG with --format svg', () => {
+      const output = execSync(`npx tsx ${cliPath} "SVG" sunset --format svg`, {
+        encoding: 'utf-8',
+      });
+      expect(output).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+      expect(output).toContain('<tspan');
+      expect(output).not.toContain('\x1b[');
+    });
+
+    it('should honor --palette-colors and --reverse-gradient in SVG output', () => {
+      const output = execSync(
+        `npx tsx ${cliPath} "SVG" --palette-colors "#ff0000,#0000ff" --reverse-gradient -d horizontal --format svg`,
+        {
+          encoding: 'utf-8',
+        }
+      );
+      const fills = [...output.matchAll(/fill="(#[0-9a-f]{6})"/g)].map(
+        (match) => match[1]
+      );
+      expect(fills).toContain('#0000ff');
+      expect(fills).toContain('#ff0000');
+      expect(fills[0]).toBe('#0000ff');
+    });
+
+    it('should place positioned --palette-colors stops', () => {
+      const fills = (palette: string) =>
+        [
+          ...execSync(
+            `npx tsx ${cliPath} "WIDE" --palette-colors '${palette}' -d horizontal --filled --format svg`,
+            { encoding: 'utf-8' }
+          ).matchAll(/fill="(#[0-9a-f]{6})"/g),
+        ].map((match) => match[1]);
+
+      const comma = fills('#ff0000 0%, #ff0000 90%, #0000ff');
+      const json = fills(
+        '[{"color": "#ff0000", "position": "90%"}, {"color": "#0000ff"}]'
+      );
+
+      expect(comma).toEqual(json);
+      expect(comma.filter((fill) => fill === '#ff0000').length).toBeGreaterThan(
+        comma.length / 2
+      );
+    });
+
+    it('should reject stop positions outside the gradient', () => {
+      try {
+        execSync(
+          `npx tsx ${cliPath} "HI" --palette-colors "#ff0000, #0000ff 150%"`,
+          { encoding: 'utf-8', stdio: 'pipe' }
+        );
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(
+          /color stop position must be between 0% and 100%/
+        );
+      }
+    });
+
+    it('should write an SVG file and infer the format from --output', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+      const file = join(dir, 'logo.svg');
+      try {
+        execSync(`npx tsx ${cliPath} "HI" --filled --output ${file}`, {
+          encoding: 'utf-8',
+        });
+        expect(existsSync(file)).toBe(true);
+        const svg = readFileSync(file, 'utf-8');
+        expect(svg).toContain('<svg');
+        expect(svg).toMatch(/[█╗╔╝╚═║]/);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should print an HTML fragment with --format html --fragment', () => {
+      const output = execSync(
+        `npx tsx ${cliPath} "HTML" --format html --fragment --background "#101010" --font-family Courier`,
+        {
+          encoding: 'utf-8',
+        }
+      );
+      expect(output).toContain('<pre style="');
+      expect(output).toContain('<span style="color:#');
+      expect(output).toContain('background-color:#101010');
+      expect(output).toContain('font-family:Courier');
+      expect(output).not.toContain('<!DOCTYPE html>');
+      expect(output).not.toContain('\x1b[');
+    });
+
+    it('should write an HTML page when --output ends in .html', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+      const file = join(dir, 'logo.html');
+      try {
+        execSync(`npx tsx ${cliPath} "HI" --output ${file}`, {
+          encoding: 'utf-8',
+        });
+        const html = readFileSync(file, 'utf-8');
+        expect(html).toContain('<!DOCTYPE html>');
+        expect(html).toContain('<title>HI</title>');
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should write a PNG file with --format png', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+      const file = join(dir, 'logo.png');
+      try {
+        execSync(
+          `npx tsx ${cliPath} "HI" --filled --output ${file} --scale 1 --padding 0 --background "#000000"`,
+          {
+            encoding: 'utf-8',
+          }
+        );
+        const png = readFileSync(file);
+        expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+        expect(png.readUInt32BE(16)).toBeGreaterThan(0);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should write an animated GIF with --format gif', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+      const file = join(dir, 'demo.gif');
+      try {
+        execSync(
+          `npx tsx ${cliPath} "HI" --animate rainbow --duration 300ms --fps 10 --loop infinite --scale 1 --output ${file}`,
+          {
+            encoding: 'utf-8',
+          }
+        );
+        const gif = readFileSync(file);
+        expect(gif.toString('ascii', 0, 6)).toBe('GIF89a');
+        expect(gif.includes('NETSCAPE2.0')).toBe(true);
+        // One graphic control extension per frame
+        expect(gif.toString('latin1').split('\x21\xf9\x04').length - 1).toBe(3);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject an invalid --delay for gif output', () => {
+      try {
+        execSync(`npx tsx ${cliPath} "HI" --format gif --delay soon`, {
+          encoding: 'utf-8',
+          stdio: 'pipe',
+        });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(
+          /invalid duration "soon"/
+        );
+      }
+    });
+
+    it('should print an asciicast recording of the static logo', () => {
+      const output = execSync(
+        `npx tsx ${cliPath} "HI" sunset --format asciicast`,
+        {
+          encoding: 'utf-8',
+        }
+      );
+      const [header, ...events] = output.trimEnd().split('\n');
+      expect(JSON.parse(header)).toMatchObject({ version: 2, title: 'HI' });
+      expect(events.length).toBe(3);
+    });
+
+    it('should dither an asciicast frame once, like the still logo', async () => {
+      const args = `"HELLO" sunset --filled --color-level 16 --dither bayer`;
+      const { stdout: still } = await execAsync(`npx tsx ${cliPath} ${args}`, {
+        encoding: 'utf-8',
+      });
+      const { stdout: cast } = await execAsync(
+        `npx tsx ${cliPath} ${args} --format asciicast`,
+        { encoding: 'utf-8' }
+      );
+      const frame = JSON.parse(cast.split('\n')[2])[2]
+        .replace(/\x1b\[K/g, '')
+        .replace(/\r\n/g, '\n');
+
+      expect(`${frame}\n`).toBe(still);
+    });
+
+    it('should record an animation to a .cast file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+      const file = join(dir, 'demo.cast');
+      try {
+        execSync(
+          `npx tsx ${cliPath} "HI" --animate typewriter --duration 500ms --fps 10 --output ${file}`,
+          {
+            encoding: 'utf-8',
+          }
+        );
+        const events = readFileSync(file, 'utf-8').trimEnd().split('\n');
+        // Header, start, five frames, the static frame, and the end
+        expect(events).toHaveLength(9);
+        expect(JSON.parse(events[events.length - 1])[0]).toBe(0.4);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject unknown formats', () => {
+      try {
+        execSync(`npx tsx ${cliPath} "HI" --format pdf`, {
+          encoding: 'utf-8',
+          stdio: 'pipe',
+        });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(/unsupported format/i);
+      }
+    });
+
+    it.each([
+      ['--padding abc --format svg', /invalid padding "abc"/],
+      ['--scale 1.5 --format png', /invalid scale "1.5"/],
+      ['--filled --letter-spacing 2px', /invalid letter spacing "2px"/],
+    ])('should reject %s', async (args, message) => {
+      await expect(
+        execAsync(`npx tsx ${cliPath} "HI" ${args}`, { encoding: 'utf-8' })
+      ).rejects.toMatchObject({ stderr: expect.stringMatching(message) });
+    });
+  });
+
+  describe('--no-color flag', () => {
+    it('should strip colors even when FORCE_COLOR is set', () => {
+      const output = execSync(`npx tsx ${cliPath} "HI" sunset --no-color`, {
+        encoding: 'utf-8',
+        env: { ...process.env, NO_COLOR: '', FORCE_COLOR: '1' },
+      });
+      expect(output).not.toContain('\x1b[');
+      expect(output.trim().length).toBeGreaterThan(0);
+    });
+
+    it('should keep colors with --color', () => {
+      const output = execSync(`npx tsx ${cliPath} "HI" sunset --color`, {
+        encoding: 'utf-8',
+        env: { ...process.env, NO_COLOR: '1', COLORTERM: 'truecolor' },
+      });
+      expect(output).toContain('\x1b[38;2;');
+    });
+  });
+
+  describe('--color-level option', () => {
+    it('should emit 256-color sequences with --color-level 256', () => {
+      const output = execSync(
+        `npx tsx ${cliPath} "HI" sunset --color --color-level 256`,
+        {
+          encoding: 'utf-8',
+        }
+      );
+      expect(output).toContain('\x1b[38;5;');
+      expect(output).not.toContain('\x1b[38;2;');
+    });
+
+    it('should emit basic ANSI colors when FORCE_COLOR=1', () => {
+      const output = execSync(`npx tsx ${cliPath} "HI" sunset`, {
+        encoding: 'utf-8',
+        env: { ...process.env, NO_COLOR: '', FORCE_COLOR: '1' },
+      });
+      expect(output).toMatch(/\x1b\[9[0-7]m|\x1b\[3[0-7]m/);
+      expect(output).not.toContain('\x1b[38;');
+    });
+
+    it('should quantize exported colors', () => {
+      const output = execSync(
+        `npx tsx ${cliPath} "HI" --palette-colors "#ff8000" --format svg --color-level 256`,
+        {
+          encoding: 'utf-8',
+        }
+      );
+      expect(output).toContain('#ff8700');
+    });
+
+    it('should dither 256-color output with --dither', () => {
+      const plain = execSync(
+        `npx tsx ${cliPath} "WIDE" sunset --filled --color-level 256`,
+        {
+          encoding: 'utf-8',
+        }
+      );
+      const dithered = execSync(
+        `npx tsx ${cliPath} "WIDE" sunset --filled --color-level 256 --dither bayer`,
+        {
+          encoding: 'utf-8',
+        }
+      );
+      const colors = (output: string) =>
+        new Set(output.match(/38;5;\d+/g)).size;
+      expect(colors(dithered)).toBeGreaterThan(colors(plain));
+    });
+
+    it('should blend gradients in the --interpolation color space', () => {
+      const run = (args: string) =>
+        execSync(`npx tsx ${cliPath} "HI" fire --color ${args}`, {
+          encoding: 'utf-8',
+          env: { ...process.env, COLORTERM: 'truecolor' },
+        });
+
+      expect(run('--interpolation oklch')).not.toBe(run(''));
+    });
+
+    it('should accept angle, radial and conic directions', () => {
+      const run = (args: string) =>
+        execSync(`npx tsx ${cliPath} "HI" fire --color ${args}`, {
+          encoding: 'utf-8',
+          env: { ...process.env, COLORTERM: 'truecolor' },
+        });
+
+      const radial = run('-d radial');
+      expect(radial).toContain('\x1b[38;2;');
+      expect(radial).not.toBe(run('-d 90deg'));
+      expect(run('--filled -d "conic 90deg"')).toContain('\x1b[38;2;');
+    });
+
+    it('should color each word separately with --gradient-scope', () => {
+      const run = (args: string) =>
+        execSync(`npx tsx ${cliPath} "HI HI" fire --color ${args}`, {
+          encoding: 'utf-8',
+          env: { ...process.env, COLORTERM: 'truecolor' },
+        });
+
+      expect(run('--gradient-scope word')).not.toBe(run(''));
+    });
+
+    it('should reject unknown gradient scopes', () => {
+      try {
+        execSync(`npx tsx ${cliPath} "HI" --gradient-scope page`, {
+          encoding: 'utf-8',
+          stdio: 'pipe',
+        });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(
+          /unknown gradient scope "page"/
+        );
+      }
+    });
+
+    it('should reject unknown directions', () => {
+      try {
+        execSync(`npx tsx ${cliPath} "HI" -d sideways`, {
+          encoding: 'utf-8',
+          stdio: 'pipe',
+        });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(
+          /unknown direction "sideways"/
+        );
+      }
+    });
+
+    it('should reject unknown easings', () => {
+      try {
+        execSync(`npx tsx ${cliPath} "HI" --easing bounce`, {
+          encoding: 'utf-8',
+          stdio: 'pipe',
+        });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(
+          /unknown easing "bounce"/
+        );
+      }
+    });
+
+    it('should reject unknown interpolation spaces', () => {
+      try {
+        execSync(`npx tsx ${cliPath} "HI" --interpolation cmyk`, {
+          encoding: 'utf-8',
+          stdio: 'pipe',
+        });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(
+          /unknown interpolation "cmyk"/
+        );
+      }
+    });
+
+    it('should reject unknown dither methods', () => {
+      try {
+        execSync(`npx tsx ${cliPath} "HI" --dither noise`, {
+          encoding: 'utf-8',
+          stdio: 'pipe',
+        });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(
+          /unknown dither method "noise"/
+        );
+      }
+    });
+
+    it('should reject unknown color levels', () => {
+      try {
+        execSync(`npx tsx ${cliPath} "HI" --color-level 88`, {
+          encoding: 'utf-8',
+          stdio: 'pipe',
+        });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(
+          /invalid color level "88"/
+        );
+      }
+    });
+  });
+
+  describe('--animate option', () => {
+    it('should fall back to the static logo when stdout is not a TTY', () => {
+      const animated = execSync(
+        `npx tsx ${cliPath} "HI" sunset --animate shimmer --duration 3s --loop 2 --fps 30`,
+        {
+          encoding: 'utf-8',
+        }
+      );
+      const staticOutput = execSync(`npx tsx ${cliPath} "HI" sunset`, {
+        encoding: 'utf-8',
+      });
+      expect(animated).toBe(staticOutput);
+      expect(animated).not.toContain('\x1b[?25l');
+    });
+
+    it('should fall back to the static logo in filled mode', () => {
+      const output = execSync(
+        `npx tsx ${cliPath} "HI" --filled --animate typewriter`,
+        {
+          encoding: 'utf-8',
+        }
+      );
+      expect(output).toMatch(/[█╗╔╝╚═║]/);
+    });
+
+    it.each([
+      ['--animate sparkle', /unknown animation "sparkle"/],
+      ['--animate --duration 3x', /invalid duration "3x"/],
+      ['--animate --loop 0', /invalid loop count "0"/],
+      ['--animate --fps 0', /invalid fps "0"/],
+      [
+        '--animate --format svg',
+        /--animate only supports terminal, asciicast and gif output/,
+      ],
+      ['--animate --output logo.txt', /--animate cannot write to a file/],
+      ['--animate --gallery', /--animate is not supported with --gallery/],
+      [
+        '--animate --loop infinite --format asciicast',
+        /asciicast recordings cannot loop forever/,
+      ],
+    ])('should reject %s', (args, message) => {
+      try {
+        execSync(`npx tsx ${cliPath} "HI" ${args}`, {
+          encoding: 'utf-8',
+          stdio: 'pipe',
+        });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(message);
+      }
+    });
+  });
+
+  describe('config files and environment variables', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    const run = async (args: string, env: Record<string, string> = {}) => {
+      const { stdout } = await execAsync(`npx tsx ${cliPath} ${args}`, {
+        cwd: dir,
+        encoding: 'utf-8',
+        env: { ...process.env, ...env },
+      });
+      return stdout;
+    };
+
+    it('should use settings from a config file in the working directory', async () => {
+      writeFileSync(
+        join(dir, '.ohmylogorc.json'),
+        JSON.stringify({ palette: ['#ff0066', '#00ccff'], format: 'svg' })
+      );
+
+      const output = await run('"HI" -d horizontal');
+      expect(output).toContain('<svg');
+      expect(output).toContain('#ff0066');
+    });
+
+    it('should use settings from environment variables', async () => {
+      const output = await run('"HI"', {
+        OHMYLOGO_FORMAT: 'svg',
+        OHMYLOGO_PALETTE: 'fire',
+      });
+      expect(output).toContain('<svg');
+    });
+
+    it('should let flags override the config file and the config file override env', async () => {
+      writeFileSync(
+        join(dir, '.ohmylogorc.json'),
+        JSON.stringify({ font: 'Slant', blockFont: 'simple' })
+      );
+
+      const output = await run('"HI" --print-config --block-font tiny', {
+        OHMYLOGO_FONT: 'Banner',
+        OHMYLOGO_DIRECTION: 'horizontal',
+      });
+      expect(output).toContain(`Config file: ${join(dir, '.ohmylogorc.json')}`);
+      expect(output).toMatch(/font\s+Slant\s+\(config\)/);
+      expect(output).toMatch(/blockFont\s+tiny\s+\(cli\)/);
+      expect(output).toMatch(
+        /direction\s+horizontal\s+\(env OHMYLOGO_DIRECTION\)/
+      );
+      expect(output).toMatch(/palette\s+grad-blue\s+\(default\)/);
+    });
+
+    it('should print the config without text', async () => {
+      const output = await run('--print-config');
+      expect(output).toContain('Config file: none');
+    });
+
+    it.each([
+      ['{"colour": true}', /unknown setting "colour"/],
+      ['{"filled": "yes"}', /"filled" in .* must be true or false/],
+      ['{"fps": "x"}', /invalid fps "x"/],
+      ['{"padding": -1}', /invalid padding "-1"/],
+      ['{', /could not be parsed/],
+    ])('should reject the config %s', async (contents, message) => {
+      writeFileSync(join(dir, '.ohmylogorc.json'), contents);
+      try {
+        await run('"HI"');
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(message);
+      }
+    });
+
+    it('should reject invalid boolean environment variables', async () => {
+      try {
+        await run('"HI"', { OHMYLOGO_FILLED: 'maybe' });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(
+          /OHMYLOGO_FILLED must be true or false/
+        );
+      }
+    });
+
+    it('should reject invalid numeric environment variables', async () => {
+      try {
+        await run('--print-config', { OHMYLOGO_LETTER_SPACING: 'abc' });
+        expect(true).toBe(false);
+      } catch (error: any) {
+        expect(error.stderr || error.message).toMatch(
+          /invalid letter spacing "abc"/
+        );
+      }
+    });
+
+    it('should show numeric settings parsed', async () => {
+      writeFileSync(
+        join(dir, '.ohmylogorc.json'),
+        JSON.stringify({ duration: '3s', scale: 2 })
+      );
+
+      const output = await run('--print-config');
+      expect(output).toMatch(/duration\s+3000\s+\(config\)/);
+      expect(output).toMatch(/scale\s+2\s+\(config\)/);
+    });
+  });
 });
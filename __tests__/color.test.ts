@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createInterpolator,
+  formatHex,
+  hslToRgb,
+  hsvToRgb,
+  hwbToRgb,
+  interpolateColor,
+  isValidColor,
+  labToRgb,
+  oklchToRgb,
+  parseColor,
+  rgbToHsl,
+  rgbToHsv,
+  rgbToLab,
+  rgbToOklch,
+} from '../src/color.js';
+
+const SAMPLES = ['#000000', '#ffffff', '#808080', '#ff0000', '#123456'];
+
+describe('color', () => {
+  describe('parseColor', () => {
+    it('should parse hex and named colors', () => {
+      expect(parseColor('#ff8000')).toEqual([255, 128, 0]);
+      expect(parseColor('rebeccapurple')).toEqual([102, 51, 153]);
+    });
+
+    it('should convert color functions to whole sRGB channels', () => {
+      expect(parseColor('hsl(336 100% 50%)')).toEqual([255, 0, 102]);
+      expect(parseColor('hwb(336 0% 0%)')).toEqual([255, 0, 102]);
+      expect(parseColor('lab(54.29 80.8 69.89)')).toEqual([255, 0, 0]);
+      expect(parseColor('oklch(62.8% 0.2577 29.23)')).toEqual([255, 0, 0]);
+    });
+
+    it('should clip colors outside the sRGB gamut', () => {
+      expect(parseColor('lab(50 0 -200)')).toEqual([0, 146, 255]);
+    });
+
+    it('should throw a ColorError for invalid colors', () => {
+      expect(() => parseColor('bleu')).toThrow('Invalid color "bleu"');
+    });
+  });
+
+  describe('isValidColor', () => {
+    it('should tell parseable colors apart', () => {
+      expect(isValidColor('#ff8000')).toBe(true);
+      expect(isValidColor('rgb(255, 128, 0)')).toBe(true);
+      expect(isValidColor('bleu')).toBe(false);
+    });
+  });
+
+  describe('hslToRgb and hwbToRgb', () => {
+    it('should convert to RGB', () => {
+      expect(formatHex(hslToRgb([120, 1, 0.25]))).toBe('#008000');
+      expect(formatHex(hslToRgb([0, 0, 1]))).toBe('#ffffff');
+      expect(formatHex(hwbToRgb([240, 0.2, 0.4]))).toBe('#333399');
+    });
+
+    it('should turn whiteness and blackness over 100% into gray', () => {
+      expect(formatHex(hwbToRgb([0, 0.6, 0.6]))).toBe('#808080');
+    });
+
+    it.each(SAMPLES)('should round-trip %s through rgbToHsl', (hex) => {
+      expect(formatHex(hslToRgb(rgbToHsl(parseColor(hex))))).toBe(hex);
+    });
+  });
+
+  describe('formatHex', () => {
+    it('should clamp and round channels', () => {
+      expect(formatHex([255.4, -3, 127.6])).toBe('#ff0080');
+    });
+  });
+
+  describe('conversions', () => {
+    it('should convert to hsv', () => {
+      expect(rgbToHsv([255, 0, 0])).toEqual([0, 1, 1]);
+      expect(rgbToHsv([0, 0, 255])).toEqual([240, 1, 1]);
+    });
+
+    it('should convert to D50 lab', () => {
+      const [lightness, a, b] = rgbToLab([255, 0, 0]);
+
+      expect(lightness).toBeCloseTo(54.29, 1);
+      expect(a).toBeCloseTo(80.81, 1);
+      expect(b).toBeCloseTo(69.89, 1);
+    });
+
+    it('should convert to oklch', () => {
+      const [lightness, chroma, hue] = rgbToOklch([255, 0, 0]);
+
+      expect(lightness).toBeCloseTo(0.628, 3);
+      expect(chroma).toBeCloseTo(0.2577, 3);
+      expect(hue).toBeCloseTo(29.23, 1);
+    });
+
+    it.each(SAMPLES)('should round trip %s through every space', (hex) => {
+      const rgb = parseColor(hex);
+
+      expect(formatHex(hsvToRgb(rgbToHsv(rgb)))).toBe(hex);
+      expect(formatHex(labToRgb(rgbToLab(rgb)))).toBe(hex);
+      expect(formatHex(oklchToRgb(rgbToOklch(rgb)))).toBe(hex);
+    });
+
+    it('should reduce chroma to fit oklch colors into sRGB', () => {
+      const rgb = oklchToRgb([0.7, 0.4, 150]);
+
+      for (const channel of rgb) {
+        expect(channel).toBeGreaterThanOrEqual(-0.5);
+        expect(channel).toBeLessThanOrEqual(255.5);
+      }
+      // The hue stays green instead of clipping toward another color
+      expect(rgb[1]).toBeGreaterThan(rgb[0]);
+      expect(rgb[1]).toBeGreaterThan(rgb[2]);
+    });
+  });
+
+  describe('interpolateColor', () => {
+    it('should blend channels in rgb by default', () => {
+      expect(interpolateColor('#ff0000', '#0000ff', 0.5)).toBe('#800080');
+    });
+
+    it('should return the stops at the ends in every space', () => {
+      for (const interpolation of ['rgb', 'hsv', 'lab', 'oklch'] as const) {
+        expect(
+          interpolateColor('#654ea3', '#eaafc8', 0, { interpolation })
+        ).toBe('#654ea3');
+        expect(
+          interpolateColor('#654ea3', '#eaafc8', 1, { interpolation })
+        ).toBe('#eaafc8');
+      }
+    });
+
+    it('should keep the middle of a gradient more colorful in oklch', () => {
+      const chroma = (hex: string) => rgbToOklch(parseColor(hex))[1];
+      const rgb = interpolateColor('#ff0844', '#00d2ff', 0.5);
+      const oklch = interpolateColor('#ff0844', '#00d2ff', 0.5, {
+        interpolation: 'oklch',
+      });
+
+      expect(chroma(oklch)).toBeGreaterThan(chroma(rgb) * 1.5);
+    });
+
+    it('should follow the hue path', () => {
+      const short = interpolateColor('#ff0000', '#0000ff', 0.5, {
+        interpolation: 'hsv',
+      });
+      const long = interpolateColor('#ff0000', '#0000ff', 0.5, {
+        interpolation: 'hsv',
+        huePath: 'long',
+      });
+
+      expect(short).toBe('#ff00ff');
+      expect(long).toBe('#00ff00');
+    });
+
+    it('should give grays the hue of the other stop', () => {
+      const [, , hue] = rgbToOklch(
+        parseColor(
+          interpolateColor('#ffffff', '#0000ff', 0.5, {
+            interpolation: 'oklch',
+          })
+        )
+      );
+
+      expect(hue).toBeCloseTo(rgbToOklch([0, 0, 255])[2], 0);
+    });
+  });
+
+  describe('createInterpolator', () => {
+    it('should spread stops evenly and clamp positions', () => {
+      const gradient = createInterpolator(['#ff0000', '#00ff00', '#0000ff']);
+
+      expect(gradient(0.5)).toBe('#00ff00');
+      expect(gradient(-1)).toBe('#ff0000');
+      expect(gradient(2)).toBe('#0000ff');
+    });
+
+    it('should repeat a single color', () => {
+      expect(createInterpolator(['#123456'])(0.3)).toBe('#123456');
+    });
+  });
+});
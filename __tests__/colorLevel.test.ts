@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ansi256ToRgb,
+  ditherColors,
+  getColorCode,
+  quantizeColor,
+  rgbToAnsi16,
+  rgbToAnsi256,
+} from '../src/colorLevel.js';
+
+describe('colorLevel', () => {
+  describe('ansi256ToRgb', () => {
+    it('should decode the color cube and gray ramp', () => {
+      expect(ansi256ToRgb(16)).toEqual([0, 0, 0]);
+      expect(ansi256ToRgb(196)).toEqual([255, 0, 0]);
+      expect(ansi256ToRgb(208)).toEqual([255, 135, 0]);
+      expect(ansi256ToRgb(232)).toEqual([8, 8, 8]);
+      expect(ansi256ToRgb(255)).toEqual([238, 238, 238]);
+    });
+
+    it('should use xterm defaults for the basic colors', () => {
+      expect(ansi256ToRgb(1)).toEqual([205, 0, 0]);
+      expect(ansi256ToRgb(15)).toEqual([255, 255, 255]);
+    });
+  });
+
+  describe('rgbToAnsi256', () => {
+    it('should pick exact cube colors', () => {
+      expect(rgbToAnsi256([255, 0, 0])).toBe(196);
+      expect(rgbToAnsi256([95, 135, 175])).toBe(67);
+    });
+
+    it('should prefer the gray ramp for near-gray colors', () => {
+      expect(rgbToAnsi256([128, 128, 128])).toBe(244);
+      expect(rgbToAnsi256([20, 20, 20])).toBe(233);
+    });
+
+    it('should round trip every cube and gray index', () => {
+      for (let index = 16; index < 256; index += 1) {
+        expect(rgbToAnsi256(ansi256ToRgb(index))).toBe(index);
+      }
+    });
+  });
+
+  describe('rgbToAnsi16', () => {
+    it('should map colors to the nearest basic color', () => {
+      expect(rgbToAnsi16([250, 10, 10])).toBe(9);
+      expect(rgbToAnsi16([180, 0, 0])).toBe(1);
+      expect(rgbToAnsi16([20, 20, 20])).toBe(0);
+      expect(rgbToAnsi16([250, 250, 250])).toBe(15);
+    });
+  });
+
+  describe('quantizeColor', () => {
+    it('should return the color shown at each level', () => {
+      expect(quantizeColor('#ff8000', 3)).toBe('#ff8000');
+      expect(quantizeColor('#ff8000', 2)).toBe('#ff8700');
+      expect(quantizeColor('#fa0a0a', 1)).toBe('#ff0000');
+      expect(quantizeColor('#ff8000', 0)).toBeNull();
+    });
+  });
+
+  describe('ditherColors', () => {
+    // A flat color halfway between two 256-color cube steps
+    const flat = Array.from({ length: 8 }, () =>
+      Array.from({ length: 8 }, () => '#9b9b00')
+    );
+
+    function averageRed(rows: Array<Array<string | null>>) {
+      const reds = rows.flat().map((color) => parseInt(color!.slice(1, 3), 16));
+      return reds.reduce((sum, red) => sum + red, 0) / reds.length;
+    }
+
+    it('should pick the nearest color without dithering', () => {
+      const rows = ditherColors(flat, 2, 'none');
+
+      expect(new Set(rows.flat())).toEqual(new Set(['#878700']));
+    });
+
+    it.each(['bayer', 'floyd'] as const)(
+      'should mix palette colors with %s dithering',
+      (method) => {
+        const rows = ditherColors(flat, 2, method);
+
+        expect(new Set(rows.flat()).size).toBeGreaterThan(1);
+        expect(Math.abs(averageRed(rows) - 0x9b)).toBeLessThan(12);
+      }
+    );
+
+    it('should be deterministic', () => {
+      expect(ditherColors(flat, 1, 'bayer')).toEqual(
+        ditherColors(flat, 1, 'bayer')
+      );
+      expect(ditherColors(flat, 1, 'floyd')).toEqual(
+        ditherColors(flat, 1, 'floyd')
+      );
+    });
+
+    it('should leave empty cells and truecolor untouched', () => {
+      const rows = [['#123456', null]];
+
+      expect(ditherColors(rows, 2, 'floyd')[0][1]).toBeNull();
+      expect(ditherColors(rows, 3, 'floyd')).toEqual(rows);
+    });
+  });
+
+  describe('getColorCode', () => {
+    it('should emit foreground codes for every level', () => {
+      expect(getColorCode('#ff8000', 3, 'fg')).toBe('38;2;255;128;0');
+      expect(getColorCode('#ff8000', 2, 'fg')).toBe('38;5;208');
+      expect(getColorCode('#b40000', 1, 'fg')).toBe('31');
+      expect(getColorCode('#fa0a0a', 1, 'fg')).toBe('91');
+      expect(getColorCode('#ff8000', 0, 'fg')).toBeNull();
+    });
+
+    it('should emit background codes for every level', () => {
+      expect(getColorCode('#ff8000', 3, 'bg')).toBe('48;2;255;128;0');
+      expect(getColorCode('#ff8000', 2, 'bg')).toBe('48;5;208');
+      expect(getColorCode('#b40000', 1, 'bg')).toBe('41');
+      expect(getColorCode('#fa0a0a', 1, 'bg')).toBe('101');
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { parseCssColor } from '../src/colorParser.js';
+import { ColorError } from '../src/utils/errors.js';
+
+const round = (values: number[]) => values.map((value) => +value.toFixed(4));
+
+describe('colorParser', () => {
+  describe('parseCssColor', () => {
+    it.each([
+      ['#f06', [255, 0, 102], 1],
+      ['#f068', [255, 0, 102], 0.5333],
+      ['#FF0066', [255, 0, 102], 1],
+      ['#ff006680', [255, 0, 102], 0.502],
+      ['f06', [255, 0, 102], 1],
+      ['ff0066', [255, 0, 102], 1],
+      ['FF006680', [255, 0, 102], 0.502],
+    ])('should read the hex color %s', (color, channels, alpha) => {
+      const parsed = parseCssColor(color);
+
+      expect(parsed.space).toBe('rgb');
+      expect(parsed.channels).toEqual(channels);
+      expect(+parsed.alpha.toFixed(4)).toBe(alpha);
+    });
+
+    it.each([
+      ['rgb(255, 0, 102)', 'rgb', [255, 0, 102], 1],
+      ['rgba(255,0,102,0.5)', 'rgb', [255, 0, 102], 0.5],
+      ['rgb(100% 0% 40% / 25%)', 'rgb', [255, 0, 102], 0.25],
+      ['RGB(255 none 102)', 'rgb', [255, 0, 102], 1],
+      ['hsl(336, 100%, 50%)', 'hsl', [336, 100, 50], 1],
+      ['hsla(0.5turn 50 25 / .5)', 'hsl', [180, 50, 25], 0.5],
+      ['hsl(200grad 10% 20%)', 'hsl', [180, 10, 20], 1],
+      ['hwb(336 0% 0%)', 'hwb', [336, 0, 0], 1],
+      ['lab(54.29 80.8 69.89)', 'lab', [54.29, 80.8, 69.89], 1],
+      ['lab(50% -100% 100%)', 'lab', [50, -125, 125], 1],
+      ['oklch(62.8% 0.2577 29.23)', 'oklch', [0.628, 0.2577, 29.23], 1],
+      ['oklch(0.7 50% 3.1416rad)', 'oklch', [0.7, 0.2, 180.0004], 1],
+    ])('should read %s', (color, space, channels, alpha) => {
+      const parsed = parseCssColor(color);
+
+      expect(parsed.space).toBe(space);
+      expect(round(parsed.channels)).toEqual(channels);
+      expect(parsed.alpha).toBe(alpha);
+    });
+
+    it('should clamp channels to their range', () => {
+      expect(parseCssColor('rgb(300 -5 0 / 2)')).toEqual({
+        space: 'rgb',
+        channels: [255, 0, 0],
+        alpha: 1,
+      });
+    });
+
+    it.each([
+      ['rebeccapurple', [102, 51, 153], 1],
+      ['  LightGoldenrodYellow ', [250, 250, 210], 1],
+      ['transparent', [0, 0, 0], 0],
+    ])('should read the named color %j', (color, channels, alpha) => {
+      expect(parseCssColor(color)).toEqual({
+        space: 'rgb',
+        channels,
+        alpha,
+      });
+    });
+
+    it.each([
+      ['', 'color must not be empty'],
+      ['#ggg', 'hex colors may only contain 0-9 and a-f'],
+      ['#12345', 'hex colors must have 3, 4, 6 or 8 digits'],
+      ['bleu', 'not a hex color, color function or CSS color name'],
+      ['constructor', 'not a hex color, color function or CSS color name'],
+      ['rgb(255 0 0', 'color function is missing its closing ")"'],
+      [
+        'hsv(0 100% 100%)',
+        'unsupported color function "hsv()" (expected rgb(), hsl(), hwb(), lab() or oklch())',
+      ],
+      [
+        'rgb(255, 0)',
+        'rgb() takes three values and an optional alpha, as in rgb(a, b, c, alpha)',
+      ],
+      [
+        'rgb(255 0 0 0)',
+        'rgb() takes three values and an optional alpha, as in rgb(a b c / alpha)',
+      ],
+      [
+        'rgb(255 0 0 / 1 / 1)',
+        'rgb() takes three values and an optional alpha, as in rgb(a b c / alpha)',
+      ],
+      ['rgb(255px 0 0)', 'red must be a number or percentage, got "255px"'],
+      ['rgb(abc 0 0)', 'red must be a number or percentage, got "abc"'],
+      ['hsl(50% 0% 0%)', 'hue must be a number or angle, got "50%"'],
+      ['lab(50 1deg 0)', 'a must be a number or percentage, got "1deg"'],
+    ])('should reject %j', (color, reason) => {
+      expect(() => parseCssColor(color)).toThrow(ColorError);
+      expect(() => parseCssColor(color)).toThrow(
+        `Invalid color "${color}": ${reason}`
+      );
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { createGrid } from '../src/grid.js';
+import {
+  sampleGradient,
+  interpolateGradient,
+  mixColors,
+  colorizeColumns,
+  colorizeLines,
+  colorizeRows,
+  colorizeGeometry,
+} from '../src/colorizers.js';
+
+const palette = ['#ff0000', '#0000ff'];
+
+describe('colorizers', () => {
+  describe('sampleGradient', () => {
+    it('should start and end on the palette stops', () => {
+      const colors = sampleGradient(palette, 5);
+
+      expect(colors).toHaveLength(5);
+      expect(colors[0]).toBe('#ff0000');
+      expect(colors[4]).toBe('#0000ff');
+    });
+
+    it('should sample at least one color per stop', () => {
+      expect(sampleGradient(['#ff0000', '#00ff00', '#0000ff'], 1)).toEqual([
+        '#ff0000',
+        '#00ff00',
+        '#0000ff',
+      ]);
+    });
+
+    it('should repeat a single color', () => {
+      expect(sampleGradient(['#123456'], 3)).toEqual([
+        '#123456',
+        '#123456',
+        '#123456',
+      ]);
+    });
+
+    it('should fall back to a rainbow without colors', () => {
+      const colors = sampleGradient([], 6);
+
+      expect(colors).toHaveLength(6);
+      expect(new Set(colors).size).toBeGreaterThan(3);
+    });
+
+    it('should return nothing for a zero count', () => {
+      expect(sampleGradient(palette, 0)).toEqual([]);
+    });
+
+    it('should place positioned stops along the gradient', () => {
+      const colors = sampleGradient(['#000000', '#ffffff 80%', '#ff0000'], 11);
+
+      expect(colors[8]).toBe('#ffffff');
+      expect(colors[4]).toBe('#808080');
+      expect(colors[10]).toBe('#ff0000');
+    });
+
+    it('should make hard edges where stops share a position', () => {
+      expect(sampleGradient(['#000000 50%', '#ffffff 50%'], 4)).toEqual([
+        '#000000',
+        '#000000',
+        '#ffffff',
+        '#ffffff',
+      ]);
+    });
+
+    it('should ease the position along the gradient', () => {
+      const colors = sampleGradient(['#000000', '#ffffff'], 5, {
+        easing: 'steps(2, jump-none)',
+      });
+
+      expect(colors).toEqual([
+        '#000000',
+        '#000000',
+        '#ffffff',
+        '#ffffff',
+        '#ffffff',
+      ]);
+    });
+
+    it('should blend in the requested color space', () => {
+      const rgb = sampleGradient(palette, 3);
+      const hsv = sampleGradient(palette, 3, { interpolation: 'hsv' });
+
+      expect(rgb[1]).toBe('#800080');
+      expect(hsv[1]).toBe('#ff00ff');
+      expect(hsv[0]).toBe(rgb[0]);
+      expect(hsv[2]).toBe(rgb[2]);
+    });
+  });
+
+  describe('interpolateGradient', () => {
+    it('should return the stops at the ends and blend between them', () => {
+      expect(interpolateGradient(palette, 0)).toBe('#ff0000');
+      expect(interpolateGradient(palette, 1)).toBe('#0000ff');
+      expect(interpolateGradient(palette, 0.5)).toMatch(/^#(7f|80)00(7f|80)$/);
+    });
+
+    it('should clamp positions outside the gradient', () => {
+      expect(interpolateGradient(palette, -1)).toBe('#ff0000');
+      expect(interpolateGradient(palette, 2)).toBe('#0000ff');
+    });
+
+    it('should return a single color anywhere', () => {
+      expect(interpolateGradient(['#123456'], 0.7)).toBe('#123456');
+    });
+  });
+
+  describe('mixColors', () => {
+    it('should blend from one color toward another', () => {
+      expect(mixColors('#000000', '#ffffff', 0)).toBe('#000000');
+      expect(mixColors('#000000', '#ffffff', 1)).toBe('#ffffff');
+      expect(mixColors('#000000', '#ffffff', 0.5)).toMatch(
+        /^#(7f|80)(7f|80)(7f|80)$/
+      );
+    });
+  });
+
+  describe('colorizeColumns', () => {
+    it('should pass gradient options to the sampler', () => {
+      const grid = colorizeColumns(createGrid('ABC'), palette, {
+        interpolation: 'hsv',
+        huePath: 'long',
+      });
+
+      expect(grid.rows[0][1].fg).toBe('#00ff00');
+    });
+
+    it('should give every row the same colors by column', () => {
+      const grid = colorizeColumns(createGrid('AB\nCD'), palette);
+
+      expect(grid.rows[0].map((cell) => cell.fg)).toEqual([
+        '#ff0000',
+        '#0000ff',
+      ]);
+      expect(grid.rows[1].map((cell) => cell.fg)).toEqual([
+        '#ff0000',
+        '#0000ff',
+      ]);
+    });
+  });
+
+  describe('colorizeLines', () => {
+    it('should run the gradient through the visible glyphs of each row', () => {
+      const grid = colorizeLines(createGrid('A B\n  C D'), palette);
+
+      expect(grid.rows[0].map((cell) => cell.fg)).toEqual([
+        '#ff0000',
+        null,
+        '#0000ff',
+      ]);
+      expect(grid.rows[1].map((cell) => cell.fg)).toEqual([
+        null,
+        null,
+        '#ff0000',
+        null,
+        '#0000ff',
+      ]);
+    });
+  });
+
+  describe('colorizeRows', () => {
+    it('should give each content row a single color', () => {
+      const grid = colorizeRows(createGrid('AB\n\nCD'), palette);
+
+      expect(grid.rows[0].map((cell) => cell.fg)).toEqual([
+        '#ff0000',
+        '#ff0000',
+      ]);
+      expect(grid.rows[1]).toEqual([]);
+      expect(grid.rows[2].map((cell) => cell.fg)).toEqual([
+        '#0000ff',
+        '#0000ff',
+      ]);
+    });
+  });
+
+  describe('colorizeGeometry', () => {
+    it('should color glyphs by their place in the gradient', () => {
+      const grid = colorizeGeometry(createGrid('A B'), palette, {
+        type: 'linear',
+        angle: 90,
+      });
+
+      expect(grid.rows[0][0].fg).toBe('#ff0000');
+      expect(grid.rows[0][1].fg).toBeNull();
+      expect(grid.rows[0][2].fg).toBe('#0000ff');
+    });
+
+    it('should apply gradient options', () => {
+      const grid = colorizeGeometry(
+        createGrid('ABC'),
+        palette,
+        { type: 'linear', angle: 90 },
+        { easing: 'step-end' }
+      );
+
+      expect(grid.rows[0][1].fg).toBe('#ff0000');
+    });
+  });
+});
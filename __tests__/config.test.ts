@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  findConfigFile,
+  getEnvName,
+  loadConfig,
+  loadConfigFile,
+  parseEnvBoolean,
+} from '../src/config.js';
+
+describe('config', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const write = (name: string, contents: string) => {
+    const file = join(dir, name);
+    writeFileSync(file, contents);
+    return file;
+  };
+
+  describe('findConfigFile', () => {
+    it('should find a config file in a parent directory', () => {
+      const file = write('.ohmylogorc.json', '{}');
+      const nested = join(dir, 'packages', 'app');
+      mkdirSync(nested, { recursive: true });
+
+      expect(findConfigFile(nested)).toBe(file);
+    });
+
+    it('should prefer .ohmylogorc.json over ohmylogo.config files', () => {
+      write('ohmylogo.config.json', '{}');
+      const file = write('.ohmylogorc.json', '{}');
+
+      expect(findConfigFile(dir)).toBe(file);
+    });
+
+    it('should only use a package.json with an "oh-my-logo" key', () => {
+      const nested = join(dir, 'app');
+      mkdirSync(nested);
+      writeFileSync(join(nested, 'package.json'), '{"name": "app"}');
+      const file = write('package.json', '{"oh-my-logo": {"font": "Slant"}}');
+
+      expect(findConfigFile(nested)).toBe(file);
+    });
+
+    it('should skip a package.json that does not parse', () => {
+      write('package.json', '{');
+
+      expect(findConfigFile(dir)).not.toBe(join(dir, 'package.json'));
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should read JSON config files', async () => {
+      const file = write('.ohmylogorc.json', '{"font": "Slant"}');
+
+      await expect(loadConfigFile(file)).resolves.toEqual({ font: 'Slant' });
+    });
+
+    it('should read the "oh-my-logo" key of package.json', async () => {
+      const file = write(
+        'package.json',
+        '{"name": "app", "oh-my-logo": {"palette": "sunset"}}'
+      );
+
+      await expect(loadConfigFile(file)).resolves.toEqual({
+        palette: 'sunset',
+      });
+    });
+
+    it('should read the default export of JavaScript config files', async () => {
+      const file = write(
+        'ohmylogo.config.js',
+        'export default { filled: true };'
+      );
+
+      await expect(loadConfigFile(file)).resolves.toEqual({ filled: true });
+    });
+
+    it.each([
+      ['{', /could not be parsed/],
+      ['["sunset"]', /must contain an object/],
+    ])('should reject %s', async (contents, message) => {
+      const file = write('.ohmylogorc.json', contents);
+
+      await expect(loadConfigFile(file)).rejects.toThrow(message);
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('should return the path and settings of the nearest config', async () => {
+      const file = write('.ohmylogorc.json', '{"filled": true}');
+
+      await expect(loadConfig(dir)).resolves.toEqual({
+        path: file,
+        config: { filled: true },
+      });
+    });
+  });
+
+  describe('getEnvName', () => {
+    it.each([
+      ['font', 'OHMYLOGO_FONT'],
+      ['blockFont', 'OHMYLOGO_BLOCK_FONT'],
+      ['reverseGradient', 'OHMYLOGO_REVERSE_GRADIENT'],
+    ])('should name the variable for %s', (key, name) => {
+      expect(getEnvName(key)).toBe(name);
+    });
+  });
+
+  describe('parseEnvBoolean', () => {
+    it.each([
+      ['1', true],
+      ['TRUE', true],
+      ['on', true],
+      ['0', false],
+      ['no', false],
+      ['', false],
+    ])('should read %j as %s', (value, expected) => {
+      expect(parseEnvBoolean(value, 'OHMYLOGO_FILLED')).toBe(expected);
+    });
+
+    it('should reject other values', () => {
+      expect(() => parseEnvBoolean('maybe', 'OHMYLOGO_FILLED')).toThrow(
+        /OHMYLOGO_FILLED must be true or false/
+      );
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { framesToAsciicast } from '../../src/exporters/asciicast.js';
+import { renderTerminalChunks } from '../../src/animation/player.js';
+import type { AnimationFrame } from '../../src/animation/timeline.js';
+import { createGrid, mapGrid } from '../../src/grid.js';
+
+function createFrames(texts: string[]): AnimationFrame[] {
+  return texts.map((text, index) => ({
+    index,
+    loop: 0,
+    time: index * 100,
+    progress: texts.length === 1 ? 1 : index / (texts.length - 1),
+    grid: mapGrid(createGrid(text), (cell) => ({ ...cell, fg: '#ff0000' })),
+  }));
+}
+
+function parseCast(cast: string) {
+  const [header, ...events] = cast
+    .trimEnd()
+    .split('\n')
+    .map((line) => JSON.parse(line));
+  return { header, events };
+}
+
+describe('exporters/asciicast', () => {
+  describe('framesToAsciicast', () => {
+    it('should write an asciicast v2 header sized to the frames', async () => {
+      const { header } = parseCast(
+        await framesToAsciicast(createFrames(['AB\nCD', 'ABC']), {
+          title: 'Logo',
+        })
+      );
+
+      expect(header).toEqual({
+        version: 2,
+        width: 3,
+        height: 3,
+        title: 'Logo',
+        env: { TERM: 'xterm-256color' },
+      });
+    });
+
+    it('should only include a timestamp when one is given', async () => {
+      const frames = createFrames(['A']);
+
+      expect(
+        parseCast(await framesToAsciicast(frames)).header
+      ).not.toHaveProperty('timestamp');
+      expect(
+        parseCast(await framesToAsciicast(frames, { timestamp: 1700000000 }))
+          .header.timestamp
+      ).toBe(1700000000);
+    });
+
+    it('should time output events in seconds', async () => {
+      const { events } = parseCast(
+        await framesToAsciicast(createFrames(['A', 'B', 'C']))
+      );
+
+      expect(events.map(([time]) => time)).toEqual([0, 0, 0.1, 0.2, 0.2]);
+      expect(events.every(([, type]) => type === 'o')).toBe(true);
+    });
+
+    it('should record the same output the terminal player writes', async () => {
+      const frames = createFrames(['AB\nCD', 'EF\nGH']);
+      const { events } = parseCast(await framesToAsciicast(frames));
+      const chunks = [];
+      for await (const chunk of renderTerminalChunks(frames)) {
+        chunks.push(chunk.data.replace(/\n/g, '\r\n'));
+      }
+
+      expect(events.map(([, , data]) => data)).toEqual(chunks);
+    });
+
+    it('should use carriage return line feeds like a real terminal', async () => {
+      const { events } = parseCast(
+        await framesToAsciicast(createFrames(['A\nB']))
+      );
+      const output = events.map(([, , data]) => data).join('');
+
+      expect(output).toContain('\r\n');
+      expect(output).not.toMatch(/[^\r]\n/);
+    });
+
+    it('should drop colors when color is disabled', async () => {
+      const cast = await framesToAsciicast(createFrames(['A']), {
+        color: false,
+      });
+
+      expect(cast).not.toContain('38;2;');
+    });
+  });
+});
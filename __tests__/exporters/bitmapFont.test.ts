@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CELL_HEIGHT,
+  CELL_WIDTH,
+  getGlyphMask,
+} from '../../src/exporters/bitmapFont.js';
+
+function coverageAt(glyph: string, x: number, y: number, scale = 1): number {
+  const mask = getGlyphMask(glyph, scale);
+  if (!mask) {
+    throw new Error(`no mask for ${glyph}`);
+  }
+  return mask.coverage[y * mask.width + x];
+}
+
+describe('exporters/bitmapFont', () => {
+  describe('getGlyphMask', () => {
+    it('should return null for blank glyphs', () => {
+      expect(getGlyphMask(' ', 1)).toBeNull();
+    });
+
+    it('should size masks by the cell and scale', () => {
+      const mask = getGlyphMask('A', 3);
+
+      expect(mask?.width).toBe(CELL_WIDTH * 3);
+      expect(mask?.height).toBe(CELL_HEIGHT * 3);
+    });
+
+    it('should draw ASCII glyphs from the bitmap font', () => {
+      // The bar of "|" runs down the middle column, rows 2 to 8
+      expect(coverageAt('|', 2, 2)).toBe(1);
+      expect(coverageAt('|', 2, 8)).toBe(1);
+      expect(coverageAt('|', 0, 5)).toBe(0);
+      // "_" sits on the bottom row of the glyph
+      expect(coverageAt('_', 0, 8)).toBe(1);
+      expect(coverageAt('_', 0, 2)).toBe(0);
+    });
+
+    it('should fill the whole cell for a full block', () => {
+      const mask = getGlyphMask('█', 2);
+
+      expect(mask?.coverage.every((value) => value === 1)).toBe(true);
+    });
+
+    it('should fill half the cell for half blocks', () => {
+      expect(coverageAt('▀', 0, 0)).toBe(1);
+      expect(coverageAt('▀', 0, CELL_HEIGHT - 1)).toBe(0);
+      expect(coverageAt('▐', CELL_WIDTH - 1, 0)).toBe(1);
+      expect(coverageAt('▐', 0, 0)).toBe(0);
+    });
+
+    it('should draw shades with partial coverage', () => {
+      expect(coverageAt('░', 0, 0)).toBe(0.25);
+      expect(coverageAt('▒', 0, 0)).toBe(0.5);
+      expect(coverageAt('▓', 0, 0)).toBe(0.75);
+    });
+
+    it('should extend box drawing arms to the cell edges', () => {
+      // "═" reaches both side edges, "║" reaches top and bottom
+      const horizontal = getGlyphMask('═', 1);
+      const vertical = getGlyphMask('║', 1);
+      const rowCoverage = (x: number) =>
+        Array.from(
+          { length: CELL_HEIGHT },
+          (_, y) => horizontal?.coverage[y * CELL_WIDTH + x] ?? 0
+        );
+
+      expect(rowCoverage(0).filter((value) => value > 0)).toHaveLength(2);
+      expect(
+        rowCoverage(CELL_WIDTH - 1).filter((value) => value > 0)
+      ).toHaveLength(2);
+      expect(vertical?.coverage.subarray(0, CELL_WIDTH).some(Boolean)).toBe(
+        true
+      );
+      expect(
+        vertical?.coverage
+          .subarray((CELL_HEIGHT - 1) * CELL_WIDTH)
+          .some(Boolean)
+      ).toBe(true);
+    });
+
+    it('should not draw box arms that the glyph lacks', () => {
+      // "╔" has no arm to the left or up
+      expect(coverageAt('╔', 0, CELL_HEIGHT / 2 - 1)).toBe(0);
+      expect(coverageAt('╔', CELL_WIDTH / 2 - 1, 0)).toBe(0);
+      expect(coverageAt('╔', CELL_WIDTH - 1, CELL_HEIGHT / 2 - 1)).toBe(1);
+    });
+
+    it('should fill unknown glyphs as solid blocks', () => {
+      const mask = getGlyphMask('★', 1);
+
+      expect(mask?.coverage.every((value) => value === 1)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { createGrid, mapGrid } from '../../src/grid.js';
+import { framesToGif } from '../../src/exporters/gif.js';
+import { CELL_HEIGHT, CELL_WIDTH } from '../../src/exporters/bitmapFont.js';
+import type { AnimationFrame } from '../../src/animation/timeline.js';
+import { decodeGif } from './gifDecoder.js';
+
+function colorFrames(colors: string[], step = 100): AnimationFrame[] {
+  return colors.map((color, index) => ({
+    index,
+    loop: 0,
+    time: index * step,
+    progress: colors.length === 1 ? 1 : index / (colors.length - 1),
+    grid: mapGrid(createGrid('█'), (cell) => ({ ...cell, fg: color })),
+  }));
+}
+
+describe('exporters/gif', () => {
+  describe('framesToGif', () => {
+    it('should rasterize every frame with the PNG cell size', async () => {
+      const gif = decodeGif(
+        await framesToGif(colorFrames(['#ff0000', '#0000ff']), {
+          scale: 1,
+          padding: 0,
+        })
+      );
+
+      expect(gif.width).toBe(CELL_WIDTH);
+      expect(gif.height).toBe(CELL_HEIGHT);
+      expect(gif.frames).toHaveLength(2);
+      expect(gif.pixel(0, 0, 0)).toEqual([255, 0, 0, 255]);
+      expect(gif.pixel(1, 0, 0)).toEqual([0, 0, 255, 255]);
+    });
+
+    it('should paint an opaque black background by default', async () => {
+      const gif = decodeGif(await framesToGif(colorFrames(['#ff0000'])));
+
+      expect(gif.pixel(0, 0, 0)).toEqual([0, 0, 0, 255]);
+    });
+
+    it('should accept a named background color', async () => {
+      const gif = decodeGif(
+        await framesToGif(colorFrames(['#ff0000']), { background: 'navy' })
+      );
+
+      expect(gif.pixel(0, 0, 0)).toEqual([0, 0, 128, 255]);
+    });
+
+    it('should allow a transparent background', async () => {
+      const gif = decodeGif(
+        await framesToGif(colorFrames(['#ff0000']), {
+          background: 'transparent',
+        })
+      );
+
+      expect(gif.pixel(0, 0, 0)).toBeNull();
+    });
+
+    it('should time frames from their timeline times', async () => {
+      const gif = decodeGif(
+        await framesToGif(colorFrames(['#ff0000', '#00ff00', '#0000ff'], 50))
+      );
+
+      expect(gif.frames.map(({ delay }) => delay)).toEqual([5, 5, 5]);
+    });
+
+    it('should let a fixed delay override the frame times', async () => {
+      const gif = decodeGif(
+        await framesToGif(colorFrames(['#ff0000', '#00ff00']), { delay: 80 })
+      );
+
+      expect(gif.frames.map(({ delay }) => delay)).toEqual([8, 8]);
+    });
+
+    it('should play once by default and loop forever with Infinity', async () => {
+      const frames = colorFrames(['#ff0000', '#00ff00']);
+
+      expect(decodeGif(await framesToGif(frames)).repeats).toBeNull();
+      expect(
+        decodeGif(await framesToGif(frames, { loop: Infinity })).repeats
+      ).toBe(0);
+    });
+
+    it('should reject invalid options and empty input', async () => {
+      const frames = colorFrames(['#ff0000']);
+
+      await expect(framesToGif(frames, { delay: -1 })).rejects.toThrow(
+        /delay must be 0 or greater/
+      );
+      await expect(framesToGif(frames, { loop: 0 })).rejects.toThrow(
+        /loop must be a positive integer/
+      );
+      await expect(framesToGif([])).rejects.toThrow(/without frames/);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Minimal GIF decoder for round-trip tests. It reads the global palette,
+ * loop count, frame delays and LZW image data written by `encodeGif`.
+ */
+
+export interface DecodedGifFrame {
+  /** Delay in centiseconds. */
+  delay: number;
+  disposal: number;
+  transparentIndex: number | null;
+  indices: number[];
+}
+
+export interface DecodedGif {
+  width: number;
+  height: number;
+  palette: number[][];
+  /** NETSCAPE repeat count, or null when the extension is missing. */
+  repeats: number | null;
+  frames: DecodedGifFrame[];
+  /** RGBA pixel of a frame, or null when the pixel is transparent. */
+  pixel: (frame: number, x: number, y: number) => number[] | null;
+}
+
+export function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bitOffset = 0;
+
+  const reset = () => {
+    table = Array.from({ length: clearCode }, (_, index) => [index]);
+    table.push([], []);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+
+  reset();
+
+  while (bitOffset + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let bit = 0; bit < codeSize; bit += 1) {
+      const position = bitOffset + bit;
+      code |= ((data[position >> 3] >> (position & 7)) & 1) << bit;
+    }
+    bitOffset += codeSize;
+
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) {
+      break;
+    }
+
+    let entry: number[];
+    if (previous === null) {
+      entry = table[code];
+    } else {
+      entry = code < table.length ? table[code] : [...previous, previous[0]];
+      if (table.length < 4096) {
+        table.push([...previous, entry[0]]);
+      }
+      if (table.length === 1 << codeSize && codeSize < 12) {
+        codeSize += 1;
+      }
+    }
+
+    output.push(...entry);
+    previous = entry;
+  }
+
+  return output;
+}
+
+export function decodeGif(gif: Buffer): DecodedGif {
+  const width = gif.readUInt16LE(6);
+  const height = gif.readUInt16LE(8);
+  const flags = gif[10];
+  let offset = 13;
+
+  const palette: number[][] = [];
+  if (flags & 0x80) {
+    const size = 1 << ((flags & 0x07) + 1);
+    for (let index = 0; index < size; index += 1) {
+      palette.push([...gif.subarray(offset, offset + 3)]);
+      offset += 3;
+    }
+  }
+
+  const readSubBlocks = () => {
+    const blocks: Buffer[] = [];
+    while (gif[offset] !== 0) {
+      blocks.push(gif.subarray(offset + 1, offset + 1 + gif[offset]));
+      offset += gif[offset] + 1;
+    }
+    offset += 1;
+    return Buffer.concat(blocks);
+  };
+
+  let repeats: number | null = null;
+  let control = {
+    delay: 0,
+    disposal: 0,
+    transparentIndex: null as number | null,
+  };
+  const frames: DecodedGifFrame[] = [];
+
+  while (gif[offset] !== 0x3b) {
+    const introducer = gif[offset];
+
+    if (introducer === 0x21) {
+      const label = gif[offset + 1];
+      offset += 2;
+      const data = readSubBlocks();
+      if (label === 0xf9) {
+        control = {
+          delay: data.readUInt16LE(1),
+          disposal: (data[0] >> 2) & 0x07,
+          transparentIndex: data[0] & 1 ? data[3] : null,
+        };
+      } else if (
+        label === 0xff &&
+        data.toString('ascii', 0, 11) === 'NETSCAPE2.0'
+      ) {
+        repeats = data.readUInt16LE(12);
+      }
+    } else if (introducer === 0x2c) {
+      offset += 10;
+      const minCodeSize = gif[offset];
+      offset += 1;
+      frames.push({
+        ...control,
+        indices: lzwDecode(readSubBlocks(), minCodeSize),
+      });
+    } else {
+      throw new Error(`unexpected block 0x${introducer.toString(16)}`);
+    }
+  }
+
+  const pixel = (frame: number, x: number, y: number) => {
+    const { indices, transparentIndex } = frames[frame];
+    const index = indices[y * width + x];
+    return index === transparentIndex ? null : [...palette[index], 255];
+  };
+
+  return { width, height, palette, repeats, frames, pixel };
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { encodeGif, lzwEncode } from '../../src/exporters/gifEncoder.js';
+import { decodeGif, lzwDecode } from './gifDecoder.js';
+
+function solid(pixelCount: number, rgba: number[]) {
+  const pixels = new Uint8Array(pixelCount * 4);
+  for (let index = 0; index < pixelCount; index += 1) {
+    pixels.set(rgba, index * 4);
+  }
+  return pixels;
+}
+
+describe('exporters/gifEncoder', () => {
+  describe('lzwEncode', () => {
+    it('should round-trip short runs', () => {
+      const indices = new Uint8Array([0, 1, 1, 1, 2, 0, 1, 1, 1, 2, 3]);
+
+      expect(lzwDecode(lzwEncode(indices, 2), 2)).toEqual([...indices]);
+    });
+
+    it('should round-trip data that fills the 12-bit dictionary', () => {
+      // Pseudo-random bytes keep adding codes until the dictionary resets
+      let seed = 7;
+      const indices = new Uint8Array(20000).map(() => {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+        return seed >> 16;
+      });
+
+      expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual([...indices]);
+    });
+
+    it('should encode empty data as clear and end codes', () => {
+      expect(lzwDecode(lzwEncode(new Uint8Array(0), 2), 2)).toEqual([]);
+    });
+  });
+
+  describe('encodeGif', () => {
+    it('should write a GIF89a header and screen size', () => {
+      const gif = encodeGif(3, 2, [
+        { pixels: solid(6, [255, 0, 0, 255]), delay: 0 },
+      ]);
+
+      expect(gif.toString('ascii', 0, 6)).toBe('GIF89a');
+      expect(gif.readUInt16LE(6)).toBe(3);
+      expect(gif.readUInt16LE(8)).toBe(2);
+      expect(gif[gif.length - 1]).toBe(0x3b);
+    });
+
+    it('should keep exact colors when there are few of them', () => {
+      const pixels = new Uint8Array([
+        255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 0, 0, 255,
+      ]);
+      const gif = decodeGif(encodeGif(2, 2, [{ pixels, delay: 0 }]));
+
+      expect(gif.pixel(0, 0, 0)).toEqual([255, 0, 0, 255]);
+      expect(gif.pixel(0, 1, 0)).toEqual([0, 255, 0, 255]);
+      expect(gif.pixel(0, 0, 1)).toEqual([0, 0, 255, 255]);
+      expect(gif.pixel(0, 1, 1)).toEqual([255, 0, 0, 255]);
+    });
+
+    it('should reduce more than 256 colors to one palette', () => {
+      const count = 32 * 32;
+      const pixels = new Uint8Array(count * 4);
+      for (let index = 0; index < count; index += 1) {
+        pixels.set([index % 256, Math.floor(index / 4), 128, 255], index * 4);
+      }
+      const gif = decodeGif(encodeGif(32, 32, [{ pixels, delay: 0 }]));
+
+      expect(gif.palette).toHaveLength(256);
+      for (let index = 0; index < count; index += 1) {
+        const [r, g] = gif.pixel(0, index % 32, Math.floor(index / 32))!;
+        expect(Math.abs(r - (index % 256))).toBeLessThan(48);
+        expect(Math.abs(g - Math.floor(index / 4))).toBeLessThan(48);
+      }
+    });
+
+    it('should map faint pixels to a transparent index', () => {
+      const pixels = new Uint8Array([255, 255, 255, 255, 255, 255, 255, 40]);
+      const gif = decodeGif(encodeGif(2, 1, [{ pixels, delay: 0 }]));
+
+      expect(gif.pixel(0, 0, 0)).toEqual([255, 255, 255, 255]);
+      expect(gif.pixel(0, 1, 0)).toBeNull();
+      expect(gif.frames[0].disposal).toBe(2);
+    });
+
+    it('should carry delay rounding across frames', () => {
+      const frame = { pixels: solid(1, [0, 0, 0, 255]), delay: 1000 / 30 };
+      const gif = decodeGif(encodeGif(1, 1, [frame, frame, frame]));
+
+      expect(gif.frames.map(({ delay }) => delay)).toEqual([3, 4, 3]);
+      expect(gif.frames[0].disposal).toBe(1);
+    });
+
+    it('should write the loop count as extra repeats', () => {
+      const frames = [{ pixels: solid(1, [0, 0, 0, 255]), delay: 100 }];
+
+      expect(decodeGif(encodeGif(1, 1, frames)).repeats).toBe(0);
+      expect(decodeGif(encodeGif(1, 1, frames, { loop: 3 })).repeats).toBe(2);
+      expect(
+        decodeGif(encodeGif(1, 1, frames, { loop: 1 })).repeats
+      ).toBeNull();
+    });
+
+    it('should reject pixel data of the wrong size', () => {
+      expect(() =>
+        encodeGif(2, 2, [{ pixels: new Uint8Array(4), delay: 0 }])
+      ).toThrow(RangeError);
+      expect(() => encodeGif(1, 1, [])).toThrow(RangeError);
+    });
+  });
+});
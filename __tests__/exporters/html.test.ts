@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { createGrid, mapGrid } from '../../src/grid.js';
+import { gridToHtml } from '../../src/exporters/html.js';
+
+function coloredGrid(text: string) {
+  return mapGrid(createGrid(text), (cell, x) => ({
+    ...cell,
+    fg: x === 0 ? '#ff0000' : '#0000ff',
+  }));
+}
+
+describe('exporters/html', () => {
+  describe('gridToHtml', () => {
+    it('should produce a standalone page by default', () => {
+      const html = gridToHtml(coloredGrid('AB'), { title: 'Logo' });
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<title>Logo</title>');
+      expect(html).toContain(
+        '<body style="margin:0;background-color:#000000">'
+      );
+      expect(html.trimEnd().endsWith('</html>')).toBe(true);
+    });
+
+    it('should emit only the pre block when fragment is set', () => {
+      const html = gridToHtml(coloredGrid('AB'), {
+        fragment: true,
+        metadata: false,
+      });
+
+      expect(html.startsWith('<pre style="')).toBe(true);
+      expect(html.trimEnd().endsWith('</pre>')).toBe(true);
+      expect(html).not.toContain('<html');
+    });
+
+    it('should emit one span per color run with the exact cell colors', () => {
+      const html = gridToHtml(coloredGrid('AB'));
+
+      expect(html).toContain('<span style="color:#ff0000">A</span>');
+      expect(html).toContain('<span style="color:#0000ff">B</span>');
+    });
+
+    it('should merge cells and blank gaps sharing a color into one run', () => {
+      const grid = mapGrid(createGrid('A  B'), (cell) => ({
+        ...cell,
+        fg: '#00ff00',
+      }));
+
+      expect(gridToHtml(grid)).toContain(
+        '<span style="color:#00ff00">A  B</span>'
+      );
+    });
+
+    it('should keep one line per row', () => {
+      const html = gridToHtml(coloredGrid('AB\nCD'), { fragment: true });
+
+      expect(html).toContain(
+        '<span style="color:#0000ff">B</span>\n<span style="color:#ff0000">C</span>'
+      );
+    });
+
+    it('should map cell backgrounds and attributes to CSS', () => {
+      const grid = mapGrid(createGrid('A'), (cell) => ({
+        ...cell,
+        fg: '#ffffff',
+        bg: '#000080',
+        attrs: { bold: true, underline: true },
+      }));
+
+      expect(gridToHtml(grid)).toContain(
+        '<span style="color:#ffffff;background-color:#000080;font-weight:bold;text-decoration:underline">A</span>'
+      );
+    });
+
+    it('should swap colors for inverse cells', () => {
+      const grid = mapGrid(createGrid('A'), (cell) => ({
+        ...cell,
+        fg: '#ffffff',
+        bg: '#000080',
+        attrs: { inverse: true },
+      }));
+
+      expect(gridToHtml(grid)).toContain(
+        '<span style="color:#000080;background-color:#ffffff">A</span>'
+      );
+    });
+
+    it('should apply the background and font family to the pre block', () => {
+      const html = gridToHtml(coloredGrid('AB'), {
+        background: '#123456',
+        fontFamily: 'Courier',
+        fontSize: 12,
+      });
+
+      expect(html).toContain('font-family:Courier');
+      expect(html).toContain('font-size:12px');
+      expect(html).toContain('background-color:#123456');
+    });
+
+    it('should leave the pre block unfilled for a transparent background', () => {
+      const html = gridToHtml(coloredGrid('AB'), {
+        fragment: true,
+        background: 'transparent',
+      });
+
+      expect(html).not.toContain('background-color');
+    });
+
+    it('should escape glyphs and the title', () => {
+      const grid = createGrid('<&>');
+      const html = gridToHtml(grid, { title: '"<b>"' });
+
+      expect(html).toContain('&lt;&amp;&gt;');
+      expect(html).toContain('<title>&quot;&lt;b&gt;&quot;</title>');
+    });
+
+    it('should include the license comment unless metadata is disabled', () => {
+      expect(gridToHtml(coloredGrid('AB'))).toContain('CC0 1.0');
+      expect(gridToHtml(coloredGrid('AB'), { metadata: false })).not.toContain(
+        'CC0 1.0'
+      );
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { escapeXml, LICENSE_COMMENT } from '../../src/exporters/markup.js';
+
+describe('exporters/markup', () => {
+  describe('escapeXml', () => {
+    it('should escape XML special characters', () => {
+      expect(escapeXml(`<a href="x">'&'</a>`)).toBe(
+        '&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;'
+      );
+    });
+  });
+
+  describe('LICENSE_COMMENT', () => {
+    it('should be a single markup comment mentioning CC0', () => {
+      expect(LICENSE_COMMENT.startsWith('<!--')).toBe(true);
+      expect(LICENSE_COMMENT.endsWith('-->')).toBe(true);
+      expect(LICENSE_COMMENT).toContain('CC0 1.0');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'zlib';
+import { createGrid, mapGrid } from '../../src/grid.js';
+import { gridToPng } from '../../src/exporters/png.js';
+import { CELL_HEIGHT, CELL_WIDTH } from '../../src/exporters/bitmapFont.js';
+import { ColorError } from '../../src/utils/errors.js';
+
+function decodePng(png: Buffer) {
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const idatOffset = png.indexOf('IDAT');
+  const length = png.readUInt32BE(idatOffset - 4);
+  const data = inflateSync(
+    png.subarray(idatOffset + 4, idatOffset + 4 + length)
+  );
+
+  const pixel = (x: number, y: number) => {
+    const offset = y * (width * 4 + 1) + 1 + x * 4;
+    return [...data.subarray(offset, offset + 4)];
+  };
+
+  return { width, height, pixel };
+}
+
+function blockGrid(text: string) {
+  return mapGrid(createGrid(text), (cell, x) => ({
+    ...cell,
+    fg: x === 0 ? '#ff0000' : '#0000ff',
+  }));
+}
+
+describe('exporters/png', () => {
+  describe('gridToPng', () => {
+    it('should size the image from the grid, scale and padding', () => {
+      const png = decodePng(
+        gridToPng(blockGrid('██\n██'), { scale: 2, padding: 3 })
+      );
+
+      expect(png.width).toBe(2 * CELL_WIDTH * 2 + 6);
+      expect(png.height).toBe(2 * CELL_HEIGHT * 2 + 6);
+    });
+
+    it('should pad by one cell height by default', () => {
+      const png = decodePng(gridToPng(blockGrid('█'), { scale: 1 }));
+
+      expect(png.width).toBe(CELL_WIDTH + CELL_HEIGHT * 2);
+    });
+
+    it('should paint each cell with its exact color', () => {
+      const png = decodePng(gridToPng(blockGrid('██'), { padding: 0 }));
+
+      expect(png.pixel(0, 0)).toEqual([255, 0, 0, 255]);
+      expect(png.pixel(png.width - 1, png.height - 1)).toEqual([
+        0, 0, 255, 255,
+      ]);
+    });
+
+    it('should leave the background transparent by default', () => {
+      const png = decodePng(gridToPng(blockGrid('█ ')));
+
+      expect(png.pixel(0, 0)).toEqual([0, 0, 0, 0]);
+    });
+
+    it('should fill the background color when given', () => {
+      const png = decodePng(gridToPng(blockGrid('█'), { background: '#123' }));
+
+      expect(png.pixel(0, 0)).toEqual([0x11, 0x22, 0x33, 255]);
+    });
+
+    it('should blend shade glyphs over the background', () => {
+      const grid = mapGrid(createGrid('▒'), (cell) => ({
+        ...cell,
+        fg: '#ffffff',
+      }));
+      const png = decodePng(
+        gridToPng(grid, { padding: 0, background: '#000000' })
+      );
+
+      expect(png.pixel(0, 0)).toEqual([128, 128, 128, 255]);
+    });
+
+    it('should fill whole cells in rect mode', () => {
+      const png = decodePng(
+        gridToPng(blockGrid('.'), { padding: 0, scale: 1, glyphs: 'rect' })
+      );
+
+      expect(png.pixel(0, 0)).toEqual([255, 0, 0, 255]);
+    });
+
+    it('should draw cell backgrounds behind glyphs', () => {
+      const grid = mapGrid(createGrid(' '), (cell) => ({
+        ...cell,
+        bg: '#00ff00',
+      }));
+      const png = decodePng(gridToPng(grid, { padding: 0 }));
+
+      expect(png.pixel(0, 0)).toEqual([0, 255, 0, 255]);
+    });
+
+    it('should accept any CSS color as the background', () => {
+      const png = decodePng(
+        gridToPng(blockGrid('█'), { background: 'navy', padding: 1 })
+      );
+      const translucent = decodePng(
+        gridToPng(blockGrid('█'), {
+          background: 'rgb(255 0 0 / 50%)',
+          padding: 1,
+        })
+      );
+
+      expect(png.pixel(0, 0)).toEqual([0, 0, 128, 255]);
+      expect(translucent.pixel(0, 0)).toEqual([255, 0, 0, 128]);
+    });
+
+    it('should reject invalid scales and backgrounds', () => {
+      expect(() => gridToPng(blockGrid('█'), { scale: 0 })).toThrow(
+        /scale must be a positive integer/
+      );
+      expect(() => gridToPng(blockGrid('█'), { background: 'bleu' })).toThrow(
+        ColorError
+      );
+    });
+  });
+});
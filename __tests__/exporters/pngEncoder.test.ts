@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'zlib';
+import { crc32, encodePng } from '../../src/exporters/pngEncoder.js';
+
+describe('exporters/pngEncoder', () => {
+  describe('crc32', () => {
+    it('should match the standard CRC-32 check value', () => {
+      expect(crc32(Buffer.from('123456789', 'ascii'))).toBe(0xcbf43926);
+    });
+  });
+
+  describe('encodePng', () => {
+    it('should write the PNG signature and an RGBA header', () => {
+      const png = encodePng(2, 1, new Uint8Array(8));
+
+      expect([...png.subarray(0, 8)]).toEqual([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+      ]);
+      expect(png.toString('ascii', 12, 16)).toBe('IHDR');
+      expect(png.readUInt32BE(16)).toBe(2);
+      expect(png.readUInt32BE(20)).toBe(1);
+      expect(png[24]).toBe(8);
+      expect(png[25]).toBe(6);
+      expect(png.toString('ascii', png.length - 8, png.length - 4)).toBe(
+        'IEND'
+      );
+    });
+
+    it('should store unfiltered scanlines in the IDAT chunk', () => {
+      const rgba = new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]);
+      const png = encodePng(1, 2, rgba);
+      const idatOffset = png.indexOf('IDAT');
+      const length = png.readUInt32BE(idatOffset - 4);
+      const data = inflateSync(
+        png.subarray(idatOffset + 4, idatOffset + 4 + length)
+      );
+
+      expect([...data]).toEqual([0, 1, 2, 3, 4, 0, 5, 6, 7, 8]);
+    });
+
+    it('should write a valid CRC for every chunk', () => {
+      const png = encodePng(1, 1, new Uint8Array(4));
+      let offset = 8;
+
+      while (offset < png.length) {
+        const length = png.readUInt32BE(offset);
+        const typeAndData = png.subarray(offset + 4, offset + 8 + length);
+        expect(png.readUInt32BE(offset + 8 + length)).toBe(crc32(typeAndData));
+        offset += length + 12;
+      }
+
+      expect(offset).toBe(png.length);
+    });
+
+    it('should reject pixel data of the wrong size', () => {
+      expect(() => encodePng(2, 2, new Uint8Array(4))).toThrow(RangeError);
+    });
+  });
+});
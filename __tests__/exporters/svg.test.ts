@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { createGrid, mapGrid } from '../../src/grid.js';
+import { gridToSvg } from '../../src/exporters/svg.js';
+
+function coloredGrid(text: string) {
+  return mapGrid(createGrid(text), (cell, x) => ({
+    ...cell,
+    fg: x === 0 ? '#ff0000' : '#0000ff',
+  }));
+}
+
+describe('exporters/svg', () => {
+  describe('gridToSvg', () => {
+    it('should produce a standalone SVG document', () => {
+      const svg = gridToSvg(coloredGrid('AB'));
+
+      expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(
+        true
+      );
+      expect(svg.trimEnd().endsWith('</svg>')).toBe(true);
+    });
+
+    it('should size the document from the grid and padding', () => {
+      const svg = gridToSvg(coloredGrid('AB\nCD'), {
+        fontSize: 10,
+        padding: 5,
+      });
+
+      // 2 cells * 6px + 10px padding, 2 rows * 12px + 10px padding
+      expect(svg).toContain('width="22" height="34" viewBox="0 0 22 34"');
+    });
+
+    it('should emit one tspan per color run with the exact cell colors', () => {
+      const svg = gridToSvg(coloredGrid('AB'));
+
+      expect(svg).toContain('<tspan x="16" fill="#ff0000">A</tspan>');
+      expect(svg).toContain('<tspan x="25.6" fill="#0000ff">B</tspan>');
+    });
+
+    it('should merge cells sharing a color into a single run', () => {
+      const grid = mapGrid(createGrid('ABC'), (cell) => ({
+        ...cell,
+        fg: '#00ff00',
+      }));
+
+      expect(gridToSvg(grid)).toContain('fill="#00ff00">ABC</tspan>');
+    });
+
+    it('should skip blank cells and position the next run by column', () => {
+      const grid = mapGrid(createGrid('A  B'), (cell) => ({
+        ...cell,
+        fg: '#00ff00',
+      }));
+      const svg = gridToSvg(grid, { fontSize: 10, padding: 0 });
+
+      expect(svg).toContain('<tspan x="0" fill="#00ff00">A</tspan>');
+      expect(svg).toContain('<tspan x="18" fill="#00ff00">B</tspan>');
+    });
+
+    it('should escape glyphs in text content', () => {
+      const svg = gridToSvg(createGrid('<&>'));
+
+      expect(svg).toContain('&lt;&amp;&gt;');
+    });
+
+    it('should include the license comment and title', () => {
+      const svg = gridToSvg(coloredGrid('AB'), { title: 'My <Logo>' });
+
+      expect(svg).toContain('CC0 1.0');
+      expect(svg).toContain('<title>My &lt;Logo&gt;</title>');
+    });
+
+    it('should omit the license comment when metadata is disabled', () => {
+      const svg = gridToSvg(coloredGrid('AB'), { metadata: false });
+
+      expect(svg).not.toContain('<!--');
+    });
+
+    it('should draw a background when requested', () => {
+      const svg = gridToSvg(coloredGrid('AB'), { background: '#101010' });
+
+      expect(svg).toContain(
+        '<rect width="100%" height="100%" fill="#101010"/>'
+      );
+    });
+
+    it('should draw cell backgrounds behind glyphs', () => {
+      const grid = mapGrid(createGrid('A'), (cell) => ({
+        ...cell,
+        fg: '#ffffff',
+        bg: '#000000',
+      }));
+      const svg = gridToSvg(grid);
+
+      expect(svg.indexOf('fill="#000000"')).toBeLessThan(
+        svg.indexOf('fill="#ffffff"')
+      );
+    });
+
+    it('should swap colors for inverse cells', () => {
+      const grid = mapGrid(createGrid('A'), (cell) => ({
+        ...cell,
+        fg: '#ffffff',
+        bg: '#000080',
+        attrs: { inverse: true },
+      }));
+      const svg = gridToSvg(grid, { fontSize: 10, padding: 0 });
+
+      expect(svg).toContain(
+        '<rect x="0" y="0" width="6" height="12" fill="#ffffff"/>'
+      );
+      expect(svg).toContain('<tspan x="0" fill="#000080">A</tspan>');
+    });
+
+    it('should draw rectangles instead of text in rect mode', () => {
+      const svg = gridToSvg(coloredGrid('AB'), {
+        glyphs: 'rect',
+        fontSize: 10,
+        padding: 0,
+      });
+
+      expect(svg).not.toContain('<text');
+      expect(svg).toContain(
+        '<rect x="0" y="0" width="6" height="12" fill="#ff0000"/>'
+      );
+      expect(svg).toContain(
+        '<rect x="6" y="0" width="6" height="12" fill="#0000ff"/>'
+      );
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  colorizeFilledGrid,
+  renderFilledLogo,
+  renderFilledLogoGrid,
+  type GradientDirection,
+} from '../src/filledRenderer.js';
+import { createGrid } from '../src/grid.js';
+import { colorizeLogoGrid } from '../src/renderer.js';
+
+const ansiRegex = /\x1B(?:[@-Z\\-_]|\[[0-?]*[ -/]*[@-~])/g;
+
+function stripAnsi(text: string): string {
+  return text.replace(ansiRegex, '');
+}
+
+describe('filledRenderer', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('renderFilledLogo', () => {
+    it('returns the filled logo as a string', () => {
+      const output = renderFilledLogo('HI', ['#ff0000', '#0000ff']);
+
+      expect(typeof output).toBe('string');
+      expect(stripAnsi(output)).toMatch(/[█╗╔╝╚═║]/);
+    });
+
+    it('never writes to stdout', () => {
+      const writeSpy = vi
+        .spyOn(process.stdout, 'write')
+        .mockImplementation(() => true);
+
+      renderFilledLogo('HI', ['#ff0000', '#0000ff'], {
+        font: 'chrome',
+        direction: 'diagonal',
+      });
+
+      expect(writeSpy).not.toHaveBeenCalled();
+    });
+
+    it('honors the block font option', () => {
+      const output = renderFilledLogo('HI', ['#ff0000', '#0000ff'], {
+        font: 'chrome',
+      });
+
+      expect(stripAnsi(output)).toMatch(/[╦╠╩═]/);
+    });
+
+    it('widens the logo when letter spacing grows', () => {
+      const narrow = stripAnsi(
+        renderFilledLogo('AB', ['#ff0000', '#0000ff'], { letterSpacing: 0 })
+      );
+      const wide = stripAnsi(
+        renderFilledLogo('AB', ['#ff0000', '#0000ff'], { letterSpacing: 3 })
+      );
+
+      const width = (text: string) =>
+        Math.max(...text.split('\n').map((line) => line.trimEnd().length));
+      expect(width(wide)).toBeGreaterThan(width(narrow));
+    });
+  });
+
+  describe('renderFilledLogoGrid', () => {
+    it('colors each letter separately with the glyph scope', () => {
+      const grid = renderFilledLogoGrid('HI', ['#ff0000', '#0000ff'], {
+        gradientScope: 'glyph',
+      });
+      const colors = (index: number) =>
+        new Set(
+          grid.rows
+            .flat()
+            .filter((cell) => cell.source?.index === index)
+            .map((cell) => cell.fg)
+        );
+
+      expect(colors(0)).toEqual(new Set(['#ff0000']));
+      expect(colors(1)).toEqual(new Set(['#0000ff']));
+    });
+  });
+
+  describe('colorizeFilledGrid', () => {
+    it.each<GradientDirection>(['diagonal', '30deg', 'radial', 'conic 45deg'])(
+      'colors %s gradients the same way as figlet mode',
+      (direction) => {
+        const grid = createGrid(' ██╗\n███║\n ╚═╝');
+        const palette = ['#ff0000', '#00ff00', '#0000ff'];
+
+        expect(colorizeFilledGrid(grid, palette, direction)).toEqual(
+          colorizeLogoGrid(grid, palette, direction)
+        );
+      }
+    );
+  });
+});
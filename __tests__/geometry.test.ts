@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { createGlyphGrid } from '../src/glyphs.js';
+import { createGrid } from '../src/grid.js';
+import {
+  getGradientPositions,
+  parseGradientGeometry,
+} from '../src/geometry.js';
+
+// Draws every character two columns wide
+const doubled = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => [...line].map((char) => char.repeat(2)).join(''))
+    .join('\n');
+
+// Trig leaves tiny rounding errors on otherwise exact positions
+const round = (positions: Array<Array<number | null>>) =>
+  positions.map((row) =>
+    row.map((position) =>
+      position === null ? null : Number(position.toFixed(6))
+    )
+  );
+
+describe('geometry', () => {
+  describe('parseGradientGeometry', () => {
+    it('should parse angles, radial and conic directions', () => {
+      expect(parseGradientGeometry('135deg')).toEqual({
+        type: 'linear',
+        angle: 135,
+      });
+      expect(parseGradientGeometry('-22.5deg')).toEqual({
+        type: 'linear',
+        angle: -22.5,
+      });
+      expect(parseGradientGeometry('radial')).toEqual({ type: 'radial' });
+      expect(parseGradientGeometry('conic')).toEqual({
+        type: 'conic',
+        angle: 0,
+      });
+      expect(parseGradientGeometry(' Conic  90deg ')).toEqual({
+        type: 'conic',
+        angle: 90,
+      });
+    });
+
+    it('should treat diagonal as 135deg', () => {
+      expect(parseGradientGeometry('diagonal')).toEqual({
+        type: 'linear',
+        angle: 135,
+      });
+    });
+
+    it.each(['vertical', 'horizontal', 'sideways', '45', 'conic up'])(
+      'should return null for %s',
+      (direction) => {
+        expect(parseGradientGeometry(direction)).toBeNull();
+      }
+    );
+  });
+
+  describe('getGradientPositions', () => {
+    const grid = createGrid('#####\n#####\n#####');
+
+    it('should run a 90deg gradient from the left edge to the right', () => {
+      const positions = round(
+        getGradientPositions(grid, { type: 'linear', angle: 90 })
+      );
+
+      expect(positions[0]).toEqual([0, 0.25, 0.5, 0.75, 1]);
+      expect(positions[2]).toEqual(positions[0]);
+    });
+
+    it('should run a 180deg gradient from the top to the bottom', () => {
+      const positions = round(
+        getGradientPositions(grid, { type: 'linear', angle: 180 })
+      );
+
+      expect(positions.map((row) => row[3])).toEqual([0, 0.5, 1]);
+    });
+
+    it('should put the corners on the ends of angled gradients', () => {
+      const positions = getGradientPositions(grid, {
+        type: 'linear',
+        angle: 135,
+      });
+
+      expect(positions[0][0]).toBeCloseTo(0);
+      expect(positions[2][4]).toBeCloseTo(1);
+    });
+
+    it('should measure from the visible glyphs and skip blanks', () => {
+      const positions = round(
+        getGradientPositions(createGrid('   \n ## \n'), {
+          type: 'linear',
+          angle: 90,
+        })
+      );
+
+      expect(positions[0]).toEqual([null, null, null]);
+      expect(positions[1]).toEqual([null, 0, 1, null]);
+    });
+
+    it('should grow radial gradients from the center', () => {
+      const positions = getGradientPositions(grid, { type: 'radial' });
+
+      expect(positions[1][2]).toBe(0);
+      expect(positions[0][0]).toBeCloseTo(1);
+    });
+
+    it('should treat cells as twice as tall as they are wide', () => {
+      const positions = getGradientPositions(grid, { type: 'radial' });
+
+      // One row up is as far from the center as two columns across
+      expect(positions[0][2]).toBeCloseTo(positions[1][0] as number);
+    });
+
+    it('should turn conic gradients clockwise from the start angle', () => {
+      const positions = getGradientPositions(grid, {
+        type: 'conic',
+        angle: 0,
+      });
+
+      expect(positions[0][2]).toBe(0);
+      expect(positions[1][4]).toBeCloseTo(0.25);
+      expect(positions[2][2]).toBeCloseTo(0.5);
+      expect(positions[1][0]).toBeCloseTo(0.75);
+
+      const rotated = getGradientPositions(grid, { type: 'conic', angle: 90 });
+      expect(rotated[1][4]).toBeCloseTo(0);
+    });
+
+    describe('scopes', () => {
+      const across = { type: 'linear', angle: 90 } as const;
+
+      it('should run a gradient across each word', () => {
+        const grid = createGlyphGrid('AB CD', doubled);
+
+        expect(round(getGradientPositions(grid, across, 'word'))[0]).toEqual([
+          0,
+          0.333333,
+          0.666667,
+          1,
+          null,
+          null,
+          0,
+          0.333333,
+          0.666667,
+          1,
+        ]);
+      });
+
+      it('should run a gradient across each line', () => {
+        const grid = createGlyphGrid('AB\nCDEF', doubled);
+        const positions = round(getGradientPositions(grid, across, 'line'));
+
+        expect(positions[0]).toEqual([0, 0.333333, 0.666667, 1]);
+        expect(positions[1][7]).toBe(1);
+      });
+
+      it('should give each glyph the color at its center', () => {
+        const grid = createGlyphGrid('AB CD', doubled);
+
+        expect(round(getGradientPositions(grid, across, 'glyph'))[0]).toEqual([
+          0,
+          0,
+          0.25,
+          0.25,
+          null,
+          null,
+          0.75,
+          0.75,
+          1,
+          1,
+        ]);
+      });
+
+      it('should treat cells without a source as one block', () => {
+        const grid = createGrid('AB CD');
+
+        expect(getGradientPositions(grid, across, 'word')).toEqual(
+          getGradientPositions(grid, across)
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { createGlyphGrid } from '../src/glyphs.js';
+import type { LogoGrid } from '../src/grid.js';
+
+// Draws every character two columns wide, like a tiny block font
+const doubled = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => [...line].map((char) => char.repeat(2)).join(''))
+    .join('\n');
+
+// Like figlet, moves a word that doesn't fit onto a new line
+const wrapped = (text: string) => {
+  const lines: string[] = [];
+  for (const word of text.split(' ')) {
+    const last = lines.length - 1;
+    if (last >= 0 && `${lines[last]} ${word}`.length <= 5) {
+      lines[last] += ` ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return doubled(lines.join('\n'));
+};
+
+const indices = (grid: LogoGrid, key: 'index' | 'word' | 'line') =>
+  grid.rows.map((row) =>
+    row.map((cell) => (cell.source ? String(cell.source[key]) : '.')).join('')
+  );
+
+describe('glyphs', () => {
+  describe('createGlyphGrid', () => {
+    it('should render the text as a grid', () => {
+      const grid = createGlyphGrid('AB', doubled);
+
+      expect(grid.rows[0].map((cell) => cell.glyph).join('')).toBe('AABB');
+    });
+
+    it('should record the character, word and line of each cell', () => {
+      const grid = createGlyphGrid('AB C\nD', doubled);
+
+      expect(indices(grid, 'index')).toEqual(['0011..33', '55']);
+      expect(indices(grid, 'word')).toEqual(['0000..11', '22']);
+      expect(indices(grid, 'line')).toEqual(['0000..00', '11']);
+    });
+
+    it('should follow words the renderer wraps onto a new line', () => {
+      const grid = createGlyphGrid('AB CD EF', wrapped);
+
+      expect(indices(grid, 'index')).toEqual(['0011..3344', '6677']);
+      expect(indices(grid, 'word')).toEqual(['0000..1111', '2222']);
+    });
+
+    it('should leave blank cells without a source', () => {
+      const grid = createGlyphGrid('  ', doubled);
+
+      expect(grid.rows[0].every((cell) => cell.source === undefined)).toBe(
+        true
+      );
+    });
+  });
+});
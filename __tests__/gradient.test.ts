@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEasing,
+  formatColorStop,
+  parseColorStop,
+  resolveStopPositions,
+  reverseStops,
+} from '../src/gradient.js';
+import { InputError } from '../src/utils/errors.js';
+
+describe('gradient', () => {
+  describe('parseColorStop', () => {
+    it('should split a CSS-style position from the color', () => {
+      expect(parseColorStop('#7f88ff 70%')).toEqual({
+        color: '#7f88ff',
+        position: 0.7,
+      });
+      expect(parseColorStop('#7f88ff')).toEqual({
+        color: '#7f88ff',
+        position: undefined,
+      });
+    });
+
+    it('should keep percentages inside color functions', () => {
+      expect(parseColorStop('hsl(120, 50%, 50%)')).toEqual({
+        color: 'hsl(120, 50%, 50%)',
+        position: undefined,
+      });
+      expect(parseColorStop('hsl(120, 50%, 50%) 25%').position).toBe(0.25);
+    });
+
+    it('should accept object stops with fractions or percentages', () => {
+      expect(parseColorStop({ color: '#fff', position: 0.4 })).toEqual({
+        color: '#fff',
+        position: 0.4,
+      });
+      expect(parseColorStop({ color: '#fff', position: '40%' }).position).toBe(
+        0.4
+      );
+    });
+
+    it('should reject positions outside the gradient', () => {
+      expect(() => parseColorStop('#fff 120%')).toThrow(InputError);
+      expect(() => parseColorStop({ color: '#fff', position: -0.1 })).toThrow(
+        /between 0% and 100%/
+      );
+    });
+  });
+
+  describe('formatColorStop', () => {
+    it('should write object stops as strings', () => {
+      expect(formatColorStop({ color: '#fff', position: 0.7 })).toBe(
+        '#fff 70%'
+      );
+      expect(formatColorStop({ color: '#fff' })).toBe('#fff');
+    });
+  });
+
+  describe('resolveStopPositions', () => {
+    it('should spread stops evenly by default', () => {
+      expect(resolveStopPositions([undefined, undefined, undefined])).toEqual([
+        0, 0.5, 1,
+      ]);
+    });
+
+    it('should spread missing positions between their neighbours', () => {
+      expect(resolveStopPositions([undefined, 0.6, undefined, 1])).toEqual([
+        0, 0.6, 0.8, 1,
+      ]);
+    });
+
+    it('should move stops that sit before an earlier one', () => {
+      expect(resolveStopPositions([0.5, 0.2, undefined])).toEqual([
+        0.5, 0.5, 1,
+      ]);
+    });
+  });
+
+  describe('reverseStops', () => {
+    it('should reverse colors and mirror positions', () => {
+      expect(reverseStops(['#000 0%', '#888 70%', '#fff'])).toEqual([
+        '#fff',
+        '#888 30%',
+        '#000 100%',
+      ]);
+    });
+  });
+
+  describe('createEasing', () => {
+    it('should default to linear', () => {
+      expect(createEasing()(0.3)).toBe(0.3);
+    });
+
+    it('should follow the CSS cubic-bezier keywords', () => {
+      const ease = createEasing('ease');
+
+      expect(ease(0)).toBe(0);
+      expect(ease(1)).toBe(1);
+      expect(ease(0.25)).toBeCloseTo(0.4085, 3);
+      expect(createEasing('ease-in')(0.5)).toBeCloseTo(0.3153, 3);
+      expect(createEasing('cubic-bezier(0, 0, 1, 1)')(0.3)).toBeCloseTo(0.3, 5);
+    });
+
+    it('should step like CSS steps()', () => {
+      expect([0, 0.3, 0.6, 0.99, 1].map(createEasing('steps(2)'))).toEqual([
+        0, 0, 0.5, 0.5, 1,
+      ]);
+      expect(
+        [0, 0.3, 0.6, 1].map(createEasing('steps(2, jump-start)'))
+      ).toEqual([0.5, 0.5, 1, 1]);
+      expect([0, 0.3, 0.6, 1].map(createEasing('steps(3, jump-none)'))).toEqual(
+        [0, 0, 0.5, 1]
+      );
+    });
+
+    it('should accept custom functions', () => {
+      expect(createEasing((position) => position ** 2)(0.5)).toBe(0.25);
+    });
+
+    it.each([
+      'bounce',
+      'steps(0)',
+      'steps(1, jump-none)',
+      'cubic-bezier(2, 0, 0, 1)',
+      'cubic-bezier(0, 0, 1)',
+    ])('should reject %s', (easing) => {
+      expect(() => createEasing(easing as 'linear')).toThrow(/unknown easing/);
+    });
+  });
+});
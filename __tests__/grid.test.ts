@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createCell,
+  createGrid,
+  mapGrid,
+  isBlankCell,
+  isBlankRow,
+  quantizeGrid,
+  gridToAnsi,
+  gridToText,
+} from '../src/grid.js';
+
+describe('grid', () => {
+  describe('createGrid', () => {
+    it('should create one row of cells per line', () => {
+      const grid = createGrid('AB\nC');
+
+      expect(grid.height).toBe(2);
+      expect(grid.width).toBe(2);
+      expect(grid.rows[0].map((cell) => cell.glyph)).toEqual(['A', 'B']);
+      expect(grid.rows[1].map((cell) => cell.glyph)).toEqual(['C']);
+    });
+
+    it('should start cells without colors or attributes', () => {
+      const grid = createGrid('A');
+
+      expect(grid.rows[0][0]).toEqual({
+        glyph: 'A',
+        fg: null,
+        bg: null,
+        attrs: {},
+      });
+    });
+
+    it('should strip ANSI escape sequences from the input', () => {
+      const grid = createGrid('\x1b[31mA\x1b[39mB');
+
+      expect(gridToText(grid)).toBe('AB');
+    });
+
+    it('should keep multi-byte glyphs in a single cell', () => {
+      const grid = createGrid('█╗');
+
+      expect(grid.width).toBe(2);
+      expect(grid.rows[0][1].glyph).toBe('╗');
+    });
+
+    it('should handle empty text', () => {
+      const grid = createGrid('');
+
+      expect(grid.height).toBe(1);
+      expect(grid.width).toBe(0);
+      expect(gridToText(grid)).toBe('');
+    });
+  });
+
+  describe('mapGrid', () => {
+    it('should pass coordinates and return a new grid', () => {
+      const grid = createGrid('AB\nCD');
+      const mapped = mapGrid(grid, (cell, x, y) => ({
+        ...cell,
+        glyph: `${x}${y}`,
+      }));
+
+      expect(gridToText(mapped)).toBe('0010\n0111');
+      expect(gridToText(grid)).toBe('AB\nCD');
+    });
+  });
+
+  describe('blank detection', () => {
+    it('should treat whitespace glyphs as blank', () => {
+      expect(isBlankCell(createCell(' '))).toBe(true);
+      expect(isBlankCell(createCell('A'))).toBe(false);
+    });
+
+    it('should treat rows without visible glyphs as blank', () => {
+      expect(isBlankRow([createCell(' '), createCell(' ')])).toBe(true);
+      expect(isBlankRow([])).toBe(true);
+      expect(isBlankRow([createCell(' '), createCell('A')])).toBe(false);
+    });
+  });
+
+  describe('gridToAnsi', () => {
+    it('should return plain text for uncolored grids', () => {
+      expect(gridToAnsi(createGrid('AB\nCD'))).toBe('AB\nCD');
+    });
+
+    it('should emit truecolor foreground sequences', () => {
+      const grid = mapGrid(createGrid('A'), (cell) => ({
+        ...cell,
+        fg: '#ff8000',
+      }));
+
+      expect(gridToAnsi(grid)).toBe('\x1b[38;2;255;128;0mA\x1b[39m');
+    });
+
+    it('should merge adjacent cells that share a style', () => {
+      const grid = mapGrid(createGrid('AB C'), (cell) => ({
+        ...cell,
+        fg: '#ff0000',
+      }));
+
+      expect(gridToAnsi(grid)).toBe('\x1b[38;2;255;0;0mAB C\x1b[39m');
+    });
+
+    it('should not open a run for leading blank cells', () => {
+      const grid = mapGrid(createGrid(' A'), (cell) => ({
+        ...cell,
+        fg: '#ff0000',
+      }));
+
+      expect(gridToAnsi(grid)).toBe(' \x1b[38;2;255;0;0mA\x1b[39m');
+    });
+
+    it('should switch styles between differently colored cells', () => {
+      const grid = mapGrid(createGrid('AB'), (cell, x) => ({
+        ...cell,
+        fg: x === 0 ? '#ff0000' : '#0000ff',
+      }));
+
+      expect(gridToAnsi(grid)).toBe(
+        '\x1b[38;2;255;0;0mA\x1b[39m\x1b[38;2;0;0;255mB\x1b[39m'
+      );
+    });
+
+    it('should emit background colors and attributes', () => {
+      const grid = mapGrid(createGrid('A'), (cell) => ({
+        ...cell,
+        bg: '#000000',
+        attrs: { bold: true, underline: true },
+      }));
+
+      expect(gridToAnsi(grid)).toBe('\x1b[1;4;48;2;0;0;0mA\x1b[49;24;22m');
+    });
+
+    it('should style blank cells that have a background', () => {
+      const grid = mapGrid(createGrid(' '), (cell) => ({
+        ...cell,
+        bg: '#ffffff',
+      }));
+
+      expect(gridToAnsi(grid)).toBe('\x1b[48;2;255;255;255m \x1b[49m');
+    });
+
+    it('should emit 256-color sequences at color level 2', () => {
+      const grid = mapGrid(createGrid('A'), (cell) => ({
+        ...cell,
+        fg: '#ff8000',
+        bg: '#101010',
+      }));
+
+      expect(gridToAnsi(grid, 2)).toBe('\x1b[48;5;233;38;5;208mA\x1b[39;49m');
+    });
+
+    it('should emit basic ANSI colors at color level 1', () => {
+      const grid = mapGrid(createGrid('AB'), (cell, x) => ({
+        ...cell,
+        fg: x === 0 ? '#ee1111' : '#1111aa',
+        bg: x === 0 ? '#000000' : null,
+      }));
+
+      expect(gridToAnsi(grid, 1)).toBe(
+        '\x1b[40;91mA\x1b[39;49m\x1b[34mB\x1b[39m'
+      );
+    });
+
+    it('should dither colors before serializing', () => {
+      const grid = mapGrid(createGrid('████'), (cell) => ({
+        ...cell,
+        fg: '#9b9b00',
+      }));
+
+      expect(gridToAnsi(grid, 2)).toBe('\x1b[38;5;100m████\x1b[39m');
+      const dithered = gridToAnsi(grid, 2, 'bayer');
+      expect(dithered).toContain('38;5;100m');
+      expect(dithered).toContain('38;5;142m');
+    });
+
+    it('should drop colors but keep attributes at color level 0', () => {
+      const grid = mapGrid(createGrid('AB'), (cell, x) => ({
+        ...cell,
+        fg: '#ff0000',
+        attrs: { bold: x === 0 },
+      }));
+
+      expect(gridToAnsi(grid, 0)).toBe('\x1b[1mA\x1b[22mB');
+    });
+  });
+
+  describe('quantizeGrid', () => {
+    it('should replace colors with the nearest palette colors', () => {
+      const grid = mapGrid(createGrid('A'), (cell) => ({
+        ...cell,
+        fg: '#ff8000',
+        bg: '#c01010',
+      }));
+
+      expect(quantizeGrid(grid, 2).rows[0][0]).toMatchObject({
+        fg: '#ff8700',
+        bg: '#af0000',
+      });
+      expect(quantizeGrid(grid, 1).rows[0][0]).toMatchObject({
+        fg: '#cdcd00',
+        bg: '#cd0000',
+      });
+      expect(quantizeGrid(grid, 0).rows[0][0]).toMatchObject({
+        fg: null,
+        bg: null,
+      });
+    });
+
+    it('should dither visible glyphs only', () => {
+      const grid = mapGrid(createGrid('████ '), (cell) => ({
+        ...cell,
+        fg: '#9b9b00',
+      }));
+      const dithered = quantizeGrid(grid, 2, 'bayer');
+
+      expect(
+        new Set(dithered.rows[0].slice(0, 4).map((cell) => cell.fg)).size
+      ).toBeGreaterThan(1);
+      expect(dithered.rows[0][4].fg).toBe('#878700');
+    });
+
+    it('should return truecolor grids unchanged', () => {
+      const grid = mapGrid(createGrid('A'), (cell) => ({
+        ...cell,
+        fg: '#123456',
+      }));
+
+      expect(quantizeGrid(grid, 3)).toBe(grid);
+    });
+  });
+});
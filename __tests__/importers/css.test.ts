@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { parseCssGradient } from '../../src/importers/css.js';
+
+describe('importers/css', () => {
+  describe('parseCssGradient', () => {
+    it('should read the stops of a linear gradient', () => {
+      expect(
+        parseCssGradient('linear-gradient(#ff0066, #7f00ff 70%, #00ccff)')
+      ).toEqual(['#ff0066', '#7f00ff 70%', '#00ccff']);
+    });
+
+    it('should skip the direction and find the gradient in a declaration', () => {
+      expect(
+        parseCssGradient(
+          'background: linear-gradient(to right, rgb(255, 0, 102), hsl(195, 100%, 50%));'
+        )
+      ).toEqual(['rgb(255, 0, 102)', 'hsl(195, 100%, 50%)']);
+    });
+
+    it('should skip radial shapes and interpolation hints', () => {
+      expect(
+        parseCssGradient('radial-gradient(circle at center, red 0, 30%, blue)')
+      ).toEqual(['red 0%', 'blue']);
+    });
+
+    it('should split stops with two positions', () => {
+      expect(
+        parseCssGradient('repeating-linear-gradient(red 0% 50%, blue 50% 100%)')
+      ).toEqual(['red 0%', 'red 50%', 'blue 50%', 'blue 100%']);
+    });
+
+    it('should read angle positions in conic gradients', () => {
+      expect(
+        parseCssGradient('conic-gradient(from 90deg, red 90deg, blue 0.5turn)')
+      ).toEqual(['red 25%', 'blue 50%']);
+    });
+
+    it.each([
+      ['#ff0066, #00ccff', /must contain a linear-gradient\(\)/],
+      ['linear-gradient(red, blue', /linear-gradient\( is missing its closing/],
+      ['linear-gradient(45deg)', /contains no color stops/],
+      ['linear-gradient(red, bleu)', /unsupported color "bleu"/],
+      ['linear-gradient(red 10px, blue)', /must be percentages, got "10px"/],
+      [
+        'conic-gradient(red 10px, blue)',
+        /must be percentages or angles, got "10px"/,
+      ],
+      ['linear-gradient(red 120%, blue)', /between 0% and 100%, got "120%"/],
+      ['linear-gradient(red 0% 10% 20%)', /at most two positions/],
+    ])('should reject %j', (source, message) => {
+      expect(() => parseCssGradient(source)).toThrow(message);
+    });
+  });
+});
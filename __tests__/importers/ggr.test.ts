@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { parseGgr } from '../../src/importers/ggr.js';
+
+const gradient = (...segments: string[]) =>
+  ['GIMP Gradient', 'Name: Test', String(segments.length), ...segments].join(
+    '\n'
+  );
+
+describe('importers/ggr', () => {
+  describe('parseGgr', () => {
+    it('should turn segments into positioned stops', () => {
+      const source = gradient(
+        '0.0 0.25 0.5 1 0 0 1 0 1 0 1 0 0',
+        '0.5 0.75 1.0 0 1 0 1 0 0 1 1 0 0'
+      );
+
+      expect(parseGgr(source)).toEqual([
+        '#ff0000 0%',
+        '#00ff00 50%',
+        '#0000ff 100%',
+      ]);
+    });
+
+    it('should add a stop at a middle point that is not centered', () => {
+      expect(parseGgr(gradient('0 0.2 1 1 0 0 1 0 0 1 1 0 0 0 0'))).toEqual([
+        '#ff0000 0%',
+        '#800080 20%',
+        '#0000ff 100%',
+      ]);
+    });
+
+    it('should keep the hard edge of step segments', () => {
+      expect(parseGgr(gradient('0 0.5 1 1 0 0 1 0 0 1 1 5 0'))).toEqual([
+        '#ff0000 0%',
+        '#ff0000 50%',
+        '#0000ff 50%',
+        '#0000ff 100%',
+      ]);
+    });
+
+    it('should read gradients without a name', () => {
+      expect(
+        parseGgr('GIMP Gradient\n1\n0 0.5 1 0 0 0 1 1 1 1 1 0 0\n')
+      ).toEqual(['#000000 0%', '#ffffff 100%']);
+    });
+
+    it.each([
+      ['GIMP Palette\n', /must start with "GIMP Gradient"/],
+      ['GIMP Gradient\nName: X\nmany\n', /must give the number of segments/],
+      [
+        'GIMP Gradient\n2\n0 0.5 1 0 0 0 1 1 1 1 1 0 0\n',
+        /declares 2 segments but has 1/,
+      ],
+      ['GIMP Gradient\n1\n0 0.5 1 0 0 0 1\n', /line 3 must be a segment/],
+      [
+        'GIMP Gradient\n1\n0.5 0.2 1 0 0 0 1 1 1 1 1 0 0\n',
+        /line 3 must have left, middle and right positions in order/,
+      ],
+    ])('should reject %j', (source, message) => {
+      expect(() => parseGgr(source)).toThrow(message);
+    });
+  });
+});
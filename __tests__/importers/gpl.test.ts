@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseGpl } from '../../src/importers/gpl.js';
+
+describe('importers/gpl', () => {
+  describe('parseGpl', () => {
+    it('should read the colors in file order', () => {
+      const source = [
+        'GIMP Palette',
+        'Name: Brand',
+        'Columns: 2',
+        '#',
+        '255   0 102\tPink',
+        '  0 204 255\tSky',
+        '',
+      ].join('\n');
+
+      expect(parseGpl(source)).toEqual(['#ff0066', '#00ccff']);
+    });
+
+    it('should accept Windows line endings and unlabeled colors', () => {
+      expect(parseGpl('GIMP Palette\r\n0 0 0\r\n255 255 255\r\n')).toEqual([
+        '#000000',
+        '#ffffff',
+      ]);
+    });
+
+    it.each([
+      ['255 0 0', /must start with "GIMP Palette"/],
+      ['GIMP Palette\nName: Empty\n', /contains no colors/],
+      ['GIMP Palette\n255 0\n', /line 2 must be red, green and blue values/],
+      ['GIMP Palette\n256 0 0\n', /from 0 to 255, got "256 0 0"/],
+    ])('should reject %j', (source, message) => {
+      expect(() => parseGpl(source, 'brand.gpl')).toThrow(message);
+    });
+
+    it('should name the palette in errors', () => {
+      expect(() => parseGpl('', 'brand.gpl')).toThrow(
+        'Invalid palette brand.gpl: must start with "GIMP Palette"'
+      );
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonTheme } from '../../src/importers/jsonTheme.js';
+
+describe('importers/jsonTheme', () => {
+  describe('parseJsonTheme', () => {
+    it('should read a list of colors', () => {
+      expect(parseJsonTheme('["#ff0066", "#00ccff"]')).toEqual([
+        '#ff0066',
+        '#00ccff',
+      ]);
+    });
+
+    it.each(['colors', 'palette', 'stops'])(
+      'should read the list under "%s"',
+      (key) => {
+        const theme = { name: 'Brand', [key]: ['#ff0066', '#00ccff'] };
+
+        expect(parseJsonTheme(JSON.stringify(theme))).toEqual([
+          '#ff0066',
+          '#00ccff',
+        ]);
+      }
+    );
+
+    it('should read maps of named colors', () => {
+      const theme = {
+        name: 'Brand',
+        colors: { primary: '#ff0066', accent: '#00ccff' },
+      };
+
+      expect(parseJsonTheme(JSON.stringify(theme))).toEqual([
+        '#ff0066',
+        '#00ccff',
+      ]);
+    });
+
+    it('should keep stop positions', () => {
+      const theme = ['#ff0066', { color: '#7f00ff', position: 0.7 }, '#00ccff'];
+
+      expect(parseJsonTheme(JSON.stringify(theme))).toEqual([
+        '#ff0066',
+        '#7f00ff 70%',
+        '#00ccff',
+      ]);
+    });
+
+    it.each([
+      ['{', /could not be parsed/],
+      ['{"name": "Brand"}', /must be a list of colors/],
+      ['[]', /must be a list of colors/],
+      ['["#fff", 3]', /entry 2 must be a color or a \{"color", "position"\}/],
+      ['["#fff", "bleu"]', /unsupported color "bleu"/],
+      ['["#fff 120%"]', /must be between 0% and 100%/],
+    ])('should reject %j', (source, message) => {
+      expect(() => parseJsonTheme(source, 'theme.json')).toThrow(message);
+    });
+  });
+});
@@ -2,7 +2,18 @@ import { describe, it, expect, vi } from 'vitest';
 import {
   render,
   renderFilled,
+  renderFilledSync,
+  renderGrid,
+  renderFilledGrid,
+  renderSvg,
+  renderHtml,
+  renderPng,
+  animate,
+  renderAsciicast,
+  renderGif,
   resolveColors,
+  createGrid,
+  mapGrid,
   DEFAULT_PALETTE,
   DEFAULT_FONT,
   DEFAULT_DIRECTION,
@@ -11,15 +22,27 @@ import {
   type RenderInkOptions,
 } from '../src/lib.js';
 
+const { mockGrid } = vi.hoisted(() => ({
+  mockGrid: { width: 0, height: 0, rows: [] },
+}));
+
 // Mock the dependencies
 vi.mock('../src/renderer.js', () => ({
   renderLogo: vi.fn().mockResolvedValue('mocked ascii art'),
+  renderLogoGrid: vi.fn().mockReturnValue(mockGrid),
+  colorizeLogoGrid: vi.fn().mockReturnValue(mockGrid),
 }));
 
 vi.mock('../src/InkRenderer.js', () => ({
   renderInkLogo: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock('../src/filledRenderer.js', () => ({
+  renderFilledLogo: vi.fn().mockReturnValue('mocked filled art'),
+  renderFilledLogoGrid: vi.fn().mockReturnValue(mockGrid),
+  colorizeFilledGrid: vi.fn().mockReturnValue(mockGrid),
+}));
+
 vi.mock('../src/palettes.js', async () => {
   const actual = await vi.importActual('../src/palettes.js');
   return {
@@ -36,8 +59,17 @@ vi.mock('../src/palettes.js', async () => {
   };
 });
 
-import { renderLogo } from '../src/renderer.js';
+import {
+  colorizeLogoGrid,
+  renderLogo,
+  renderLogoGrid,
+} from '../src/renderer.js';
 import { renderInkLogo } from '../src/InkRenderer.js';
+import {
+  colorizeFilledGrid,
+  renderFilledLogo,
+  renderFilledLogoGrid,
+} from '../src/filledRenderer.js';
 
 describe('lib', () => {
   describe('constants', () => {
@@ -56,6 +88,16 @@ describe('lib', () => {
       expect(result).toBe(customColors);
     });
 
+    it('should write object stops as positioned strings', () => {
+      expect(
+        resolveColors([
+          { color: '#4ea8ff', position: 0 },
+          { color: '#7f88ff', position: '70%' },
+          '#00ffcc',
+        ])
+      ).toEqual(['#4ea8ff 0%', '#7f88ff 70%', '#00ffcc']);
+    });
+
     it('should resolve valid palette names', () => {
       const result = resolveColors('grad-blue');
       expect(result).toEqual(['#4ea8ff', '#7f88ff']);
@@ -75,6 +117,15 @@ describe('lib', () => {
     it('should handle empty string palette name', () => {
       expect(() => resolveColors('')).toThrow('Unknown palette:');
     });
+
+    it('should reject invalid colors before rendering', async () => {
+      expect(() => resolveColors(['#ff0066', 'rgb(255 0)'])).toThrow(
+        'Invalid color "rgb(255 0)" at palette entry 2: rgb() takes three values'
+      );
+      await expect(
+        render('HI', { palette: ['#ff0066', 'bleu'] })
+      ).rejects.toThrow('Invalid color "bleu" at palette entry 2');
+    });
   });
 
   describe('render', () => {
@@ -85,7 +136,10 @@ describe('lib', () => {
         'TEST',
         ['#4ea8ff', '#7f88ff'],
         DEFAULT_FONT,
-        DEFAULT_DIRECTION
+        DEFAULT_DIRECTION,
+        undefined,
+        undefined,
+        {}
       );
     });
 
@@ -102,7 +156,10 @@ describe('lib', () => {
         'CUSTOM',
         ['#ff9966', '#ff5e62', '#ffa34e'],
         'Big',
-        'horizontal'
+        'horizontal',
+        undefined,
+        undefined,
+        {}
       );
     });
 
@@ -119,7 +176,10 @@ describe('lib', () => {
         'COLORS',
         customColors,
         DEFAULT_FONT,
-        'diagonal'
+        'diagonal',
+        undefined,
+        undefined,
+        {}
       );
     });
 
@@ -128,6 +188,66 @@ describe('lib', () => {
       expect(result).toBe('mocked ascii art');
     });
 
+    it('should pass the color level to renderLogo', async () => {
+      await render('LEVEL', { colorLevel: 2 });
+
+      expect(renderLogo).toHaveBeenCalledWith(
+        'LEVEL',
+        ['#4ea8ff', '#7f88ff'],
+        DEFAULT_FONT,
+        DEFAULT_DIRECTION,
+        2,
+        undefined,
+        {}
+      );
+    });
+
+    it('should pass the dither method to renderLogo', async () => {
+      await render('DITHER', { colorLevel: 1, dither: 'floyd' });
+
+      expect(renderLogo).toHaveBeenCalledWith(
+        'DITHER',
+        ['#4ea8ff', '#7f88ff'],
+        DEFAULT_FONT,
+        DEFAULT_DIRECTION,
+        1,
+        'floyd',
+        {}
+      );
+    });
+
+    it('should pass the interpolation to renderLogo', async () => {
+      await render('OKLCH', {
+        interpolation: 'oklch',
+        huePath: 'long',
+        easing: 'ease-in',
+      });
+
+      expect(renderLogo).toHaveBeenCalledWith(
+        'OKLCH',
+        ['#4ea8ff', '#7f88ff'],
+        DEFAULT_FONT,
+        DEFAULT_DIRECTION,
+        undefined,
+        undefined,
+        { interpolation: 'oklch', huePath: 'long', easing: 'ease-in' }
+      );
+    });
+
+    it('should pass the gradient scope to renderLogo', async () => {
+      await render('SCOPE', { gradientScope: 'word' });
+
+      expect(renderLogo).toHaveBeenCalledWith(
+        'SCOPE',
+        ['#4ea8ff', '#7f88ff'],
+        DEFAULT_FONT,
+        DEFAULT_DIRECTION,
+        undefined,
+        undefined,
+        { gradientScope: 'word' }
+      );
+    });
+
     it('should handle partial options', async () => {
       await render('PARTIAL', { palette: 'sunset' });
 
@@ -135,16 +255,19 @@ describe('lib', () => {
         'PARTIAL',
         ['#ff9966', '#ff5e62', '#ffa34e'],
         DEFAULT_FONT,
-        DEFAULT_DIRECTION
+        DEFAULT_DIRECTION,
+        undefined,
+        undefined,
+        {}
       );
     });
   });
 
   describe('renderFilled', () => {
-    it('should call renderInkLogo with default palette', async () => {
+    it('should call renderFilledLogo with default palette', async () => {
       await renderFilled('TEST');
 
-      expect(renderInkLogo).toHaveBeenCalledWith(
+      expect(renderFilledLogo).toHaveBeenCalledWith(
         'TEST',
         ['#4ea8ff', '#7f88ff'],
         {
@@ -155,14 +278,14 @@ describe('lib', () => {
       );
     });
 
-    it('should call renderInkLogo with custom palette', async () => {
+    it('should call renderFilledLogo with custom palette', async () => {
       const options: RenderInkOptions = {
         palette: 'sunset',
       };
 
       await renderFilled('FILLED', options);
 
-      expect(renderInkLogo).toHaveBeenCalledWith(
+      expect(renderFilledLogo).toHaveBeenCalledWith(
         'FILLED',
         ['#ff9966', '#ff5e62', '#ffa34e'],
         {
@@ -173,7 +296,7 @@ describe('lib', () => {
       );
     });
 
-    it('should pass font option to renderInkLogo', async () => {
+    it('should pass font option to renderFilledLogo', async () => {
       const options: RenderInkOptions = {
         palette: 'sunset',
         font: 'chrome',
@@ -181,7 +304,7 @@ describe('lib', () => {
 
       await renderFilled('FONT', options);
 
-      expect(renderInkLogo).toHaveBeenCalledWith(
+      expect(renderFilledLogo).toHaveBeenCalledWith(
         'FONT',
         ['#ff9966', '#ff5e62', '#ffa34e'],
         {
@@ -192,7 +315,7 @@ describe('lib', () => {
       );
     });
 
-    it('should pass letterSpacing option to renderInkLogo', async () => {
+    it('should pass letterSpacing option to renderFilledLogo', async () => {
       const options: RenderInkOptions = {
         palette: 'grad-blue',
         letterSpacing: 3,
@@ -200,7 +323,7 @@ describe('lib', () => {
 
       await renderFilled('SPACED', options);
 
-      expect(renderInkLogo).toHaveBeenCalledWith(
+      expect(renderFilledLogo).toHaveBeenCalledWith(
         'SPACED',
         ['#4ea8ff', '#7f88ff'],
         {
@@ -220,7 +343,7 @@ describe('lib', () => {
 
       await renderFilled('COMBO', options);
 
-      expect(renderInkLogo).toHaveBeenCalledWith(
+      expect(renderFilledLogo).toHaveBeenCalledWith(
         'COMBO',
         ['#ff9966', '#ff5e62', '#ffa34e'],
         {
@@ -239,14 +362,14 @@ describe('lib', () => {
 
       await renderFilled('COLORS', options);
 
-      expect(renderInkLogo).toHaveBeenCalledWith('COLORS', customColors, {
+      expect(renderFilledLogo).toHaveBeenCalledWith('COLORS', customColors, {
         font: undefined,
         letterSpacing: undefined,
         direction: DEFAULT_FILLED_DIRECTION,
       });
     });
 
-    it('should pass direction option to renderInkLogo', async () => {
+    it('should pass direction option to renderFilledLogo', async () => {
       const options: RenderInkOptions = {
         palette: 'sunset',
         direction: 'diagonal',
@@ -254,16 +377,355 @@ describe('lib', () => {
 
       await renderFilled('DIRECTION', options);
 
-      expect(renderInkLogo).toHaveBeenCalledWith(
+      expect(renderFilledLogo).toHaveBeenCalledWith(
         'DIRECTION',
         ['#ff9966', '#ff5e62', '#ffa34e'],
         { font: undefined, letterSpacing: undefined, direction: 'diagonal' }
       );
     });
 
-    it('should return void (Promise<void>)', async () => {
+    it('should return the rendered string', async () => {
       const result = await renderFilled('TEST');
-      expect(result).toBeUndefined();
+      expect(result).toBe('mocked filled art');
+    });
+
+    it('should not print through Ink by default', async () => {
+      vi.mocked(renderInkLogo).mockClear();
+
+      await renderFilled('TEST');
+
+      expect(renderInkLogo).not.toHaveBeenCalled();
+    });
+
+    it('should print through Ink when print is enabled', async () => {
+      vi.mocked(renderFilledLogo).mockClear();
+      const result = await renderFilled('PRINT', {
+        palette: 'sunset',
+        print: true,
+      });
+
+      // Ink prints the logo that was already rendered
+      expect(renderFilledLogo).toHaveBeenCalledTimes(1);
+      expect(renderInkLogo).toHaveBeenCalledWith('mocked filled art');
+      expect(result).toBe('mocked filled art');
+    });
+  });
+
+  describe('renderFilledSync', () => {
+    it('should return the rendered string synchronously', () => {
+      const result = renderFilledSync('SYNC', { palette: 'sunset' });
+
+      expect(result).toBe('mocked filled art');
+      expect(renderFilledLogo).toHaveBeenCalledWith(
+        'SYNC',
+        ['#ff9966', '#ff5e62', '#ffa34e'],
+        {
+          font: undefined,
+          letterSpacing: undefined,
+          direction: DEFAULT_FILLED_DIRECTION,
+        }
+      );
+    });
+
+    it('should pass the gradient scope to renderFilledLogo', () => {
+      renderFilledSync('SYNC', { gradientScope: 'glyph' });
+
+      expect(renderFilledLogo).toHaveBeenCalledWith(
+        'SYNC',
+        ['#4ea8ff', '#7f88ff'],
+        expect.objectContaining({ gradientScope: 'glyph' })
+      );
+    });
+
+    it('should never print through Ink', () => {
+      vi.mocked(renderInkLogo).mockClear();
+
+      renderFilledSync('SYNC', { print: true });
+
+      expect(renderInkLogo).not.toHaveBeenCalled();
+    });
+
+    it('should reject negative letter spacing', () => {
+      expect(() => renderFilledSync('SYNC', { letterSpacing: -1 })).toThrow(
+        'Letter spacing must be 0 or greater'
+      );
+    });
+  });
+
+  describe('renderGrid', () => {
+    it('should call renderLogoGrid with default options', () => {
+      const grid = renderGrid('GRID');
+
+      expect(renderLogoGrid).toHaveBeenCalledWith(
+        'GRID',
+        ['#4ea8ff', '#7f88ff'],
+        DEFAULT_FONT,
+        DEFAULT_DIRECTION,
+        {}
+      );
+      expect(grid).toBe(mockGrid);
+    });
+
+    it('should pass custom options to renderLogoGrid', () => {
+      renderGrid('GRID', {
+        palette: 'sunset',
+        font: 'Big',
+        direction: 'diagonal',
+      });
+
+      expect(renderLogoGrid).toHaveBeenCalledWith(
+        'GRID',
+        ['#ff9966', '#ff5e62', '#ffa34e'],
+        'Big',
+        'diagonal',
+        {}
+      );
+    });
+  });
+
+  describe('renderFilledGrid', () => {
+    it('should call renderFilledLogoGrid with resolved options', () => {
+      const grid = renderFilledGrid('GRID', {
+        palette: 'sunset',
+        font: 'chrome',
+        letterSpacing: 2,
+      });
+
+      expect(renderFilledLogoGrid).toHaveBeenCalledWith(
+        'GRID',
+        ['#ff9966', '#ff5e62', '#ffa34e'],
+        {
+          font: 'chrome',
+          letterSpacing: 2,
+          direction: DEFAULT_FILLED_DIRECTION,
+        }
+      );
+      expect(grid).toBe(mockGrid);
+    });
+
+    it('should reject negative letter spacing', () => {
+      expect(() => renderFilledGrid('GRID', { letterSpacing: -1 })).toThrow(
+        'Letter spacing must be 0 or greater'
+      );
+    });
+  });
+
+  describe('renderSvg', () => {
+    it('should render an SVG from the figlet grid by default', async () => {
+      const svg = await renderSvg('SVG', { palette: 'sunset' });
+
+      expect(renderLogoGrid).toHaveBeenCalledWith(
+        'SVG',
+        ['#ff9966', '#ff5e62', '#ffa34e'],
+        DEFAULT_FONT,
+        DEFAULT_DIRECTION,
+        {}
+      );
+      expect(svg).toContain('<svg');
+      expect(svg).toContain('<title>SVG</title>');
+    });
+
+    it('should quantize colors when a color level is given', async () => {
+      vi.mocked(renderLogoGrid).mockReturnValueOnce(
+        mapGrid(createGrid('A'), (cell) => ({ ...cell, fg: '#ff8000' }))
+      );
+
+      const svg = await renderSvg('SVG', { colorLevel: 2 });
+
+      expect(svg).toContain('#ff8700');
+      expect(svg).not.toContain('#ff8000');
+    });
+
+    it('should render an SVG from the filled grid when filled is set', async () => {
+      await renderSvg('SVG', {
+        palette: 'sunset',
+        filled: true,
+        blockFont: 'chrome',
+        letterSpacing: 2,
+        direction: 'diagonal',
+      });
+
+      expect(renderFilledLogoGrid).toHaveBeenCalledWith(
+        'SVG',
+        ['#ff9966', '#ff5e62', '#ffa34e'],
+        { font: 'chrome', letterSpacing: 2, direction: 'diagonal' }
+      );
+    });
+  });
+
+  describe('renderHtml', () => {
+    it('should render a standalone HTML page from the figlet grid', async () => {
+      const html = await renderHtml('HTML', { palette: 'sunset' });
+
+      expect(renderLogoGrid).toHaveBeenCalledWith(
+        'HTML',
+        ['#ff9966', '#ff5e62', '#ffa34e'],
+        DEFAULT_FONT,
+        DEFAULT_DIRECTION,
+        {}
+      );
+      expect(html).toContain('<!DOCTYPE html>');
+      expect(html).toContain('<title>HTML</title>');
+    });
+
+    it('should render a fragment from the filled grid', async () => {
+      const html = await renderHtml('HTML', {
+        palette: 'sunset',
+        filled: true,
+        blockFont: 'chrome',
+        fragment: true,
+      });
+
+      expect(renderFilledLogoGrid).toHaveBeenCalledWith(
+        'HTML',
+        ['#ff9966', '#ff5e62', '#ffa34e'],
+        expect.objectContaining({ font: 'chrome' })
+      );
+      expect(html).toContain('<pre');
+      expect(html).not.toContain('<!DOCTYPE html>');
+    });
+  });
+
+  describe('renderPng', () => {
+    it('should render a PNG from the export grid', async () => {
+      const png = await renderPng('PNG', { palette: 'sunset', scale: 1 });
+
+      expect(renderLogoGrid).toHaveBeenCalledWith(
+        'PNG',
+        ['#ff9966', '#ff5e62', '#ffa34e'],
+        DEFAULT_FONT,
+        DEFAULT_DIRECTION,
+        {}
+      );
+      expect(png.subarray(1, 4).toString('ascii')).toBe('PNG');
+    });
+  });
+
+  describe('renderGif', () => {
+    function countFrames(gif: Buffer) {
+      return gif.toString('latin1').split('\x21\xf9\x04').length - 1;
+    }
+
+    it('should encode a single static frame without an effect', async () => {
+      const gif = await renderGif('GIF', { palette: 'sunset', scale: 1 });
+
+      expect(gif.toString('ascii', 0, 6)).toBe('GIF89a');
+      expect(countFrames(gif)).toBe(1);
+    });
+
+    it('should encode one pass and leave repeats to the GIF loop', async () => {
+      const gif = await renderGif('GIF', {
+        effect: 'rainbow',
+        fps: 10,
+        duration: 300,
+        loop: Infinity,
+        scale: 1,
+      });
+
+      expect(countFrames(gif)).toBe(3);
+      expect(gif.includes('NETSCAPE2.0')).toBe(true);
+    });
+  });
+
+  describe('animate', () => {
+    it('should append the static logo when endOnStatic is set', async () => {
+      const frames = [];
+      for await (const frame of animate('ANIM', {
+        effect: 'fade-in',
+        fps: 10,
+        duration: 200,
+        endOnStatic: true,
+      })) {
+        frames.push(frame);
+      }
+
+      expect(frames).toHaveLength(3);
+      expect(frames[2]).toMatchObject({ index: 2, progress: 1, time: 100 });
+      expect(frames[2].grid).toBe(mockGrid);
+    });
+
+    it('should yield timed frames for the figlet logo', async () => {
+      const frames = [];
+      for await (const frame of animate('ANIM', {
+        palette: 'sunset',
+        fps: 10,
+        duration: 300,
+      })) {
+        frames.push(frame);
+      }
+
+      expect(renderLogoGrid).toHaveBeenCalledWith(
+        'ANIM',
+        ['#ff9966', '#ff5e62', '#ffa34e'],
+        DEFAULT_FONT,
+        DEFAULT_DIRECTION,
+        {}
+      );
+      expect(frames.map((frame) => frame.time)).toEqual([0, 100, 200]);
+      expect(colorizeLogoGrid).toHaveBeenCalledWith(
+        mockGrid,
+        expect.any(Array),
+        DEFAULT_DIRECTION,
+        {}
+      );
+    });
+
+    it('should recolor filled logos with the filled direction', async () => {
+      const frames = animate('ANIM', {
+        palette: 'sunset',
+        filled: true,
+        effect: 'rainbow',
+      });
+      await frames.next();
+
+      expect(renderFilledLogoGrid).toHaveBeenCalled();
+      expect(colorizeFilledGrid).toHaveBeenCalledWith(
+        mockGrid,
+        expect.any(Array),
+        DEFAULT_FILLED_DIRECTION,
+        {}
+      );
+    });
+  });
+
+  describe('renderAsciicast', () => {
+    it('should record a single static frame without an effect', async () => {
+      const cast = await renderAsciicast('CAST', { palette: 'sunset' });
+      const [header, ...events] = cast.trimEnd().split('\n');
+
+      expect(JSON.parse(header)).toMatchObject({ version: 2, title: 'CAST' });
+      expect(
+        events.filter((event) => event.includes('\\u001b[K'))
+      ).toHaveLength(1);
+    });
+
+    it('should record the animation and end on the static logo', async () => {
+      vi.mocked(colorizeLogoGrid).mockClear();
+      const cast = await renderAsciicast('CAST', {
+        palette: 'sunset',
+        effect: 'rainbow',
+        fps: 10,
+        duration: 300,
+      });
+      const times = cast
+        .trimEnd()
+        .split('\n')
+        .slice(1)
+        .map((event) => JSON.parse(event)[0]);
+
+      // Start, three frames, the static frame, and the end
+      expect(times).toEqual([0, 0, 0.1, 0.2, 0.2, 0.2]);
+      expect(colorizeLogoGrid).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject an infinite loop', async () => {
+      await expect(
+        renderAsciicast('CAST', {
+          palette: 'sunset',
+          effect: 'rainbow',
+          loop: Infinity,
+        })
+      ).rejects.toThrow('asciicast recordings cannot loop forever');
     });
   });
 
@@ -285,10 +747,20 @@ describe('lib', () => {
       );
     });
 
+    it('should handle errors from renderFilledLogo', async () => {
+      vi.mocked(renderFilledLogo).mockImplementationOnce(() => {
+        throw new Error('cfonts error');
+      });
+
+      await expect(renderFilled('TEST')).rejects.toThrow('cfonts error');
+    });
+
     it('should handle errors from renderInkLogo', async () => {
       vi.mocked(renderInkLogo).mockRejectedValueOnce(new Error('Ink error'));
 
-      await expect(renderFilled('TEST')).rejects.toThrow('Ink error');
+      await expect(renderFilled('TEST', { print: true })).rejects.toThrow(
+        'Ink error'
+      );
     });
   });
 });
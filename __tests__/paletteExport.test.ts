@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { exportPalette } from '../src/paletteExport.js';
+import { parseGpl } from '../src/importers/gpl.js';
+import { parseJsonTheme } from '../src/importers/jsonTheme.js';
+
+const COLORS = ['#ff0066', '#7f00ff 70%', '#00ccff'];
+
+describe('paletteExport', () => {
+  describe('exportPalette', () => {
+    it('should write CSS custom properties by default', () => {
+      expect(exportPalette('acme', COLORS)).toBe(
+        [
+          ':root {',
+          '  --acme-1: #ff0066;',
+          '  --acme-2: #7f00ff;',
+          '  --acme-3: #00ccff;',
+          '  --acme-gradient: linear-gradient(90deg, #ff0066, #7f00ff 70%, #00ccff);',
+          '}',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should write SCSS variables and a list', () => {
+      expect(exportPalette('acme', COLORS, { format: 'scss' })).toBe(
+        [
+          '$acme-1: #ff0066;',
+          '$acme-2: #7f00ff;',
+          '$acme-3: #00ccff;',
+          '$acme: (#ff0066, #7f00ff, #00ccff);',
+          '$acme-gradient: linear-gradient(90deg, #ff0066, #7f00ff 70%, #00ccff);',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should write a Tailwind config', () => {
+      const output = exportPalette('acme', COLORS, { format: 'tailwind' });
+      const config = JSON.parse(
+        output.slice(output.indexOf('= {') + 2, output.lastIndexOf(';'))
+      );
+
+      expect(output).toMatch(/^\/\*\* @type/);
+      expect(config.theme.extend.colors.acme).toEqual({
+        1: '#ff0066',
+        2: '#7f00ff',
+        3: '#00ccff',
+      });
+      expect(config.theme.extend.backgroundImage['acme-gradient']).toBe(
+        'linear-gradient(90deg, #ff0066, #7f00ff 70%, #00ccff)'
+      );
+    });
+
+    it('should write JSON themes that read back with stop positions', () => {
+      const output = exportPalette('acme', COLORS, { format: 'json' });
+
+      expect(JSON.parse(output)).toEqual({ name: 'acme', colors: COLORS });
+      expect(parseJsonTheme(output)).toEqual(COLORS);
+    });
+
+    it('should write GIMP palettes', () => {
+      const output = exportPalette('acme', ['red', '#00ccff'], {
+        format: 'gpl',
+      });
+
+      expect(output).toBe(
+        [
+          'GIMP Palette',
+          'Name: acme',
+          'Columns: 2',
+          '#',
+          '255   0   0\tacme-1',
+          '  0 204 255\tacme-2',
+          '',
+        ].join('\n')
+      );
+      expect(parseGpl(output)).toEqual(['#ff0000', '#00ccff']);
+    });
+
+    it('should sample evenly spaced steps from the gradient', () => {
+      const output = exportPalette('mono', ['#000000', '#ffffff'], {
+        format: 'json',
+        steps: 3,
+      });
+
+      expect(JSON.parse(output).colors).toEqual([
+        '#000000',
+        '#808080',
+        '#ffffff',
+      ]);
+    });
+
+    it('should make palette names safe for identifiers', () => {
+      expect(exportPalette('acme.brand', ['#fff'])).toContain(
+        '--acme-brand-1: #ffffff;'
+      );
+    });
+
+    it.each([
+      [{ steps: 0 }, /steps must be a positive integer/],
+      [{ steps: 2.5 }, /steps must be a positive integer/],
+      [{ format: 'xml' as never }, /unknown palette format "xml"/],
+    ])('should reject %j', (options, message) => {
+      expect(() => exportPalette('acme', COLORS, options)).toThrow(message);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  detectPaletteFormat,
+  loadPalette,
+  parsePalette,
+} from '../src/paletteFiles.js';
+import { PaletteError } from '../src/utils/errors.js';
+
+describe('paletteFiles', () => {
+  describe('detectPaletteFormat', () => {
+    it.each([
+      ['GIMP Palette\n0 0 0\n', 'gpl'],
+      ['GIMP Gradient\n1\n', 'ggr'],
+      ['  ["#fff"]', 'json'],
+      ['{"colors": []}', 'json'],
+      ['.logo { background: linear-gradient(red, blue); }', 'css'],
+      ['red, blue', null],
+    ])('should detect %j as %s', (source, format) => {
+      expect(detectPaletteFormat(source)).toBe(format);
+    });
+  });
+
+  describe('parsePalette', () => {
+    it('should use the given format', () => {
+      expect(parsePalette('["#ff0066"]', 'json')).toEqual(['#ff0066']);
+      expect(() => parsePalette('["#ff0066"]', 'css')).toThrow(
+        /must contain a linear-gradient/
+      );
+    });
+
+    it('should reject contents in no known format', () => {
+      expect(() => parsePalette('red, blue', undefined, 'colors.txt')).toThrow(
+        'Invalid palette colors.txt: is not a GIMP palette or gradient, CSS gradient or JSON theme'
+      );
+    });
+  });
+
+  describe('loadPalette', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    const write = (name: string, contents: string) => {
+      const file = join(dir, name);
+      writeFileSync(file, contents);
+      return file;
+    };
+
+    it.each([
+      ['brand.gpl', 'GIMP Palette\n255 0 102\n0 204 255\n'],
+      ['brand.GGR', 'GIMP Gradient\n1\n0 0.5 1 1 0 0.4 1 0 0.8 1 1 0 0\n'],
+      ['brand.css', 'a { background: linear-gradient(#ff0066, #00ccff); }'],
+      ['brand.json', '{"colors": ["#ff0066", "#00ccff"]}'],
+      ['brand.txt', '["#ff0066", "#00ccff"]'],
+    ])('should load %s', (name, contents) => {
+      const colors = loadPalette(write(name, contents));
+
+      expect(colors[0]).toMatch(/^#ff0066/);
+      expect(colors[colors.length - 1]).toMatch(/^#00ccff/);
+    });
+
+    it('should prefer the extension over the contents', () => {
+      const file = write('brand.css', '{"colors": ["#ff0066"]}');
+
+      expect(() => loadPalette(file)).toThrow(/must contain a linear-gradient/);
+    });
+
+    it('should report missing files', () => {
+      const file = join(dir, 'missing.gpl');
+
+      expect(() => loadPalette(file)).toThrow(PaletteError);
+      expect(() => loadPalette(file)).toThrow(
+        `Invalid palette ${file}: file does not exist`
+      );
+    });
+  });
+});
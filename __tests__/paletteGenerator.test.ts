@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generatePalette,
+  randomPalette,
+  type PaletteHarmony,
+} from '../src/paletteGenerator.js';
+import { ColorError, InputError } from '../src/utils/errors.js';
+
+describe('paletteGenerator', () => {
+  describe('generatePalette', () => {
+    it.each([
+      ['analogous', ['#ff0080', '#ff0000', '#ff8000']],
+      ['complementary', ['#ff0000', '#00ffff']],
+      ['triadic', ['#ff0000', '#00ff00', '#0000ff']],
+      ['monochrome', ['#800000', '#ff0000', '#ff8080']],
+      ['split', ['#ff0000', '#00ff80', '#0080ff']],
+    ])('should build a %s palette', (harmony, colors) => {
+      expect(
+        generatePalette('#ff0000', { harmony: harmony as PaletteHarmony })
+      ).toEqual(colors);
+    });
+
+    it('should default to analogous and accept any CSS color', () => {
+      expect(generatePalette('red')).toEqual(generatePalette('#ff0000'));
+    });
+
+    it('should sample steps between the key colors', () => {
+      const colors = generatePalette('#ff0000', {
+        harmony: 'complementary',
+        steps: 3,
+      });
+
+      expect(colors).toHaveLength(3);
+      expect(colors[0]).toBe('#ff0000');
+      expect(colors[2]).toBe('#00ffff');
+    });
+
+    it('should reject bad seeds, harmonies and steps', () => {
+      expect(() => generatePalette('bleu')).toThrow(ColorError);
+      expect(() =>
+        generatePalette('red', { harmony: 'tetradic' as PaletteHarmony })
+      ).toThrow(/unknown harmony "tetradic"/);
+      expect(() => generatePalette('red', { steps: 0 })).toThrow(InputError);
+    });
+  });
+
+  describe('randomPalette', () => {
+    it('should give the same palette for the same seed', () => {
+      const palette = randomPalette({ seed: 42 });
+
+      expect(randomPalette({ seed: 42 })).toEqual(palette);
+      expect(palette.colors).toEqual(
+        generatePalette(palette.seedColor, { harmony: palette.harmony })
+      );
+      expect(randomPalette({ seed: 43 }).seedColor).not.toBe(palette.seedColor);
+    });
+
+    it('should keep the seed color when the harmony is given', () => {
+      const palette = randomPalette({ seed: 42, harmony: 'triadic', steps: 5 });
+
+      expect(palette.seedColor).toBe(randomPalette({ seed: 42 }).seedColor);
+      expect(palette.harmony).toBe('triadic');
+      expect(palette.colors).toHaveLength(5);
+    });
+
+    it('should pick a seed when none is given', () => {
+      expect(Number.isSafeInteger(randomPalette().seed)).toBe(true);
+    });
+
+    it('should reject seeds that are not integers', () => {
+      expect(() => randomPalette({ seed: 1.5 })).toThrow(
+        'seed must be an integer, got 1.5'
+      );
+    });
+  });
+});
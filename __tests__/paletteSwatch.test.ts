@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  renderPaletteSwatch,
+  renderPaletteText,
+} from '../src/paletteSwatch.js';
+import { stripAnsiCodes } from '../src/utils/stdout.js';
+
+describe('paletteSwatch', () => {
+  describe('renderPaletteSwatch', () => {
+    it('should run a bar of blocks through the gradient', () => {
+      const swatch = renderPaletteSwatch(['#ff0000', '#0000ff'], { width: 3 });
+
+      expect(swatch).toBe(
+        '\x1b[38;2;255;0;0m█\x1b[39m' +
+          '\x1b[38;2;128;0;128m█\x1b[39m' +
+          '\x1b[38;2;0;0;255m█\x1b[39m'
+      );
+    });
+
+    it('should default to 24 cells', () => {
+      expect(stripAnsiCodes(renderPaletteSwatch(['#ff0000']))).toBe(
+        '█'.repeat(24)
+      );
+    });
+
+    it('should follow the color level', () => {
+      expect(
+        renderPaletteSwatch(['#ff0000', '#0000ff'], {
+          width: 2,
+          colorLevel: 2,
+        })
+      ).toBe('\x1b[38;5;196m█\x1b[39m\x1b[38;5;21m█\x1b[39m');
+      expect(
+        renderPaletteSwatch(['#ff0000'], { width: 2, colorLevel: 0 })
+      ).toBe('██');
+    });
+  });
+
+  describe('renderPaletteText', () => {
+    it('should color the text through the gradient', () => {
+      const text = renderPaletteText('ab', ['#ff0000', '#0000ff']);
+
+      expect(stripAnsiCodes(text)).toBe('ab');
+      expect(text).toContain('\x1b[38;2;255;0;0ma');
+      expect(text).toContain('\x1b[38;2;0;0;255mb');
+    });
+  });
+});
@@ -1,12 +1,29 @@
-import { describe, it, expect } from 'vitest';
+import { afterEach, describe, it, expect } from 'vitest';
 import {
   PALETTES,
+  registerPalette,
+  unregisterPalette,
   resolvePalette,
   getPaletteNames,
   getDefaultPalette,
   getPalettePreview,
+  validatePalette,
+  getPaletteInfo,
+  PALETTE_TAGS,
+  type PaletteTag,
+  lighten,
+  darken,
+  saturate,
+  rotateHue,
+  mix,
+  mirror,
+  loop,
+  resample,
+  parsePaletteTransform,
+  transformPalette,
   type PaletteName,
 } from '../src/palettes.js';
+import { ColorError, InputError } from '../src/utils/errors.js';
 
 describe('palettes', () => {
   describe('PALETTES', () => {
@@ -27,7 +44,28 @@ describe('palettes', () => {
         'matrix',
       ];
 
-      expect(Object.keys(PALETTES)).toEqual(expectedPalettes);
+      expect(Object.keys(PALETTES).slice(0, expectedPalettes.length)).toEqual(
+        expectedPalettes
+      );
+    });
+
+    it('should include popular terminal themes', () => {
+      expect(Object.keys(PALETTES)).toEqual(
+        expect.arrayContaining([
+          'dracula',
+          'nord',
+          'solarized',
+          'gruvbox',
+          'catppuccin',
+          'tokyo-night',
+        ])
+      );
+    });
+
+    it('should not repeat a color within a palette', () => {
+      Object.values(PALETTES).forEach((colors) => {
+        expect(new Set(colors).size).toBe(colors.length);
+      });
     });
 
     it('should have valid hex colors for each palette', () => {
@@ -69,7 +107,32 @@ describe('palettes', () => {
     it('should return all palette names', () => {
       const names = getPaletteNames();
       expect(names).toEqual(Object.keys(PALETTES));
-      expect(names).toHaveLength(13);
+      expect(names.length).toBeGreaterThan(13);
+    });
+
+    it('should filter by tag', () => {
+      const names = getPaletteNames({ tag: 'terminal' });
+
+      expect(names).toContain('dracula');
+      expect(names).not.toContain('sunset');
+    });
+
+    it('should search names, descriptions, tags and sources ignoring case', () => {
+      expect(getPaletteNames({ search: 'NORD' })).toEqual([
+        'nord',
+        'nord-aurora',
+      ]);
+      expect(getPaletteNames({ search: 'uigradients.com' })).toContain('mango');
+      expect(getPaletteNames({ tag: 'pastel', search: 'mocha' })).toEqual([
+        'catppuccin',
+      ]);
+      expect(getPaletteNames({ search: 'no such palette' })).toEqual([]);
+    });
+
+    it('should reject unknown tags', () => {
+      expect(() => getPaletteNames({ tag: 'spicy' as PaletteTag })).toThrow(
+        /unknown palette tag "spicy"/
+      );
     });
 
     it('should return palette names in correct order', () => {
@@ -89,7 +152,7 @@ describe('palettes', () => {
         'coral',
         'matrix',
       ];
-      expect(names).toEqual(expectedOrder);
+      expect(names.slice(0, expectedOrder.length)).toEqual(expectedOrder);
     });
   });
 
@@ -109,7 +172,7 @@ describe('palettes', () => {
   describe('getPalettePreview', () => {
     it('should return formatted preview for single color palette', () => {
       const preview = getPalettePreview('mono');
-      expect(preview).toBe('#f07178 → #f07178');
+      expect(preview).toBe('#f07178');
     });
 
     it('should return formatted preview for multi-color palette', () => {
@@ -126,4 +189,271 @@ describe('palettes', () => {
       });
     });
   });
+
+  describe('getPaletteInfo', () => {
+    afterEach(() => {
+      unregisterPalette('acme-brand');
+    });
+
+    it('should return the metadata of built-in palettes', () => {
+      expect(getPaletteInfo('dracula')).toEqual({
+        name: 'dracula',
+        colors: ['#bd93f9', '#ff79c6', '#ffb86c'],
+        description: 'Purple, pink and orange from the Dracula theme',
+        tags: ['terminal', 'dark-bg-safe'],
+        author: 'Zeno Rocha',
+        source: 'https://draculatheme.com',
+        builtIn: true,
+      });
+    });
+
+    it('should describe and tag every built-in palette', () => {
+      Object.keys(PALETTES).forEach((name) => {
+        const info = getPaletteInfo(name);
+        expect(info?.description).not.toBe('');
+        expect(info?.tags.every((tag) => PALETTE_TAGS.includes(tag))).toBe(
+          true
+        );
+      });
+    });
+
+    it('should only tag palettes readable on a dark background as dark-bg-safe', () => {
+      // WCAG contrast against a typical dark terminal background (#1e1e1e)
+      const luminance = (color: string) => {
+        const [r, g, b] = [1, 3, 5].map((index) => {
+          const channel =
+            Number.parseInt(color.slice(index, index + 2), 16) / 255;
+          return channel <= 0.03928
+            ? channel / 12.92
+            : ((channel + 0.055) / 1.055) ** 2.4;
+        });
+        return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      };
+      const background = luminance('#1e1e1e');
+
+      getPaletteNames({ tag: 'dark-bg-safe' }).forEach((name) => {
+        resolvePalette(name)?.forEach((color) => {
+          expect(
+            (luminance(color) + 0.05) / (background + 0.05)
+          ).toBeGreaterThanOrEqual(3);
+        });
+      });
+    });
+
+    it('should return registered palettes with their metadata', () => {
+      registerPalette('acme-brand', ['#ff0066'], {
+        description: 'ACME brand colors',
+        tags: ['warm'],
+      });
+
+      expect(getPaletteInfo('acme-brand')).toEqual({
+        name: 'acme-brand',
+        colors: ['#ff0066'],
+        description: 'ACME brand colors',
+        tags: ['warm'],
+        builtIn: false,
+      });
+      expect(getPaletteNames({ search: 'acme' })).toEqual(['acme-brand']);
+    });
+
+    it('should return null for unknown palettes', () => {
+      expect(getPaletteInfo('invalid-palette')).toBeNull();
+    });
+  });
+
+  describe('registerPalette', () => {
+    afterEach(() => {
+      unregisterPalette('acme-brand');
+    });
+
+    it('should make the palette resolvable by name', () => {
+      registerPalette('acme-brand', ['#ff0066', '#00ccff']);
+
+      expect(resolvePalette('acme-brand')).toEqual(['#ff0066', '#00ccff']);
+      expect(getPaletteNames().at(-1)).toBe('acme-brand');
+      expect(getPalettePreview('acme-brand' as PaletteName)).toBe(
+        '#ff0066 → #00ccff'
+      );
+    });
+
+    it('should store positioned stops as strings', () => {
+      registerPalette('acme-brand', [
+        '#ff0066',
+        { color: '#00ccff', position: 0.7 },
+      ]);
+
+      expect(resolvePalette('acme-brand')).toEqual(['#ff0066', '#00ccff 70%']);
+    });
+
+    it('should replace a palette registered again', () => {
+      registerPalette('acme-brand', ['#ff0066']);
+      registerPalette('acme-brand', ['#00ccff']);
+
+      expect(resolvePalette('acme-brand')).toEqual(['#00ccff']);
+      expect(
+        getPaletteNames().filter((name) => name === 'acme-brand')
+      ).toHaveLength(1);
+    });
+
+    it('should not replace built-in palettes', () => {
+      expect(() => registerPalette('sunset', ['#000000'])).toThrow(/built in/);
+    });
+
+    it('should reject empty palettes and invalid names', () => {
+      expect(() => registerPalette('acme-brand', [])).toThrow(
+        /at least one color/
+      );
+      expect(() => registerPalette('acme brand', ['#000000'])).toThrow(
+        /no spaces/
+      );
+    });
+
+    it('should reject invalid colors', () => {
+      expect(() => registerPalette('acme-brand', ['#ff0066', 'bleu'])).toThrow(
+        'Invalid color "bleu" at palette entry 2'
+      );
+      expect(resolvePalette('acme-brand')).toBeNull();
+    });
+
+    it('should be removed by unregisterPalette', () => {
+      registerPalette('acme-brand', ['#ff0066']);
+
+      expect(unregisterPalette('acme-brand')).toBe(true);
+      expect(resolvePalette('acme-brand')).toBeNull();
+      expect(unregisterPalette('acme-brand')).toBe(false);
+    });
+  });
+
+  describe('validatePalette', () => {
+    it('should return the stops as strings', () => {
+      expect(
+        validatePalette([
+          'rgb(255 0 102)',
+          { color: 'hsl(195, 100%, 50%)', position: '70%' },
+        ])
+      ).toEqual(['rgb(255 0 102)', 'hsl(195, 100%, 50%) 70%']);
+    });
+
+    it('should name the first invalid entry', () => {
+      let error: unknown;
+      try {
+        validatePalette(['#ff0066', '#00ccff 50%', '#12345 80%', 'bleu']);
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(ColorError);
+      expect(error).toMatchObject({
+        color: '#12345',
+        index: 2,
+        message:
+          'Invalid color "#12345" at palette entry 3: hex colors must have 3, 4, 6 or 8 digits',
+      });
+    });
+  });
+
+  describe('color operations', () => {
+    it('should lighten and darken in HSL', () => {
+      expect(lighten(['#ff0000', '#008000 40%'], 0.2)).toEqual([
+        '#ff6666',
+        '#00e600 40%',
+      ]);
+      expect(darken(['#ff0000'], 0.2)).toEqual(['#990000']);
+      expect(darken(['#ff0000'], 2)).toEqual(['#000000']);
+    });
+
+    it('should saturate, desaturate and rotate the hue', () => {
+      expect(saturate(['#bf4040'], 0.25)).toEqual(['#df2020']);
+      expect(saturate(['#ff0000'], -1)).toEqual(['#808080']);
+      expect(rotateHue(['#ff0000'], 120)).toEqual(['#00ff00']);
+      expect(rotateHue(['#ff0000'], -120)).toEqual(['#0000ff']);
+    });
+
+    it('should mix toward another color', () => {
+      expect(
+        mix(['#000000', { color: '#ff0000', position: 0.5 }], '#ffffff')
+      ).toEqual(['#808080', '#ff8080 50%']);
+      expect(() => mix(['#000000'], 'bleu')).toThrow(ColorError);
+    });
+  });
+
+  describe('mirror and loop', () => {
+    it('should run the colors back to the start', () => {
+      expect(mirror(['#ff0000', '#00ff00', '#0000ff'])).toEqual([
+        '#ff0000',
+        '#00ff00',
+        '#0000ff',
+        '#00ff00',
+        '#ff0000',
+      ]);
+      expect(loop(['#ff0000', '#00ff00', '#0000ff'])).toEqual([
+        '#ff0000',
+        '#00ff00',
+        '#0000ff',
+        '#ff0000',
+      ]);
+    });
+
+    it('should squeeze positioned stops into place', () => {
+      expect(mirror(['#ff0000', '#0000ff 80%'])).toEqual([
+        '#ff0000 0%',
+        '#0000ff 40%',
+        '#ff0000 100%',
+      ]);
+      expect(loop(['#ff0000', '#0000ff 50%'])).toEqual([
+        '#ff0000 0%',
+        '#0000ff 25%',
+        '#ff0000 100%',
+      ]);
+    });
+  });
+
+  describe('resample', () => {
+    it('should sample evenly spaced colors', () => {
+      expect(resample(['#000000', '#ffffff'], 3)).toEqual([
+        '#000000',
+        '#808080',
+        '#ffffff',
+      ]);
+      expect(resample(['#000000', '#ffffff'], 1)).toEqual(['#000000']);
+    });
+
+    it('should reject counts that are not positive integers', () => {
+      expect(() => resample(['#000000'], 0)).toThrow(
+        'resample count must be a positive integer, got 0'
+      );
+    });
+  });
+
+  describe('parsePaletteTransform and transformPalette', () => {
+    it('should apply the operations in order', () => {
+      expect(
+        transformPalette(['#ff0000', '#0000ff'], 'mirror,darken:20%')
+      ).toEqual(['#990000', '#000099', '#990000']);
+      expect(
+        transformPalette(['#ff0000', '#0000ff'], 'reverse, resample:3')
+      ).toEqual(['#0000ff', '#800080', '#ff0000']);
+    });
+
+    it('should read amounts, angles and mix arguments', () => {
+      const transform = parsePaletteTransform(
+        'rotate-hue:120deg,mix:rgb(255, 255, 255):50%'
+      );
+
+      expect(transform(['#ff0000'])).toEqual(['#80ff80']);
+      expect(transformPalette(['#000000'], 'mix:white')).toEqual(['#808080']);
+    });
+
+    it.each([
+      ['blur', /unknown palette transform "blur"/],
+      ['mirror:2', /palette transform "mirror" takes no argument/],
+      ['darken', /needs an amount such as darken:10%/],
+      ['rotate-hue:a lot', /needs an angle/],
+      ['resample:2.5', /needs a color count/],
+      ['mix', /needs a color/],
+    ])('should reject %s', (spec, message) => {
+      expect(() => parsePaletteTransform(spec)).toThrow(InputError);
+      expect(() => parsePaletteTransform(spec)).toThrow(message);
+    });
+  });
 });
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { renderLogo } from '../src/renderer.js';
+import {
+  colorizeLogoGrid,
+  renderLogo,
+  renderLogoGrid,
+} from '../src/renderer.js';
+import { createGrid } from '../src/grid.js';
+import { stripAnsiCodes } from '../src/utils/stdout.js';
 
 // Mock figlet
 vi.mock('figlet', () => ({
@@ -8,35 +14,24 @@ vi.mock('figlet', () => ({
   },
 }));
 
-// Mock gradient-string
-vi.mock('gradient-string', () => ({
-  default: vi.fn(),
-}));
-
 import figlet from 'figlet';
-import gradient from 'gradient-string';
 
 describe('renderer', () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
-  describe('renderLogo', () => {
-    const mockAsciiArt =
-      ' _____ _____ _____ _____ \n|_   _|  ___|  ___|_   _|\n  | | | |_  | |_    | |  \n  | | |  _| |  _|   | |  \n  |_| |_|   |_|     |_|  ';
-    const mockPalette = ['#ff0000', '#00ff00', '#0000ff'];
+  const mockAsciiArt =
+    ' _____ _____ _____ _____ \n|_   _|  ___|  ___|_   _|\n  | | | |_  | |_    | |  \n  | | |  _| |  _|   | |  \n  |_| |_|   |_|     |_|  ';
+  const mockPalette = ['#ff0000', '#00ff00', '#0000ff'];
 
+  describe('renderLogo', () => {
     beforeEach(() => {
       vi.mocked(figlet.textSync).mockReturnValue(mockAsciiArt);
     });
 
     describe('vertical gradient (default)', () => {
       it('should render with vertical gradient', () => {
-        const mockGradient = {
-          multiline: vi.fn().mockReturnValue('colored ascii art'),
-        };
-        vi.mocked(gradient).mockReturnValue(mockGradient as any);
-
         const result = renderLogo('TEST', mockPalette);
 
         expect(figlet.textSync).toHaveBeenCalledWith('TEST', {
@@ -46,17 +41,11 @@ describe('renderer', () => {
           width: 80,
           whitespaceBreak: true,
         });
-        expect(gradient).toHaveBeenCalledWith(mockPalette);
-        expect(mockGradient.multiline).toHaveBeenCalledWith(mockAsciiArt);
-        expect(result).toBe('colored ascii art');
+        expect(stripAnsiCodes(result)).toBe(mockAsciiArt);
+        expect(result).toContain('\x1b[38;2;255;0;0m');
       });
 
       it('should use custom font', () => {
-        const mockGradient = {
-          multiline: vi.fn().mockReturnValue('colored ascii art'),
-        };
-        vi.mocked(gradient).mockReturnValue(mockGradient as any);
-
         renderLogo('TEST', mockPalette, 'Big');
 
         expect(figlet.textSync).toHaveBeenCalledWith('TEST', {
@@ -67,13 +56,21 @@ describe('renderer', () => {
           whitespaceBreak: true,
         });
       });
+
+      it('should share column colors across all lines', () => {
+        const grid = renderLogoGrid('TEST', mockPalette);
+
+        grid.rows.forEach((row) => {
+          row.forEach((cell, x) => {
+            expect(cell.fg).toBe(grid.rows[0][x].fg);
+          });
+        });
+        expect(grid.rows[0][0].fg).toBe('#ff0000');
+      });
     });
 
     describe('horizontal gradient', () => {
       it('should render with horizontal gradient', () => {
-        const mockGradientFn = vi.fn().mockReturnValue('colored line');
-        vi.mocked(gradient).mockReturnValue(mockGradientFn as any);
-
         const result = renderLogo(
           'TEST',
           mockPalette,
@@ -81,23 +78,40 @@ describe('renderer', () => {
           'horizontal'
         );
 
-        expect(gradient).toHaveBeenCalledWith(mockPalette);
+        expect(stripAnsiCodes(result)).toBe(mockAsciiArt);
+
+        // Each line starts its own gradient from the first palette color
+        const grid = renderLogoGrid(
+          'TEST',
+          mockPalette,
+          'Standard',
+          'horizontal'
+        );
+        grid.rows.forEach((row) => {
+          const firstGlyph = row.find((cell) => cell.glyph.trim() !== '');
+          expect(firstGlyph?.fg).toBe('#ff0000');
+        });
+      });
 
-        // Should call gradient function for each non-empty line
-        const lines = mockAsciiArt.split('\n');
-        const nonEmptyLines = lines.filter((line) => line.trim() !== '');
-        expect(mockGradientFn).toHaveBeenCalledTimes(nonEmptyLines.length);
+      it('should leave whitespace uncolored', () => {
+        const grid = renderLogoGrid(
+          'TEST',
+          mockPalette,
+          'Standard',
+          'horizontal'
+        );
 
-        expect(result).toContain('colored line');
+        grid.rows.flat().forEach((cell) => {
+          if (cell.glyph === ' ') {
+            expect(cell.fg).toBeNull();
+          }
+        });
       });
 
       it('should preserve empty lines', () => {
         const artWithEmptyLines = 'LINE1\n\nLINE3\n\nLINE5';
         vi.mocked(figlet.textSync).mockReturnValue(artWithEmptyLines);
 
-        const mockGradientFn = vi.fn().mockReturnValue('colored');
-        vi.mocked(gradient).mockReturnValue(mockGradientFn as any);
-
         const result = renderLogo(
           'TEST',
           mockPalette,
@@ -105,59 +119,37 @@ describe('renderer', () => {
           'horizontal'
         );
 
-        // Should only call gradient for non-empty lines (3 times)
-        expect(mockGradientFn).toHaveBeenCalledTimes(3);
-        expect(mockGradientFn).toHaveBeenCalledWith('LINE1');
-        expect(mockGradientFn).toHaveBeenCalledWith('LINE3');
-        expect(mockGradientFn).toHaveBeenCalledWith('LINE5');
-
         // Result should maintain line structure
         const resultLines = result.split('\n');
         expect(resultLines).toHaveLength(5);
         expect(resultLines[1]).toBe(''); // Empty line preserved
         expect(resultLines[3]).toBe(''); // Empty line preserved
+        expect(stripAnsiCodes(result)).toBe(artWithEmptyLines);
       });
     });
 
     describe('diagonal gradient', () => {
       it('should render with diagonal gradient', () => {
-        const mockGradientFn = vi.fn().mockReturnValue('colored line');
-        vi.mocked(gradient).mockReturnValue(mockGradientFn as any);
-
         const result = renderLogo('TEST', mockPalette, 'Standard', 'diagonal');
 
-        // Should create a new gradient for each line with shifted palette
-        const lines = mockAsciiArt.split('\n');
-        const nonEmptyLines = lines.filter((line) => line.trim() !== '');
-
-        // First call creates the main gradient function, then one call per non-empty line
-        expect(gradient).toHaveBeenCalledTimes(1 + nonEmptyLines.length);
-        expect(mockGradientFn).toHaveBeenCalledTimes(nonEmptyLines.length);
-
-        expect(result).toContain('colored line');
+        expect(stripAnsiCodes(result)).toBe(mockAsciiArt);
+        expect(result).toContain('\x1b[38;2;');
       });
 
       it('should shift palette colors based on line position', () => {
         const artWithMultipleLines = 'LINE1\nLINE2\nLINE3\nLINE4';
         vi.mocked(figlet.textSync).mockReturnValue(artWithMultipleLines);
 
-        const mockGradientFn = vi.fn().mockReturnValue('colored');
-        vi.mocked(gradient).mockReturnValue(mockGradientFn as any);
-
-        renderLogo('TEST', mockPalette, 'Standard', 'diagonal');
-
-        // Should call gradient with different palette shifts for each line
-        expect(gradient).toHaveBeenCalledTimes(5); // 1 initial + 4 lines
-
-        // Each call should have a shifted version of the palette
-        const gradientCalls = vi.mocked(gradient).mock.calls;
-        expect(gradientCalls).toHaveLength(5);
+        const grid = renderLogoGrid(
+          'TEST',
+          mockPalette,
+          'Standard',
+          'diagonal'
+        );
 
-        // Verify each call has an array of 3 colors (same length as original palette)
-        gradientCalls.forEach((call) => {
-          expect(call[0]).toHaveLength(3);
-          expect(Array.isArray(call[0])).toBe(true);
-        });
+        const firstColors = grid.rows.map((row) => row[0].fg);
+        expect(firstColors[0]).toBe('#ff0000');
+        expect(new Set(firstColors).size).toBeGreaterThan(1);
       });
     });
 
@@ -182,10 +174,6 @@ describe('renderer', () => {
 
       it('should handle empty text input', () => {
         vi.mocked(figlet.textSync).mockReturnValue('');
-        const mockGradient = {
-          multiline: vi.fn().mockReturnValue(''),
-        };
-        vi.mocked(gradient).mockReturnValue(mockGradient as any);
 
         const result = renderLogo('', mockPalette);
 
@@ -197,23 +185,15 @@ describe('renderer', () => {
     describe('edge cases', () => {
       it('should handle single character input', () => {
         vi.mocked(figlet.textSync).mockReturnValue('A');
-        const mockGradient = {
-          multiline: vi.fn().mockReturnValue('A'),
-        };
-        vi.mocked(gradient).mockReturnValue(mockGradient as any);
 
         const result = renderLogo('A', mockPalette);
 
-        expect(result).toBe('A');
+        expect(stripAnsiCodes(result)).toBe('A');
       });
 
       it('should handle very long text', () => {
         const longText = 'A'.repeat(100);
         vi.mocked(figlet.textSync).mockReturnValue('long ascii art');
-        const mockGradient = {
-          multiline: vi.fn().mockReturnValue('colored long ascii art'),
-        };
-        vi.mocked(gradient).mockReturnValue(mockGradient as any);
 
         const result = renderLogo(longText, mockPalette);
 
@@ -221,21 +201,120 @@ describe('renderer', () => {
           longText,
           expect.any(Object)
         );
-        expect(result).toBe('colored long ascii art');
+        expect(stripAnsiCodes(result)).toBe('long ascii art');
       });
 
       it('should handle single color palette', () => {
         const singleColorPalette = ['#ff0000'];
-        const mockGradient = {
-          multiline: vi.fn().mockReturnValue('single color art'),
-        };
-        vi.mocked(gradient).mockReturnValue(mockGradient as any);
 
-        const result = renderLogo('TEST', singleColorPalette);
+        const grid = renderLogoGrid('TEST', singleColorPalette);
+
+        grid.rows.flat().forEach((cell) => {
+          expect(cell.fg).toBe('#ff0000');
+        });
+      });
+    });
+  });
+
+  describe('renderLogoGrid', () => {
+    beforeEach(() => {
+      vi.mocked(figlet.textSync).mockReturnValue(mockAsciiArt);
+    });
+
+    it('should return one row per figlet line', () => {
+      const grid = renderLogoGrid('TEST', mockPalette);
+      const lines = mockAsciiArt.split('\n');
+
+      expect(grid.height).toBe(lines.length);
+      expect(grid.width).toBe(Math.max(...lines.map((line) => line.length)));
+      expect(grid.rows[1].map((cell) => cell.glyph).join('')).toBe(lines[1]);
+    });
+
+    it('should match the serialized output of renderLogo', () => {
+      const grid = renderLogoGrid('TEST', mockPalette, 'Standard', 'diagonal');
+      const result = renderLogo('TEST', mockPalette, 'Standard', 'diagonal');
+
+      const colors = [...result.matchAll(/\x1b\[38;2;(\d+);(\d+);(\d+)m/g)];
+      const hexColors = colors.map(
+        ([, r, g, b]) =>
+          `#${[r, g, b].map((v) => Number(v).toString(16).padStart(2, '0')).join('')}`
+      );
+      for (const color of hexColors) {
+        expect(grid.rows.flat().some((cell) => cell.fg === color)).toBe(true);
+      }
+    });
+  });
+
+  describe('gradient scopes', () => {
+    beforeEach(() => {
+      // Draws every character two columns wide
+      vi.mocked(figlet.textSync).mockImplementation((text: string) =>
+        text
+          .split('\n')
+          .map((line) => [...line].map((char) => char.repeat(2)).join(''))
+          .join('\n')
+      );
+    });
 
-        expect(gradient).toHaveBeenCalledWith(singleColorPalette);
-        expect(result).toBe('single color art');
+    it('should give every letter one color with the glyph scope', () => {
+      const grid = renderLogoGrid('AB C', mockPalette, 'Standard', 'vertical', {
+        gradientScope: 'glyph',
       });
+
+      expect(grid.rows[0].map((cell) => cell.fg)).toEqual([
+        '#ff0000',
+        '#ff0000',
+        '#55aa00',
+        '#55aa00',
+        null,
+        null,
+        '#0000ff',
+        '#0000ff',
+      ]);
+    });
+
+    it('should repeat the gradient across each word', () => {
+      const grid = renderLogoGrid(
+        'AB CD',
+        mockPalette,
+        'Standard',
+        'horizontal',
+        { gradientScope: 'word' }
+      );
+      const colors = grid.rows[0].map((cell) => cell.fg);
+
+      expect(colors.slice(0, 4)).toEqual(colors.slice(6));
+      expect(colors[0]).toBe('#ff0000');
+      expect(colors[3]).toBe('#0000ff');
+    });
+
+    it('should share one gradient across lines with the block scope', () => {
+      const grid = renderLogoGrid(
+        'AB\nA',
+        mockPalette,
+        'Standard',
+        'horizontal',
+        {
+          gradientScope: 'block',
+        }
+      );
+
+      expect(grid.rows[1][1].fg).toBe(grid.rows[0][1].fg);
+      expect(grid.rows[1][1].fg).not.toBe('#0000ff');
+    });
+  });
+
+  describe('colorizeLogoGrid', () => {
+    it('should recolor a grid the same way renderLogoGrid colors it', () => {
+      vi.mocked(figlet.textSync).mockReturnValue(mockAsciiArt);
+
+      for (const direction of ['vertical', 'horizontal', 'diagonal']) {
+        const grid = createGrid(mockAsciiArt);
+
+        expect(colorizeLogoGrid(grid, mockPalette, direction)).toEqual(
+          renderLogoGrid('TEST', mockPalette, 'Standard', direction)
+        );
+      }
     });
   });
 });
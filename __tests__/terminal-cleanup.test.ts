@@ -1,9 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render } from 'ink';
 import { renderInkLogo } from '../src/InkRenderer.js';
 
 vi.mock('ink', () => ({
   render: vi.fn(() => ({
     unmount: vi.fn(),
+    waitUntilExit: vi.fn(() => Promise.resolve()),
   })),
 }));
 
@@ -13,7 +15,6 @@ describe('Terminal cleanup after filled mode', () => {
   const writtenData: string[] = [];
 
   beforeEach(() => {
-    vi.stubEnv('OHMYLOGO_RENDER_TIMEOUT_MS', '0');
     writtenData.length = 0;
     originalWrite = process.stdout.write;
     stdoutWriteSpy = vi
@@ -29,7 +30,6 @@ describe('Terminal cleanup after filled mode', () => {
   afterEach(() => {
     stdoutWriteSpy.mockRestore();
     process.stdout.write = originalWrite;
-    vi.unstubAllEnvs();
   });
 
   it('should output ANSI reset sequences after rendering', async () => {
@@ -99,4 +99,18 @@ describe('Terminal cleanup after filled mode', () => {
     // Verify they are output in sequence (since mocked render doesn't output actual content)
     expect(output).toMatch(/\x1b\[0m.*\x1b\[\?25h.*\x1b\[K/s);
   });
+
+  it('should finish without waiting on a timer', async () => {
+    vi.useFakeTimers();
+
+    try {
+      await renderInkLogo('TEST', ['#ff0000', '#00ff00']);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const instance = vi.mocked(render).mock.results.at(-1)?.value;
+    expect(instance.unmount).toHaveBeenCalledTimes(1);
+    expect(writtenData.join('')).toContain('\x1b[0m');
+  });
 });
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { resolvePalette, unregisterPalette } from '../src/palettes.js';
+import { getUserPalettesPath, loadUserPalettes } from '../src/userPalettes.js';
+
+describe('userPalettes', () => {
+  describe('getUserPalettesPath', () => {
+    it('should prefer OHMYLOGO_PALETTES_FILE', () => {
+      expect(
+        getUserPalettesPath({ OHMYLOGO_PALETTES_FILE: '/tmp/palettes.json' })
+      ).toBe('/tmp/palettes.json');
+    });
+
+    it('should look in the XDG config directory', () => {
+      expect(getUserPalettesPath({ XDG_CONFIG_HOME: '/config' })).toBe(
+        join('/config', 'oh-my-logo', 'palettes.json')
+      );
+    });
+  });
+
+  describe('loadUserPalettes', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'oh-my-logo-'));
+    });
+
+    afterEach(() => {
+      unregisterPalette('acme-brand');
+      unregisterPalette('acme-dark');
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writePalettes = (contents: string) => {
+      const file = join(dir, 'palettes.json');
+      writeFileSync(file, contents);
+      return file;
+    };
+
+    it('should register every palette in the file', () => {
+      const file = writePalettes(
+        JSON.stringify({
+          'acme-brand': ['#ff0066', '#00ccff'],
+          'acme-dark': ['#000000', { color: '#333333', position: '70%' }],
+        })
+      );
+
+      expect(loadUserPalettes(file)).toEqual(['acme-brand', 'acme-dark']);
+      expect(resolvePalette('acme-brand')).toEqual(['#ff0066', '#00ccff']);
+      expect(resolvePalette('acme-dark')).toEqual(['#000000', '#333333 70%']);
+    });
+
+    it('should fail for a missing file it was pointed at', () => {
+      expect(() => loadUserPalettes(join(dir, 'missing.json'))).toThrow(
+        /does not exist/
+      );
+    });
+
+    it('should report files that are not valid JSON', () => {
+      const file = writePalettes('{ "acme-brand": [');
+
+      expect(() => loadUserPalettes(file)).toThrow(/could not be parsed/);
+    });
+
+    it('should report palettes that are not color lists', () => {
+      const file = writePalettes(JSON.stringify({ 'acme-brand': '#ff0066' }));
+
+      expect(() => loadUserPalettes(file)).toThrow(
+        /palette "acme-brand" .* must be a list of colors/
+      );
+    });
+  });
+});
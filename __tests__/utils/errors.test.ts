@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { PaletteError, InputError, FontError } from '../../src/utils/errors.js';
+import {
+  PaletteError,
+  InputError,
+  FontError,
+  ColorError,
+} from '../../src/utils/errors.js';
 
 describe('utils/errors', () => {
   describe('PaletteError', () => {
@@ -42,6 +47,16 @@ describe('utils/errors', () => {
       expect(error.stack).toBeDefined();
       expect(error.stack).toContain('PaletteError');
     });
+
+    it('should explain why a palette is invalid', () => {
+      const error = new PaletteError('brand.gpl', 'line 3 has no color');
+
+      expect(error.message).toBe(
+        'Invalid palette brand.gpl: line 3 has no color'
+      );
+      expect(error.palette).toBe('brand.gpl');
+      expect(error.reason).toBe('line 3 has no color');
+    });
   });
 
   describe('InputError', () => {
@@ -86,6 +101,28 @@ describe('utils/errors', () => {
     });
   });
 
+  describe('ColorError', () => {
+    it('should create error with the color and reason', () => {
+      const error = new ColorError('bleu', 'not a CSS color name');
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('ColorError');
+      expect(error.message).toBe('Invalid color "bleu": not a CSS color name');
+      expect(error.color).toBe('bleu');
+      expect(error.reason).toBe('not a CSS color name');
+      expect(error.index).toBeUndefined();
+    });
+
+    it('should name the palette entry', () => {
+      const error = new ColorError('bleu', 'not a CSS color name', 1);
+
+      expect(error.message).toBe(
+        'Invalid color "bleu" at palette entry 2: not a CSS color name'
+      );
+      expect(error.index).toBe(1);
+    });
+  });
+
   describe('FontError', () => {
     it('should create error with correct message and font name', () => {
       const error = new FontError('invalid-font');
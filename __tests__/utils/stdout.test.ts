@@ -1,5 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { shouldUseColor, stripAnsiCodes } from '../../src/utils/stdout.js';
+import {
+  detectColorLevel,
+  detectTerminalColorLevel,
+  shouldUseColor,
+  stripAnsiCodes,
+} from '../../src/utils/stdout.js';
 
 // Mock process.stdout and process.env
 const mockProcess = {
@@ -98,6 +103,14 @@ describe('utils/stdout', () => {
         expect(result).toBe(false);
       });
 
+      it('should return false when FORCE_COLOR is 0 or false', () => {
+        mockProcess.stdout.isTTY = true;
+        mockProcess.env.FORCE_COLOR = '0';
+        expect(shouldUseColor({})).toBe(false);
+        mockProcess.env.FORCE_COLOR = 'false';
+        expect(shouldUseColor({})).toBe(false);
+      });
+
       it('should prioritize NO_COLOR over FORCE_COLOR', () => {
         mockProcess.env.NO_COLOR = '1';
         mockProcess.env.FORCE_COLOR = '1';
@@ -152,6 +165,73 @@ describe('utils/stdout', () => {
     });
   });
 
+  describe('detectTerminalColorLevel', () => {
+    it.each([
+      [{ COLORTERM: 'truecolor' }, 3],
+      [{ COLORTERM: '24bit', TERM: 'xterm' }, 3],
+      [{ TERM: 'xterm-direct' }, 3],
+      [{ WT_SESSION: 'abc' }, 3],
+      [{ TERM_PROGRAM: 'iTerm.app' }, 3],
+      [{ TERM_PROGRAM: 'Apple_Terminal' }, 2],
+      [{ TERM: 'tmux-256color' }, 2],
+      [{ TERM: 'screen-256color' }, 2],
+      [{ TERM: 'linux' }, 1],
+      [{ TERM: 'xterm' }, 1],
+      [{ TERM: 'dumb' }, 0],
+      [{}, null],
+    ])('should detect %o as %s', (env, level) => {
+      mockProcess.env = env;
+      expect(detectTerminalColorLevel()).toBe(level);
+    });
+  });
+
+  describe('detectColorLevel', () => {
+    it('should return an explicit level as is', () => {
+      mockProcess.stdout.isTTY = false;
+      mockProcess.env.TERM = 'linux';
+      expect(detectColorLevel({ level: 2 })).toBe(2);
+    });
+
+    it('should return 0 when colors are off', () => {
+      mockProcess.stdout.isTTY = false;
+      expect(detectColorLevel({})).toBe(0);
+      mockProcess.stdout.isTTY = true;
+      expect(detectColorLevel({ noColor: true })).toBe(0);
+    });
+
+    it('should use the terminal level when colors are on', () => {
+      mockProcess.env.TERM = 'screen-256color';
+      expect(detectColorLevel({})).toBe(2);
+    });
+
+    it('should turn colors off in a dumb terminal', () => {
+      mockProcess.stdout.isTTY = true;
+      mockProcess.env.TERM = 'dumb';
+      expect(detectColorLevel({})).toBe(0);
+    });
+
+    it('should default to truecolor without terminal hints', () => {
+      expect(detectColorLevel({})).toBe(3);
+    });
+
+    it('should let FORCE_COLOR=1/2/3 pick the level', () => {
+      mockProcess.stdout.isTTY = false;
+      mockProcess.env.TERM = 'xterm-256color';
+      mockProcess.env.FORCE_COLOR = '1';
+      expect(detectColorLevel({})).toBe(1);
+      mockProcess.env.FORCE_COLOR = '3';
+      expect(detectColorLevel({})).toBe(3);
+      mockProcess.env.FORCE_COLOR = 'true';
+      expect(detectColorLevel({})).toBe(2);
+    });
+
+    it('should detect the level when colors are forced', () => {
+      mockProcess.stdout.isTTY = false;
+      mockProcess.env.TERM = 'linux';
+      expect(detectColorLevel({ forceColor: true })).toBe(1);
+    });
+  });
+
   describe('stripAnsiCodes', () => {
     it('should remove basic ANSI color codes', () => {
       const input = '\u001b[31mRed text\u001b[39m';
@@ -0,0 +1,47 @@
+/**
+ * Animation Examples
+ *
+ * This file demonstrates animate() and playAnimation(), which play the
+ * built-in effects in place without clearing the screen.
+ * Run with: deno run --allow-env --allow-read examples/animation.ts
+ */
+
+import {
+  animate,
+  getAnimationEffectNames,
+  mapGrid,
+  playAnimation,
+  type AnimationEffect,
+} from '../dist/lib.js';
+
+const text = Deno.args[0] ?? 'OH MY\nLOGO';
+
+/**
+ * Example 1: Every built-in effect, one after another
+ */
+async function builtInEffectsExample() {
+  for (const effect of getAnimationEffectNames()) {
+    console.log(`\n✨ ${effect}\n`);
+    await playAnimation(
+      animate(text, { palette: 'sunset', effect, duration: 1500 })
+    );
+  }
+}
+
+/**
+ * Example 2: A custom effect that blinks the logo three times
+ */
+async function customEffectExample() {
+  const blink: AnimationEffect = ({ grid }, progress) =>
+    Math.floor(progress * 6) % 2 === 0
+      ? grid
+      : mapGrid(grid, (cell) => ({ ...cell, glyph: ' ' }));
+
+  console.log('\n✨ custom blink\n');
+  await playAnimation(
+    animate(text, { palette: 'ocean', filled: true, effect: blink })
+  );
+}
+
+await builtInEffectsExample();
+await customEffectExample();
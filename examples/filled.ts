@@ -2,7 +2,7 @@
  * Filled Character Rendering Examples
  *
  * This file demonstrates the renderFilled() function which creates solid block
- * characters using React/Ink instead of traditional ASCII art.
+ * characters using cfonts instead of traditional ASCII art.
  * Run with: deno run examples/filled.ts
  */
 
@@ -21,7 +21,7 @@ async function basicFilledExample() {
   console.log('🔲 Example 1: Basic Filled Character Rendering\n');
 
   console.log("Rendering 'FILLED' with default settings...");
-  await renderFilled('FILLED');
+  console.log(await renderFilled('FILLED'));
 
   console.log('\n' + '='.repeat(50) + '\n');
 }
@@ -37,7 +37,7 @@ async function paletteComparisonExample() {
 
   for (const palette of palettes) {
     console.log(`Palette: ${palette} (${getPalettePreview(palette)})`);
-    await renderFilled(text, { palette });
+    console.log(await renderFilled(text, { palette }));
     console.log(); // Add some spacing
   }
 
@@ -62,7 +62,7 @@ async function customColorsFilledExample() {
     console.log(`Custom palette: ${name}`);
     console.log(`Colors: ${colors.join(' → ')}`);
 
-    await renderFilled(text, { palette: colors });
+    console.log(await renderFilled(text, { palette: colors }));
     console.log();
   }
 
@@ -76,15 +76,19 @@ async function multiLineFilledExample() {
   console.log('📝 Example 4: Multi-line Filled Text\n');
 
   console.log('Rendering multi-line text: OH MY LOGO');
-  await renderFilled('OH\\nMY\\nLOGO', {
-    palette: 'purple',
-  });
+  console.log(
+    await renderFilled('OH\\nMY\\nLOGO', {
+      palette: 'purple',
+    })
+  );
 
   console.log();
   console.log('Rendering with fire palette:');
-  await renderFilled('MULTI\\nLINE', {
-    palette: 'fire',
-  });
+  console.log(
+    await renderFilled('MULTI\\nLINE', {
+      palette: 'fire',
+    })
+  );
 
   console.log('\n' + '='.repeat(50) + '\n');
 }
@@ -103,7 +107,7 @@ async function shortTextExample() {
     const palette = palettes[i];
 
     console.log(`Text: "${text}" with ${palette} palette`);
-    await renderFilled(text, { palette });
+    console.log(await renderFilled(text, { palette }));
     console.log();
   }
 
@@ -129,7 +133,7 @@ async function comparisonExample() {
 
   console.log('\nFilled Block Characters:');
   console.log('-'.repeat(25));
-  await renderFilled(text, { palette });
+  console.log(await renderFilled(text, { palette }));
 
   console.log('\n' + '='.repeat(50) + '\n');
 }
@@ -147,7 +151,7 @@ async function showcaseAllPalettes() {
 
   for (const palette of allPalettes) {
     console.log(`${palette}:`);
-    await renderFilled(text, { palette: palette as PaletteName });
+    console.log(await renderFilled(text, { palette: palette as PaletteName }));
     console.log();
   }
 
@@ -195,7 +199,7 @@ function delay(ms: number): Promise<void> {
  */
 async function main() {
   console.log('🔲 oh-my-logo Filled Character Examples\n');
-  console.log('Exploring solid block character rendering with React/Ink!\n');
+  console.log('Exploring solid block character rendering!\n');
   console.log('='.repeat(50) + '\n');
 
   try {
@@ -226,14 +230,13 @@ async function main() {
     console.log('✅ All filled character examples completed!');
     console.log('\nKey differences from ASCII rendering:');
     console.log('• Uses solid block characters instead of outlined text');
-    console.log('• Powered by React and Ink for rendering');
+    console.log('• Powered by cfonts block fonts');
     console.log('• Better for bold, impactful text displays');
-    console.log('• Renders directly to stdout (returns void)');
+    console.log('• Returns the rendered logo as a string');
     console.log('\nTry error-handling.ts next for robust error handling!');
   } catch (error) {
     console.error('❌ Error running filled examples:', error);
     console.error("\nMake sure you've run 'npm run build' first!");
-    console.error('Note: Filled rendering requires React/Ink dependencies.');
   }
 }
 
@@ -0,0 +1,156 @@
+import {
+  type GradientOptions,
+  mixColors,
+  sampleGradient,
+} from '../colorizers.js';
+import {
+  formatColorStop,
+  parseColorStop,
+  resolveStopPositions,
+} from '../gradient.js';
+import { isBlankCell, mapGrid, type LogoGrid } from '../grid.js';
+
+export type AnimationEffectName =
+  | 'gradient-shift'
+  | 'typewriter'
+  | 'shimmer'
+  | 'fade-in'
+  | 'rainbow';
+
+export interface EffectContext {
+  /** The logo as a static render shows it. */
+  grid: LogoGrid;
+  /** Palette colors the logo was rendered with. */
+  colors: string[];
+  /** Recolors the logo glyphs with another palette, keeping the direction. */
+  colorize: (colors: string[]) => LogoGrid;
+  /** Gradient options the logo was rendered with. */
+  gradient?: GradientOptions;
+}
+
+/**
+ * Produces the grid for one frame. `progress` runs from 0 at the first frame
+ * to 1 at the last. Effects are pure, so the same progress always yields the
+ * same frame.
+ */
+export type AnimationEffect = (
+  context: EffectContext,
+  progress: number
+) => LogoGrid;
+
+const SHIMMER_COLOR = '#ffffff';
+const FADE_FROM = '#000000';
+
+/**
+ * Scrolls the gradient across the logo once by moving its stop positions.
+ * Colors pushed off the end wrap around to the start, so the first frame
+ * matches the static logo.
+ */
+function gradientShift(
+  { colors, colorize, gradient = {} }: EffectContext,
+  progress: number
+) {
+  const offset = progress % 1;
+  if (colors.length < 2 || offset === 0) {
+    return colorize(colors);
+  }
+
+  const parsed = colors.map(parseColorStop);
+  const positions = resolveStopPositions(
+    parsed.map(({ position }) => position)
+  );
+  const stops = parsed.map(({ color }, index) => ({
+    color,
+    position: positions[index],
+  }));
+  // The gradient holds its end colors up to the edges
+  if (stops[0].position > 0) {
+    stops.unshift({ color: stops[0].color, position: 0 });
+  }
+  if (stops[stops.length - 1].position < 1) {
+    stops.push({ color: stops[stops.length - 1].color, position: 1 });
+  }
+
+  // Where the gradient is cut, the part after it wraps to the start
+  const cut = 1 - offset;
+  const next = stops.findIndex(({ position }) => position > cut);
+  const before = stops[next - 1];
+  const after = stops[next];
+  const seam = mixColors(
+    before.color,
+    after.color,
+    (cut - before.position) / (after.position - before.position),
+    { interpolation: gradient.interpolation, huePath: gradient.huePath }
+  );
+
+  const shifted = [
+    { color: seam, position: 0 },
+    ...stops
+      .slice(next)
+      .map(({ color, position }) => ({ color, position: position - cut })),
+    ...stops.slice(0, next).map(({ color, position }) => ({
+      color,
+      position: Math.min(position + offset, 1),
+    })),
+    { color: seam, position: 1 },
+  ];
+
+  return colorize(shifted.map(formatColorStop));
+}
+
+/** Reveals the logo column by column from the left. */
+function typewriter({ grid }: EffectContext, progress: number) {
+  const visibleColumns = Math.round(progress * grid.width);
+
+  return mapGrid(grid, (cell, x) =>
+    x < visibleColumns ? cell : { ...cell, glyph: ' ', fg: null }
+  );
+}
+
+/** Sweeps a bright diagonal band across the logo. */
+function shimmer({ grid }: EffectContext, progress: number) {
+  const band = Math.max(3, Math.round(grid.width / 8));
+  const travel = grid.width + grid.height + band * 2;
+  const center = progress * travel - band;
+
+  return mapGrid(grid, (cell, x, y) => {
+    const distance = Math.abs(x + y - center);
+    if (!cell.fg || isBlankCell(cell) || distance >= band) {
+      return cell;
+    }
+
+    const strength = (1 - distance / band) * 0.8;
+    return { ...cell, fg: mixColors(cell.fg, SHIMMER_COLOR, strength) };
+  });
+}
+
+/** Fades the colors in from black. */
+function fadeIn({ grid }: EffectContext, progress: number) {
+  return mapGrid(grid, (cell) =>
+    cell.fg ? { ...cell, fg: mixColors(FADE_FROM, cell.fg, progress) } : cell
+  );
+}
+
+/** Cycles a rainbow through the logo, ignoring the palette. */
+function rainbow({ colorize }: EffectContext, progress: number) {
+  const wheel = sampleGradient([], 360);
+  const offset = Math.round(progress * 360);
+  const stops = Array.from(
+    { length: 7 },
+    (_, index) => wheel[(offset + index * 60) % 360]
+  );
+
+  return colorize(stops);
+}
+
+export const ANIMATION_EFFECTS: Record<AnimationEffectName, AnimationEffect> = {
+  'gradient-shift': gradientShift,
+  typewriter,
+  shimmer,
+  'fade-in': fadeIn,
+  rainbow,
+};
+
+export function getAnimationEffectNames(): AnimationEffectName[] {
+  return Object.keys(ANIMATION_EFFECTS) as AnimationEffectName[];
+}
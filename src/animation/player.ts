@@ -0,0 +1,150 @@
+import type { ColorLevel, DitherMethod } from '../colorLevel.js';
+import { gridToAnsi, gridToText } from '../grid.js';
+import type { AnimationFrame } from './timeline.js';
+
+export interface TerminalOutputOptions {
+  /** Draw colored frames. When false, only the glyphs are drawn. */
+  color?: boolean;
+  /** Color level of colored frames. Defaults to truecolor. */
+  colorLevel?: ColorLevel;
+  /** Dithering used when `colorLevel` reduces the colors. */
+  dither?: DitherMethod;
+}
+
+export interface PlayAnimationOptions extends TerminalOutputOptions {
+  /** Where frames are drawn. Defaults to `process.stdout`. */
+  stream?: NodeJS.WriteStream;
+  /** Stops playback early, leaving the last drawn frame on screen. */
+  signal?: AbortSignal;
+}
+
+/** A piece of terminal output and when to write it. */
+export interface TerminalChunk {
+  /** Milliseconds from the start of playback. */
+  time: number;
+  data: string;
+  kind: 'start' | 'frame' | 'end';
+}
+
+const HIDE_CURSOR = '\x1b[?25l';
+const SHOW_CURSOR = '\x1b[?25h';
+const RESET = '\x1b[0m';
+const CLEAR_LINE_END = '\x1b[K';
+
+function restoreTerminal(stream: NodeJS.WriteStream): void {
+  stream.write(`${RESET}${SHOW_CURSOR}`);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Converts frames to the exact terminal output that draws them. Each frame
+ * after the first moves the cursor back to the top of the logo and redraws
+ * it in place instead of clearing the screen.
+ */
+export async function* renderTerminalChunks(
+  frames: Iterable<AnimationFrame> | AsyncIterable<AnimationFrame>,
+  options: TerminalOutputOptions = {}
+): AsyncGenerator<TerminalChunk> {
+  const { color = true, colorLevel, dither } = options;
+  let drawnHeight = 0;
+  let lastTime = 0;
+
+  yield { time: 0, data: HIDE_CURSOR, kind: 'start' };
+
+  for await (const frame of frames) {
+    const content = color
+      ? gridToAnsi(frame.grid, colorLevel, dither)
+      : gridToText(frame.grid);
+    const lines = content.split('\n');
+    let data = '';
+
+    if (drawnHeight > 1) {
+      data += `\x1b[${drawnHeight - 1}A`;
+    }
+    if (drawnHeight > 0) {
+      data += '\r';
+    }
+
+    data += lines.map((line) => line + CLEAR_LINE_END).join('\n');
+    drawnHeight = lines.length;
+    lastTime = frame.time;
+
+    yield { time: frame.time, data, kind: 'frame' };
+  }
+
+  yield {
+    time: lastTime,
+    data: `${drawnHeight > 0 ? '\n' : ''}${RESET}${SHOW_CURSOR}`,
+    kind: 'end',
+  };
+}
+
+/**
+ * Draws frames in place at their timeline `time`. The cursor and colors are
+ * restored when playback ends, is aborted, or the process is interrupted.
+ */
+export async function playAnimation(
+  frames: Iterable<AnimationFrame> | AsyncIterable<AnimationFrame>,
+  options: PlayAnimationOptions = {}
+): Promise<void> {
+  const { stream = process.stdout, signal, ...outputOptions } = options;
+
+  // Ctrl+C would otherwise leave the cursor hidden
+  const onInterrupt = () => {
+    restoreTerminal(stream);
+    stream.write('\n');
+    process.exit(130);
+  };
+
+  process.once('SIGINT', onInterrupt);
+
+  const start = Date.now();
+  let drawn = false;
+  let ended = false;
+
+  try {
+    for await (const chunk of renderTerminalChunks(frames, outputOptions)) {
+      if (signal?.aborted) {
+        break;
+      }
+
+      const delay = chunk.time - (Date.now() - start);
+      if (delay > 0) {
+        await sleep(delay, signal);
+        if (signal?.aborted) {
+          break;
+        }
+      }
+
+      stream.write(chunk.data);
+      drawn ||= chunk.kind === 'frame';
+      ended = chunk.kind === 'end';
+    }
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+    if (!ended) {
+      if (drawn) {
+        stream.write('\n');
+      }
+      restoreTerminal(stream);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import type { LogoGrid } from '../grid.js';
+import { InputError } from '../utils/errors.js';
+import {
+  ANIMATION_EFFECTS,
+  type AnimationEffect,
+  type AnimationEffectName,
+  type EffectContext,
+} from './effects.js';
+
+export interface TimelineOptions {
+  /** Built-in effect name, or a custom effect function. */
+  effect?: AnimationEffectName | AnimationEffect;
+  /** Frames per second. */
+  fps?: number;
+  /** Length of one pass in milliseconds. */
+  duration?: number;
+  /** Number of passes to play; `Infinity` loops forever. */
+  loop?: number;
+}
+
+export interface AnimationFrame {
+  /** Position of the frame across all loops, starting at 0. */
+  index: number;
+  /** Which pass the frame belongs to, starting at 0. */
+  loop: number;
+  /** When the frame should be shown, in milliseconds from the start. */
+  time: number;
+  /** Progress through the current pass, from 0 to 1. */
+  progress: number;
+  grid: LogoGrid;
+}
+
+export const DEFAULT_ANIMATION_EFFECT: AnimationEffectName = 'gradient-shift';
+export const DEFAULT_FPS = 30;
+export const DEFAULT_ANIMATION_DURATION_MS = 2000;
+
+function resolveEffect(
+  effect: AnimationEffectName | AnimationEffect
+): AnimationEffect {
+  if (typeof effect === 'function') {
+    return effect;
+  }
+
+  if (!Object.hasOwn(ANIMATION_EFFECTS, effect)) {
+    throw new InputError(
+      `unknown animation effect "${effect}" (expected one of: ${Object.keys(ANIMATION_EFFECTS).join(', ')})`
+    );
+  }
+
+  return ANIMATION_EFFECTS[effect];
+}
+
+export function getFrameCount(fps: number, duration: number): number {
+  return Math.max(1, Math.round((duration / 1000) * fps));
+}
+
+/**
+ * Yields the frames of an animation in order. Frames only depend on their
+ * position in the timeline, never on the wall clock, so a timeline can be
+ * replayed or inspected frame by frame.
+ */
+export function* createTimeline(
+  context: EffectContext,
+  options: TimelineOptions = {}
+): Generator<AnimationFrame> {
+  const {
+    effect = DEFAULT_ANIMATION_EFFECT,
+    fps = DEFAULT_FPS,
+    duration = DEFAULT_ANIMATION_DURATION_MS,
+    loop = 1,
+  } = options;
+
+  if (!(fps > 0) || !Number.isFinite(fps)) {
+    throw new InputError('fps must be a positive number');
+  }
+  if (!(duration >= 0) || !Number.isFinite(duration)) {
+    throw new InputError('duration must be 0 or greater');
+  }
+  if (!(loop >= 1) || (Number.isFinite(loop) && !Number.isInteger(loop))) {
+    throw new InputError('loop must be a positive integer or Infinity');
+  }
+
+  const apply = resolveEffect(effect);
+  const frameCount = getFrameCount(fps, duration);
+  const frameDuration = 1000 / fps;
+
+  for (let pass = 0; pass < loop; pass += 1) {
+    for (let frame = 0; frame < frameCount; frame += 1) {
+      const index = pass * frameCount + frame;
+      const progress = frameCount === 1 ? 1 : frame / (frameCount - 1);
+
+      yield {
+        index,
+        loop: pass,
+        time: index * frameDuration,
+        progress,
+        grid: apply(context, progress),
+      };
+    }
+  }
+}
@@ -0,0 +1,392 @@
+import { parseCssColor, type ParsedColorSpace } from './colorParser.js';
+import { ColorError } from './utils/errors.js';
+
+/** Red, green and blue channels from 0 to 255. */
+export type Rgb = [number, number, number];
+
+/**
+ * Color space a gradient is blended in. `rgb` mixes the channels directly,
+ * `hsv` turns around the hue wheel, and `lab` and `oklch` blend by perceived
+ * lightness, which keeps the middle of a gradient from turning grey.
+ */
+export type InterpolationSpace = 'rgb' | 'hsv' | 'lab' | 'oklch';
+
+export const INTERPOLATION_SPACES: InterpolationSpace[] = [
+  'rgb',
+  'hsv',
+  'lab',
+  'oklch',
+];
+
+/** Which way around the hue wheel `hsv` and `oklch` blends turn. */
+export type HuePath = 'short' | 'long';
+
+export const HUE_PATHS: HuePath[] = ['short', 'long'];
+
+export interface InterpolationOptions {
+  /** Color space to blend in. Defaults to `rgb`. */
+  interpolation?: InterpolationSpace;
+  /** Hue direction for `hsv` and `oklch`. Defaults to `short`. */
+  huePath?: HuePath;
+}
+
+// Below this saturation or chroma a color has no meaningful hue
+const ACHROMATIC = 1e-4;
+
+// D50 reference white, as CSS uses for lab()
+const D50_WHITE: Rgb = [0.96422, 1, 0.82521];
+
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+/** Converts to hue (0 to 360), saturation and lightness (0 to 1). */
+export function rgbToHsl(rgb: Rgb): Rgb {
+  const [hue, saturation, value] = rgbToHsv(rgb);
+  const lightness = value * (1 - saturation / 2);
+  const range = Math.min(lightness, 1 - lightness);
+  return [hue, range === 0 ? 0 : (value - lightness) / range, lightness];
+}
+
+/** Converts hue (0 to 360), saturation and lightness (0 to 1). */
+export function hslToRgb([hue, saturation, lightness]: Rgb): Rgb {
+  const value = lightness + saturation * Math.min(lightness, 1 - lightness);
+  return hsvToRgb([hue, value === 0 ? 0 : 2 * (1 - lightness / value), value]);
+}
+
+/** Converts hue (0 to 360), whiteness and blackness (0 to 1). */
+export function hwbToRgb([hue, whiteness, blackness]: Rgb): Rgb {
+  if (whiteness + blackness >= 1) {
+    const gray = (whiteness / (whiteness + blackness)) * 255;
+    return [gray, gray, gray];
+  }
+
+  const value = 1 - blackness;
+  return hsvToRgb([hue, 1 - whiteness / value, value]);
+}
+
+const PARSED_SPACES: Record<ParsedColorSpace, (channels: Rgb) => Rgb> = {
+  rgb: (rgb) => rgb,
+  hsl: ([hue, saturation, lightness]) =>
+    hslToRgb([hue, saturation / 100, lightness / 100]),
+  hwb: ([hue, whiteness, blackness]) =>
+    hwbToRgb([hue, whiteness / 100, blackness / 100]),
+  lab: (lab) => labToRgb(lab),
+  oklch: (oklch) => oklchToRgb(oklch),
+};
+
+/**
+ * Parses a CSS color (see `parseCssColor`) to whole sRGB channels, clipping
+ * colors outside the gamut. Alpha is ignored.
+ */
+export function parseColor(color: string): Rgb {
+  const { space, channels } = parseCssColor(color);
+  return PARSED_SPACES[space](channels).map((channel) =>
+    Math.min(255, Math.max(0, Math.round(channel)))
+  ) as Rgb;
+}
+
+/** Whether `parseColor` understands the color. */
+export function isValidColor(color: string): boolean {
+  try {
+    parseColor(color);
+    return true;
+  } catch (error) {
+    if (error instanceof ColorError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/** Formats channels as a hex color, clamping and rounding them first. */
+export function formatHex(rgb: Rgb): string {
+  return `#${rgb
+    .map((channel) =>
+      Math.min(255, Math.max(0, Math.round(channel)))
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('')}`;
+}
+
+function toLinear(channel: number): number {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(value: number): number {
+  const encoded =
+    value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+  return encoded * 255;
+}
+
+function multiply(matrix: number[][], vector: Rgb): Rgb {
+  return matrix.map(
+    (row) => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]
+  ) as Rgb;
+}
+
+/** Converts to hue (0 to 360), saturation and value (0 to 1). */
+export function rgbToHsv(rgb: Rgb): Rgb {
+  const [r, g, b] = rgb.map((channel) => channel / 255);
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+
+  let hue = 0;
+  if (delta > 0) {
+    if (max === r) {
+      hue = ((g - b) / delta) % 6;
+    } else if (max === g) {
+      hue = (b - r) / delta + 2;
+    } else {
+      hue = (r - g) / delta + 4;
+    }
+  }
+
+  return [(hue * 60 + 360) % 360, max === 0 ? 0 : delta / max, max];
+}
+
+export function hsvToRgb([hue, saturation, value]: Rgb): Rgb {
+  const channel = (offset: number) => {
+    const k = (offset + hue / 60) % 6;
+    return (
+      (value - value * saturation * Math.max(0, Math.min(k, 4 - k, 1))) * 255
+    );
+  };
+
+  return [channel(5), channel(3), channel(1)];
+}
+
+const SRGB_TO_XYZ_D50 = [
+  [0.4360747, 0.3850649, 0.1430804],
+  [0.2225045, 0.7168786, 0.0606169],
+  [0.0139322, 0.0971045, 0.7141733],
+];
+
+const XYZ_D50_TO_SRGB = [
+  [3.1338561, -1.6168667, -0.4906146],
+  [-0.9787684, 1.9161415, 0.033454],
+  [0.0719453, -0.2289914, 1.4052427],
+];
+
+/** Converts to CIE Lab with a D50 white point, matching CSS `lab()`. */
+export function rgbToLab(rgb: Rgb): Rgb {
+  const xyz = multiply(SRGB_TO_XYZ_D50, rgb.map(toLinear) as Rgb);
+  const [fx, fy, fz] = xyz.map((value, index) => {
+    const relative = value / D50_WHITE[index];
+    return relative > LAB_EPSILON
+      ? Math.cbrt(relative)
+      : (LAB_KAPPA * relative + 16) / 116;
+  });
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function labToRgb([lightness, a, b]: Rgb): Rgb {
+  const fy = (lightness + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+  const inverse = (f: number) =>
+    f ** 3 > LAB_EPSILON ? f ** 3 : (116 * f - 16) / LAB_KAPPA;
+
+  const xyz: Rgb = [
+    inverse(fx) * D50_WHITE[0],
+    (lightness > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : lightness / LAB_KAPPA) *
+      D50_WHITE[1],
+    inverse(fz) * D50_WHITE[2],
+  ];
+
+  return multiply(XYZ_D50_TO_SRGB, xyz).map(fromLinear) as Rgb;
+}
+
+/** Converts to OKLCH: lightness (0 to 1), chroma and hue (0 to 360). */
+export function rgbToOklch(rgb: Rgb): Rgb {
+  const [r, g, b] = rgb.map(toLinear);
+  const [l, m, s] = [
+    0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b,
+    0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b,
+    0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b,
+  ].map(Math.cbrt);
+
+  const lightness = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+  const hue = (Math.atan2(bAxis, a) * 180) / Math.PI;
+
+  return [lightness, Math.hypot(a, bAxis), (hue + 360) % 360];
+}
+
+function oklchToLinear([lightness, chroma, hue]: Rgb): Rgb {
+  const radians = (hue * Math.PI) / 180;
+  const a = chroma * Math.cos(radians);
+  const b = chroma * Math.sin(radians);
+
+  const [l, m, s] = [
+    lightness + 0.3963377774 * a + 0.2158037573 * b,
+    lightness - 0.1055613458 * a - 0.0638541728 * b,
+    lightness - 0.0894841775 * a - 1.291485548 * b,
+  ].map((value) => value ** 3);
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+function inGamut(linear: Rgb): boolean {
+  // Allow for rounding, since formatHex clamps to whole channel values
+  return linear.every((value) => value > -1e-4 && value < 1 + 1e-4);
+}
+
+/**
+ * Converts OKLCH back to RGB. Colors outside the sRGB gamut keep their
+ * lightness and hue and lose chroma until they fit, as CSS gamut mapping
+ * does, instead of clipping each channel.
+ */
+export function oklchToRgb(oklch: Rgb): Rgb {
+  const [lightness, chroma, hue] = oklch;
+  let linear = oklchToLinear(oklch);
+
+  if (!inGamut(linear) && lightness > 0 && lightness < 1) {
+    let low = 0;
+    let high = chroma;
+    for (let step = 0; step < 20; step += 1) {
+      const middle = (low + high) / 2;
+      if (inGamut(oklchToLinear([lightness, middle, hue]))) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    linear = oklchToLinear([lightness, low, hue]);
+  }
+
+  return linear.map(fromLinear) as Rgb;
+}
+
+interface ColorSpace {
+  fromRgb: (rgb: Rgb) => Rgb;
+  toRgb: (coords: Rgb) => Rgb;
+  /** Index of the hue channel, for cylindrical spaces. */
+  hue?: number;
+  /** Index of the channel that is zero when the hue is meaningless. */
+  chroma?: number;
+}
+
+const COLOR_SPACES: Record<InterpolationSpace, ColorSpace> = {
+  rgb: { fromRgb: (rgb) => rgb, toRgb: (rgb) => rgb },
+  hsv: { fromRgb: rgbToHsv, toRgb: hsvToRgb, hue: 0, chroma: 1 },
+  lab: { fromRgb: rgbToLab, toRgb: labToRgb },
+  oklch: { fromRgb: rgbToOklch, toRgb: oklchToRgb, hue: 2, chroma: 1 },
+};
+
+/**
+ * Returns how far the hue turns from `from` to `to`, following the CSS
+ * `shorter` and `longer` hue interpolation rules. A long path between equal
+ * hues goes all the way around.
+ */
+function hueDelta(from: number, to: number, path: HuePath): number {
+  const delta = to - from;
+
+  if (path === 'long') {
+    if (delta > 0 && delta < 180) {
+      return delta - 360;
+    }
+    if (delta > -180 && delta <= 0) {
+      return delta + 360;
+    }
+    return delta;
+  }
+
+  if (delta > 180) {
+    return delta - 360;
+  }
+  if (delta < -180) {
+    return delta + 360;
+  }
+  return delta;
+}
+
+/**
+ * Builds a function that returns the color at a position (0 to 1) along
+ * `colors`. Stops are spread evenly unless `positions` gives each one a
+ * place; stops sharing a position make a hard edge. Colors are converted
+ * once, so sampling many positions stays cheap.
+ */
+export function createInterpolator(
+  colors: string[],
+  options: InterpolationOptions = {},
+  positions?: number[]
+): (position: number) => string {
+  const { interpolation = 'rgb', huePath = 'short' } = options;
+  const space = COLOR_SPACES[interpolation];
+  const single = colors.length === 1;
+  const stops = (single ? [colors[0], colors[0]] : colors).map((color) =>
+    space.fromRgb(parseColor(color))
+  );
+  const segments = stops.length - 1;
+  const places =
+    positions && !single
+      ? positions
+      : stops.map((_, index) => index / segments);
+
+  if (space.hue !== undefined && space.chroma !== undefined) {
+    const { hue, chroma } = space;
+    // Grays take the hue of a neighbouring stop so they don't tint the blend
+    const hued = stops.filter((stop) => stop[chroma] >= ACHROMATIC);
+    stops.forEach((stop, index) => {
+      if (stop[chroma] < ACHROMATIC) {
+        const neighbour =
+          stops.slice(index + 1).find((next) => next[chroma] >= ACHROMATIC) ??
+          hued[hued.length - 1];
+        stop[hue] = neighbour ? neighbour[hue] : 0;
+      }
+    });
+  }
+
+  return (position: number) => {
+    const clamped = Math.min(1, Math.max(0, position));
+    let index = 0;
+    while (index < segments - 1 && clamped >= places[index + 1]) {
+      index += 1;
+    }
+
+    const span = places[index + 1] - places[index];
+    const amount =
+      span > 0
+        ? Math.min(1, Math.max(0, (clamped - places[index]) / span))
+        : clamped < places[index]
+          ? 0
+          : 1;
+    const from = stops[index];
+    const to = stops[index + 1];
+
+    const coords = from.map((channel, channelIndex) => {
+      const delta =
+        channelIndex === space.hue
+          ? hueDelta(channel, to[channelIndex], huePath)
+          : to[channelIndex] - channel;
+      return channel + delta * amount;
+    }) as Rgb;
+
+    if (space.hue !== undefined) {
+      coords[space.hue] = ((coords[space.hue] % 360) + 360) % 360;
+    }
+
+    return formatHex(space.toRgb(coords));
+  };
+}
+
+/**
+ * Blends `from` toward `to` in the given color space; an amount of 0 returns
+ * `from` and 1 returns `to`.
+ */
+export function interpolateColor(
+  from: string,
+  to: string,
+  amount: number,
+  options: InterpolationOptions = {}
+): string {
+  return createInterpolator([from, to], options)(amount);
+}
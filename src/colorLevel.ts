@@ -0,0 +1,239 @@
+/**
+ * How many colors a terminal can show: 0 for none, 1 for the 16 basic ANSI
+ * colors, 2 for the xterm 256-color palette, and 3 for 24-bit truecolor.
+ */
+export type ColorLevel = 0 | 1 | 2 | 3;
+
+export const TRUECOLOR_LEVEL = 3 satisfies ColorLevel;
+
+/**
+ * How colors are spread when they are reduced to a smaller palette: `bayer`
+ * adds a fixed 4x4 threshold pattern, `floyd` pushes each cell's rounding
+ * error onto its neighbours (Floyd-Steinberg), and `none` picks the nearest
+ * color.
+ */
+export type DitherMethod = 'none' | 'bayer' | 'floyd';
+
+export const DITHER_METHODS: DitherMethod[] = ['none', 'bayer', 'floyd'];
+
+type Rgb = [number, number, number];
+
+// xterm's default values for the 16 basic colors
+const ANSI_16_COLORS: Rgb[] = [
+  [0, 0, 0],
+  [205, 0, 0],
+  [0, 205, 0],
+  [205, 205, 0],
+  [0, 0, 238],
+  [205, 0, 205],
+  [0, 205, 205],
+  [229, 229, 229],
+  [127, 127, 127],
+  [255, 0, 0],
+  [0, 255, 0],
+  [255, 255, 0],
+  [92, 92, 255],
+  [255, 0, 255],
+  [0, 255, 255],
+  [255, 255, 255],
+];
+
+// Channel values of the 6x6x6 color cube in the 256-color palette
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+function hexToRgb(hex: string): Rgb {
+  const value = Number.parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+// Ordered dithering thresholds, 0 to 15
+const BAYER_MATRIX = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+// Roughly the distance between neighbouring palette colors at each level
+const DITHER_SPREAD: Record<1 | 2, number> = { 1: 128, 2: 40 };
+
+function rgbToHex(rgb: Rgb): string {
+  return `#${rgb.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+function distance(a: Rgb, b: Rgb): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+function nearestCubeIndex(channel: number): number {
+  let best = 0;
+  CUBE_LEVELS.forEach((level, index) => {
+    if (Math.abs(level - channel) < Math.abs(CUBE_LEVELS[best] - channel)) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+/** Returns the RGB value of an xterm 256-color palette index. */
+export function ansi256ToRgb(index: number): Rgb {
+  if (index < 16) {
+    return [...ANSI_16_COLORS[index]];
+  }
+  if (index >= 232) {
+    const gray = 8 + (index - 232) * 10;
+    return [gray, gray, gray];
+  }
+
+  const cube = index - 16;
+  return [
+    CUBE_LEVELS[Math.floor(cube / 36)],
+    CUBE_LEVELS[Math.floor(cube / 6) % 6],
+    CUBE_LEVELS[cube % 6],
+  ];
+}
+
+/**
+ * Finds the closest color in the 256-color palette. Only the color cube and
+ * the gray ramp are used, since terminals theme the first 16 colors.
+ */
+export function rgbToAnsi256(rgb: Rgb): number {
+  const [r, g, b] = rgb.map(nearestCubeIndex);
+  const cubeIndex = 16 + r * 36 + g * 6 + b;
+
+  const average = (rgb[0] + rgb[1] + rgb[2]) / 3;
+  const grayStep = Math.min(23, Math.max(0, Math.round((average - 8) / 10)));
+  const grayIndex = 232 + grayStep;
+
+  return distance(rgb, ansi256ToRgb(grayIndex)) <
+    distance(rgb, ansi256ToRgb(cubeIndex))
+    ? grayIndex
+    : cubeIndex;
+}
+
+/** Finds the closest of the 16 basic ANSI colors. */
+export function rgbToAnsi16(rgb: Rgb): number {
+  let best = 0;
+  ANSI_16_COLORS.forEach((color, index) => {
+    if (distance(rgb, color) < distance(rgb, ANSI_16_COLORS[best])) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+function quantizeRgb(rgb: Rgb, level: 1 | 2): Rgb {
+  const clamped = rgb.map((channel) =>
+    Math.min(255, Math.max(0, Math.round(channel)))
+  ) as Rgb;
+
+  return level === 1
+    ? [...ANSI_16_COLORS[rgbToAnsi16(clamped)]]
+    : ansi256ToRgb(rgbToAnsi256(clamped));
+}
+
+/**
+ * Returns the color a terminal with the given level would show for a hex
+ * color, or null when the level has no colors.
+ */
+export function quantizeColor(hex: string, level: ColorLevel): string | null {
+  switch (level) {
+    case 0:
+      return null;
+    case 1:
+    case 2:
+      return rgbToHex(quantizeRgb(hexToRgb(hex), level));
+    default:
+      return hex;
+  }
+}
+
+/**
+ * Quantizes rows of colors, one color per cell, with the given dither
+ * method. Null entries are left alone and never receive diffused error, so
+ * gaps between glyphs don't bleed into them.
+ */
+export function ditherColors(
+  rows: Array<Array<string | null>>,
+  level: ColorLevel,
+  method: DitherMethod = 'none'
+): Array<Array<string | null>> {
+  if (level === 0 || level === TRUECOLOR_LEVEL || method === 'none') {
+    return rows.map((row) =>
+      row.map((color) => color && quantizeColor(color, level))
+    );
+  }
+
+  const spread = DITHER_SPREAD[level];
+
+  if (method === 'bayer') {
+    return rows.map((row, y) =>
+      row.map((color, x) => {
+        if (!color) {
+          return color;
+        }
+        const offset = ((BAYER_MATRIX[y % 4][x % 4] + 0.5) / 16 - 0.5) * spread;
+        const rgb = hexToRgb(color).map((channel) => channel + offset) as Rgb;
+        return rgbToHex(quantizeRgb(rgb, level));
+      })
+    );
+  }
+
+  const pending: Array<Array<Rgb | null>> = rows.map((row) =>
+    row.map((color) => (color ? hexToRgb(color) : null))
+  );
+  const diffuse = (x: number, y: number, error: Rgb, weight: number) => {
+    const target = pending[y]?.[x];
+    if (target) {
+      for (let channel = 0; channel < 3; channel += 1) {
+        target[channel] += error[channel] * weight;
+      }
+    }
+  };
+
+  return pending.map((row, y) =>
+    row.map((rgb, x) => {
+      if (!rgb) {
+        return null;
+      }
+
+      const quantized = quantizeRgb(rgb, level);
+      const error = rgb.map(
+        (channel, index) => channel - quantized[index]
+      ) as Rgb;
+      diffuse(x + 1, y, error, 7 / 16);
+      diffuse(x - 1, y + 1, error, 3 / 16);
+      diffuse(x, y + 1, error, 5 / 16);
+      diffuse(x + 1, y + 1, error, 1 / 16);
+
+      return rgbToHex(quantized);
+    })
+  );
+}
+
+/**
+ * Returns the SGR parameters that set a foreground or background color at
+ * the given level, or null when the level has no colors.
+ */
+export function getColorCode(
+  hex: string,
+  level: ColorLevel,
+  layer: 'fg' | 'bg'
+): string | null {
+  const rgb = hexToRgb(hex);
+
+  switch (level) {
+    case 0:
+      return null;
+    case 1: {
+      const index = rgbToAnsi16(rgb);
+      const base = layer === 'fg' ? 30 : 40;
+      // Bright colors use the 90-97 and 100-107 ranges
+      return String(index < 8 ? base + index : base + 60 + index - 8);
+    }
+    case 2:
+      return `${layer === 'fg' ? 38 : 48};5;${rgbToAnsi256(rgb)}`;
+    default:
+      return `${layer === 'fg' ? 38 : 48};2;${rgb.join(';')}`;
+  }
+}
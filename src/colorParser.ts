@@ -0,0 +1,229 @@
+import { NAMED_COLORS } from './namedColors.js';
+import { ColorError } from './utils/errors.js';
+
+/** Color spaces of the CSS color syntaxes `parseCssColor` reads. */
+export type ParsedColorSpace = 'rgb' | 'hsl' | 'hwb' | 'lab' | 'oklch';
+
+export interface ParsedColor {
+  space: ParsedColorSpace;
+  /**
+   * Red, green and blue from 0 to 255 for `rgb`; hue in degrees and two
+   * percentages from 0 to 100 for `hsl` and `hwb`; lightness from 0 to 100,
+   * a and b for `lab`; lightness from 0 to 1, chroma and hue for `oklch`.
+   */
+  channels: [number, number, number];
+  /** Opacity from 0 to 1. */
+  alpha: number;
+}
+
+interface Channel {
+  name: string;
+  /** The value 100% stands for; channels without one take no percentages. */
+  percent?: number;
+  /** Hues also take angle units. */
+  hue?: boolean;
+  min?: number;
+  max?: number;
+}
+
+const HUE: Channel = { name: 'hue', hue: true };
+
+const ALPHA: Channel = { name: 'alpha', percent: 1, min: 0, max: 1 };
+
+// Channels of each color function, named after the CSS syntax
+const FUNCTIONS: Record<
+  string,
+  { space: ParsedColorSpace; channels: Channel[] }
+> = {
+  rgb: {
+    space: 'rgb',
+    channels: ['red', 'green', 'blue'].map((name) => ({
+      name,
+      percent: 255,
+      min: 0,
+      max: 255,
+    })),
+  },
+  hsl: {
+    space: 'hsl',
+    channels: [
+      HUE,
+      { name: 'saturation', percent: 100, min: 0, max: 100 },
+      { name: 'lightness', percent: 100, min: 0, max: 100 },
+    ],
+  },
+  hwb: {
+    space: 'hwb',
+    channels: [
+      HUE,
+      { name: 'whiteness', percent: 100, min: 0, max: 100 },
+      { name: 'blackness', percent: 100, min: 0, max: 100 },
+    ],
+  },
+  lab: {
+    space: 'lab',
+    channels: [
+      { name: 'lightness', percent: 100, min: 0, max: 100 },
+      { name: 'a', percent: 125 },
+      { name: 'b', percent: 125 },
+    ],
+  },
+  oklch: {
+    space: 'oklch',
+    channels: [
+      { name: 'lightness', percent: 1, min: 0, max: 1 },
+      { name: 'chroma', percent: 0.4, min: 0 },
+      HUE,
+    ],
+  },
+};
+
+// Legacy aliases that behave exactly like the functions they name
+FUNCTIONS.rgba = FUNCTIONS.rgb;
+FUNCTIONS.hsla = FUNCTIONS.hsl;
+
+const ANGLE_UNITS: Record<string, number> = {
+  deg: 1,
+  grad: 360 / 400,
+  rad: 180 / Math.PI,
+  turn: 360,
+};
+
+const VALUE = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|[a-z]+)?$/i;
+
+function parseHex(color: string, digits: string): ParsedColor {
+  if (!/^[0-9a-f]*$/i.test(digits)) {
+    throw new ColorError(color, 'hex colors may only contain 0-9 and a-f');
+  }
+  if (![3, 4, 6, 8].includes(digits.length)) {
+    throw new ColorError(color, 'hex colors must have 3, 4, 6 or 8 digits');
+  }
+
+  const full =
+    digits.length <= 4
+      ? [...digits].map((digit) => digit.repeat(2)).join('')
+      : digits;
+  const [r, g, b, a = 255] = (full.match(/../g) as string[]).map((pair) =>
+    Number.parseInt(pair, 16)
+  );
+  return { space: 'rgb', channels: [r, g, b], alpha: a / 255 };
+}
+
+function parseValue(color: string, token: string, channel: Channel): number {
+  if (token.toLowerCase() === 'none') {
+    return 0;
+  }
+
+  const match = VALUE.exec(token);
+  const unit = match?.[2]?.toLowerCase();
+  const allowed =
+    unit === undefined ||
+    (unit === '%' && channel.percent !== undefined) ||
+    (channel.hue === true && Object.hasOwn(ANGLE_UNITS, unit));
+  if (!match || !allowed) {
+    const expected = channel.hue
+      ? 'a number or angle'
+      : channel.percent === undefined
+        ? 'a number'
+        : 'a number or percentage';
+    throw new ColorError(
+      color,
+      `${channel.name} must be ${expected}, got "${token}"`
+    );
+  }
+
+  const number = Number(match[1]);
+  const value =
+    unit === undefined
+      ? number
+      : unit === '%'
+        ? (number / 100) * (channel.percent as number)
+        : number * ANGLE_UNITS[unit];
+  return Math.min(
+    channel.max ?? Infinity,
+    Math.max(channel.min ?? -Infinity, value)
+  );
+}
+
+function parseFunction(color: string, name: string, body: string): ParsedColor {
+  if (!Object.hasOwn(FUNCTIONS, name)) {
+    throw new ColorError(
+      color,
+      `unsupported color function "${name}()" (expected rgb(), hsl(), hwb(), lab() or oklch())`
+    );
+  }
+
+  const definition = FUNCTIONS[name];
+  // rgb(255, 0, 0, 0.5) or rgb(255 0 0 / 50%)
+  const legacy = body.includes(',');
+  const [main, alpha, extra] = legacy ? [body] : body.split('/');
+  const tokens = (legacy ? main.split(',') : main.trim().split(/\s+/)).map(
+    (token) => token.trim()
+  );
+  const alphaToken = legacy && tokens.length === 4 ? tokens.pop() : alpha;
+
+  if (
+    extra !== undefined ||
+    tokens.length !== 3 ||
+    tokens.some((token) => token === '') ||
+    alphaToken?.trim() === ''
+  ) {
+    throw new ColorError(
+      color,
+      `${name}() takes three values and an optional alpha, as in ${name}(${
+        legacy ? 'a, b, c, alpha' : 'a b c / alpha'
+      })`
+    );
+  }
+
+  const channels = tokens.map((token, index) =>
+    parseValue(color, token, definition.channels[index])
+  ) as [number, number, number];
+  return {
+    space: definition.space,
+    channels,
+    alpha:
+      alphaToken === undefined
+        ? 1
+        : parseValue(color, alphaToken.trim(), ALPHA),
+  };
+}
+
+/**
+ * Reads a CSS color: a 3, 4, 6 or 8 digit hex color (the `#` may be left
+ * out, as gradient-string allowed), an `rgb()`, `hsl()`,
+ * `hwb()`, `lab()` or `oklch()` function in either the comma or the space
+ * separated syntax, or a named color. Throws a `ColorError` saying what is
+ * wrong with anything else.
+ */
+export function parseCssColor(color: string): ParsedColor {
+  const trimmed = color.trim();
+  if (trimmed === '') {
+    throw new ColorError(color, 'color must not be empty');
+  }
+
+  if (trimmed.startsWith('#')) {
+    return parseHex(color, trimmed.slice(1));
+  }
+  // No color name is made of hex digits alone
+  if (/^(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(trimmed)) {
+    return parseHex(color, trimmed);
+  }
+
+  const call = /^([a-z-]+)\((.*)\)$/is.exec(trimmed);
+  if (call) {
+    return parseFunction(color, call[1].toLowerCase(), call[2]);
+  }
+  if (trimmed.includes('(')) {
+    throw new ColorError(color, 'color function is missing its closing ")"');
+  }
+
+  const name = trimmed.toLowerCase();
+  if (!Object.hasOwn(NAMED_COLORS, name)) {
+    throw new ColorError(
+      color,
+      'not a hex color, color function or CSS color name'
+    );
+  }
+  return parseHex(color, NAMED_COLORS[name].slice(1));
+}
@@ -0,0 +1,220 @@
+import { createInterpolator, type InterpolationOptions } from './color.js';
+import {
+  createEasing,
+  parseColorStop,
+  resolveStopPositions,
+  type Easing,
+} from './gradient.js';
+import {
+  getGradientPositions,
+  type GradientGeometry,
+  type GradientScope,
+} from './geometry.js';
+import { isBlankCell, isBlankRow, mapGrid, type LogoGrid } from './grid.js';
+
+/** How colors are blended along a gradient. */
+export interface GradientOptions extends InterpolationOptions {
+  /**
+   * Easing applied to the position along the whole gradient, e.g. `ease-in`,
+   * `cubic-bezier(0.2, 0, 0, 1)` or `steps(4)`. Defaults to `linear`.
+   */
+  easing?: Easing;
+  /**
+   * Which part of the logo each gradient spans: the whole `block`, each
+   * `line` or `word` of the text, or each `glyph`. Unset, each direction
+   * keeps its original layout.
+   */
+  gradientScope?: GradientScope;
+}
+
+// A long hue path from red back to (almost) red runs through every hue
+const RAINBOW_STOPS = ['#ff0000', '#ff0100'];
+const RAINBOW_OPTIONS: GradientOptions = {
+  interpolation: 'hsv',
+  huePath: 'long',
+};
+
+function createGradient(
+  colors: string[],
+  options: GradientOptions
+): (position: number) => string {
+  const ease = createEasing(options.easing);
+
+  // No colors means rainbow; a single color is spread into a flat gradient
+  if (colors.length === 0) {
+    const rainbow = createInterpolator(RAINBOW_STOPS, RAINBOW_OPTIONS);
+    return (position) => rainbow(ease(position));
+  }
+
+  const stops = colors.map(parseColorStop);
+  const gradient = createInterpolator(
+    stops.map(({ color }) => color),
+    options,
+    resolveStopPositions(stops.map(({ position }) => position))
+  );
+  return (position) => gradient(ease(Math.min(1, Math.max(0, position))));
+}
+
+/**
+ * Samples `count` evenly spaced colors from a gradient through `colors`.
+ * At least `colors.length` samples are taken so that every stop is visible.
+ */
+export function sampleGradient(
+  colors: string[],
+  count: number,
+  options: GradientOptions = {}
+): string[] {
+  if (count <= 0) {
+    return [];
+  }
+
+  const gradient = createGradient(colors, options);
+  const samples = Math.max(count, colors.length, 2);
+
+  return Array.from({ length: samples }, (_, index) =>
+    gradient(index / (samples - 1))
+  );
+}
+
+/**
+ * Returns the color at `position` (0 to 1) along a gradient through `colors`.
+ */
+export function interpolateGradient(
+  colors: string[],
+  position: number,
+  options: GradientOptions = {}
+): string {
+  return createGradient(colors, options)(position);
+}
+
+/**
+ * Blends `from` toward `to`; an amount of 0 returns `from` and 1 returns `to`.
+ */
+export function mixColors(
+  from: string,
+  to: string,
+  amount: number,
+  options: GradientOptions = {}
+): string {
+  return interpolateGradient([from, to], amount, options);
+}
+
+/**
+ * Picks `count` colors spread evenly across a sampled gradient, so that the
+ * first and last entries always land on the first and last stops.
+ */
+function spreadGradient(
+  colors: string[],
+  count: number,
+  options: GradientOptions
+): string[] {
+  if (count <= 0) {
+    return [];
+  }
+
+  const samples = sampleGradient(
+    colors,
+    Math.max(count, colors.length, 1),
+    options
+  );
+
+  return Array.from({ length: count }, (_, index) => {
+    const sampleIndex =
+      count === 1
+        ? 0
+        : Math.round((index * (samples.length - 1)) / (count - 1));
+    return samples[sampleIndex];
+  });
+}
+
+/**
+ * Colors every cell by its column, so each row runs through the same
+ * left-to-right gradient.
+ */
+export function colorizeColumns(
+  grid: LogoGrid,
+  colors: string[],
+  options: GradientOptions = {}
+): LogoGrid {
+  const samples = sampleGradient(colors, grid.width, options);
+
+  return mapGrid(grid, (cell, x) => ({ ...cell, fg: samples[x] }));
+}
+
+/**
+ * Runs a separate left-to-right gradient through the visible glyphs of each
+ * row. Blank cells are left uncolored.
+ */
+export function colorizeLines(
+  grid: LogoGrid,
+  colors: string[],
+  options: GradientOptions = {}
+): LogoGrid {
+  const rows = grid.rows.map((row) => {
+    if (isBlankRow(row)) {
+      return row;
+    }
+
+    const glyphCount = row.filter((cell) => !isBlankCell(cell)).length;
+    const samples = sampleGradient(colors, glyphCount, options);
+    let sampleIndex = 0;
+
+    return row.map((cell) => {
+      if (isBlankCell(cell)) {
+        return cell;
+      }
+
+      const fg = samples[sampleIndex];
+      sampleIndex += 1;
+      return { ...cell, fg };
+    });
+  });
+
+  return { ...grid, rows };
+}
+
+/**
+ * Gives each non-blank row a single color, running top to bottom.
+ */
+export function colorizeRows(
+  grid: LogoGrid,
+  colors: string[],
+  options: GradientOptions = {}
+): LogoGrid {
+  const contentRows = grid.rows.filter((row) => !isBlankRow(row)).length;
+  const samples = spreadGradient(colors, contentRows, options);
+  let rowIndex = 0;
+
+  const rows = grid.rows.map((row) => {
+    if (isBlankRow(row)) {
+      return row;
+    }
+
+    const fg = samples[rowIndex];
+    rowIndex += 1;
+    return row.map((cell) => ({ ...cell, fg }));
+  });
+
+  return { ...grid, rows };
+}
+
+/**
+ * Colors each visible glyph by where it falls in an angled, radial or conic
+ * gradient, so figlet and filled logos with the same geometry match. Blank
+ * cells are left uncolored. `options.gradientScope` repeats the gradient
+ * across each line, word or glyph.
+ */
+export function colorizeGeometry(
+  grid: LogoGrid,
+  colors: string[],
+  geometry: GradientGeometry,
+  options: GradientOptions = {}
+): LogoGrid {
+  const gradient = createGradient(colors, options);
+  const positions = getGradientPositions(grid, geometry, options.gradientScope);
+
+  return mapGrid(grid, (cell, x, y) => {
+    const position = positions[y][x];
+    return position === null ? cell : { ...cell, fg: gradient(position) };
+  });
+}
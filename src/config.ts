@@ -0,0 +1,135 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, extname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { InputError } from './utils/errors.js';
+
+/** Config files looked for in each directory, in order of preference. */
+export const CONFIG_FILE_NAMES = [
+  '.ohmylogorc.json',
+  'ohmylogo.config.json',
+  'ohmylogo.config.js',
+  'ohmylogo.config.ts',
+];
+
+/** Key holding the settings in a `package.json`. */
+export const PACKAGE_JSON_KEY = 'oh-my-logo';
+
+/**
+ * Settings keyed like the CLI options in camelCase (`blockFont` for
+ * `--block-font`), plus `palette` for the palette argument.
+ */
+export type LogoConfig = Record<string, unknown>;
+
+export interface LoadedConfig {
+  path: string;
+  config: LogoConfig;
+}
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new InputError(
+      `config file ${path} could not be parsed: ${(error as Error).message}`
+    );
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function hasPackageConfig(path: string): boolean {
+  try {
+    const json = readJson(path);
+    return isObject(json) && PACKAGE_JSON_KEY in json;
+  } catch {
+    // Someone else's broken package.json shouldn't stop the logo
+    return false;
+  }
+}
+
+/**
+ * Looks for a config file in `cwd` and then each directory above it. A
+ * `package.json` only counts when it has an `"oh-my-logo"` key.
+ */
+export function findConfigFile(cwd: string = process.cwd()): string | null {
+  let directory = resolve(cwd);
+
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const path = join(directory, name);
+      if (existsSync(path)) {
+        return path;
+      }
+    }
+
+    const packageJson = join(directory, 'package.json');
+    if (existsSync(packageJson) && hasPackageConfig(packageJson)) {
+      return packageJson;
+    }
+
+    const parent = dirname(directory);
+    if (parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
+
+/**
+ * Reads the settings from a config file. JavaScript and TypeScript configs
+ * provide them as their default export; TypeScript needs a runtime that can
+ * import it, such as Node.js 23 or tsx.
+ */
+export async function loadConfigFile(path: string): Promise<LogoConfig> {
+  let config: unknown;
+
+  if (basename(path) === 'package.json') {
+    const json = readJson(path);
+    config = isObject(json) ? json[PACKAGE_JSON_KEY] : undefined;
+  } else if (extname(path) === '.json') {
+    config = readJson(path);
+  } else {
+    try {
+      const module = await import(pathToFileURL(path).href);
+      config = module.default ?? module;
+    } catch (error) {
+      throw new InputError(
+        `config file ${path} could not be loaded: ${(error as Error).message}`
+      );
+    }
+  }
+
+  if (!isObject(config)) {
+    throw new InputError(`config file ${path} must contain an object`);
+  }
+  return config;
+}
+
+/** Finds and loads the nearest config file, if there is one. */
+export async function loadConfig(
+  cwd: string = process.cwd()
+): Promise<LoadedConfig | null> {
+  const path = findConfigFile(cwd);
+  return path === null ? null : { path, config: await loadConfigFile(path) };
+}
+
+/** Returns the environment variable for a setting, e.g. `OHMYLOGO_BLOCK_FONT`. */
+export function getEnvName(key: string): string {
+  return `OHMYLOGO_${key.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase()}`;
+}
+
+/** Reads a boolean environment variable such as `1`, `true`, `no` or `off`. */
+export function parseEnvBoolean(value: string, name: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (['1', 'true', 'yes', 'on'].includes(normalized)) {
+    return true;
+  }
+  if (['0', 'false', 'no', 'off', ''].includes(normalized)) {
+    return false;
+  }
+  throw new InputError(
+    `${name} must be true or false (1/0, yes/no, on/off), got "${value}"`
+  );
+}
@@ -0,0 +1,56 @@
+import {
+  renderTerminalChunks,
+  type TerminalOutputOptions,
+} from '../animation/player.js';
+import type { AnimationFrame } from '../animation/timeline.js';
+
+export interface AsciicastOptions extends TerminalOutputOptions {
+  /** Recording title shown by players, usually the logo text. */
+  title?: string;
+  /** Unix time of the recording. Omitted by default to keep output stable. */
+  timestamp?: number;
+}
+
+/**
+ * Records frames as an asciinema v2 `.cast` file: a JSON header line followed
+ * by one `[seconds, "o", data]` output event per line. The events carry the
+ * same output `playAnimation` writes to the terminal.
+ */
+export async function framesToAsciicast(
+  frames: Iterable<AnimationFrame> | AsyncIterable<AnimationFrame>,
+  options: AsciicastOptions = {}
+): Promise<string> {
+  const { title, timestamp, ...outputOptions } = options;
+  let width = 0;
+  let height = 0;
+
+  // Track the terminal size needed by every frame while passing them through
+  async function* measure(): AsyncGenerator<AnimationFrame> {
+    for await (const frame of frames) {
+      width = Math.max(width, frame.grid.width);
+      height = Math.max(height, frame.grid.height);
+      yield frame;
+    }
+  }
+
+  const events: string[] = [];
+  for await (const chunk of renderTerminalChunks(measure(), outputOptions)) {
+    const seconds = Number((chunk.time / 1000).toFixed(6));
+    // Recordings hold what the terminal receives, after the tty driver has
+    // turned each line feed into a carriage return and line feed
+    const data = chunk.data.replace(/\n/g, '\r\n');
+    events.push(JSON.stringify([seconds, 'o', data]));
+  }
+
+  const header = {
+    version: 2,
+    // One extra row for the line break after the logo
+    width: Math.max(width, 1),
+    height: height + 1,
+    ...(timestamp !== undefined && { timestamp }),
+    ...(title !== undefined && { title }),
+    env: { TERM: 'xterm-256color' },
+  };
+
+  return `${[JSON.stringify(header), ...events].join('\n')}\n`;
+}
@@ -0,0 +1,373 @@
+/**
+ * A tiny bitmap font for rasterizing logo cells without a browser or system
+ * fonts. ASCII glyphs come from a classic 5x8 font; box drawing and block
+ * element characters used by the filled fonts are drawn procedurally so they
+ * join seamlessly across cells.
+ */
+
+/** Cell width in font pixels, before scaling. */
+export const CELL_WIDTH = 6;
+/** Cell height in font pixels, before scaling. */
+export const CELL_HEIGHT = 12;
+
+// Rows of the 5x8 ASCII glyphs start this far from the top of the cell
+const GLYPH_TOP = 2;
+
+/**
+ * Column-major 5x8 glyphs for printable ASCII (0x20-0x7e). Each byte is one
+ * column, with the least significant bit at the top.
+ */
+const ASCII_GLYPHS = [
+  [0x00, 0x00, 0x00, 0x00, 0x00],
+  [0x00, 0x00, 0x5f, 0x00, 0x00],
+  [0x00, 0x07, 0x00, 0x07, 0x00],
+  [0x14, 0x7f, 0x14, 0x7f, 0x14],
+  [0x24, 0x2a, 0x7f, 0x2a, 0x12],
+  [0x23, 0x13, 0x08, 0x64, 0x62],
+  [0x36, 0x49, 0x56, 0x20, 0x50],
+  [0x00, 0x08, 0x07, 0x03, 0x00],
+  [0x00, 0x1c, 0x22, 0x41, 0x00],
+  [0x00, 0x41, 0x22, 0x1c, 0x00],
+  [0x2a, 0x1c, 0x7f, 0x1c, 0x2a],
+  [0x08, 0x08, 0x3e, 0x08, 0x08],
+  [0x00, 0x80, 0x70, 0x30, 0x00],
+  [0x08, 0x08, 0x08, 0x08, 0x08],
+  [0x00, 0x00, 0x60, 0x60, 0x00],
+  [0x20, 0x10, 0x08, 0x04, 0x02],
+  [0x3e, 0x51, 0x49, 0x45, 0x3e],
+  [0x00, 0x42, 0x7f, 0x40, 0x00],
+  [0x72, 0x49, 0x49, 0x49, 0x46],
+  [0x21, 0x41, 0x49, 0x4d, 0x33],
+  [0x18, 0x14, 0x12, 0x7f, 0x10],
+  [0x27, 0x45, 0x45, 0x45, 0x39],
+  [0x3c, 0x4a, 0x49, 0x49, 0x31],
+  [0x41, 0x21, 0x11, 0x09, 0x07],
+  [0x36, 0x49, 0x49, 0x49, 0x36],
+  [0x46, 0x49, 0x49, 0x29, 0x1e],
+  [0x00, 0x00, 0x14, 0x00, 0x00],
+  [0x00, 0x40, 0x34, 0x00, 0x00],
+  [0x00, 0x08, 0x14, 0x22, 0x41],
+  [0x14, 0x14, 0x14, 0x14, 0x14],
+  [0x00, 0x41, 0x22, 0x14, 0x08],
+  [0x02, 0x01, 0x59, 0x09, 0x06],
+  [0x3e, 0x41, 0x5d, 0x59, 0x4e],
+  [0x7c, 0x12, 0x11, 0x12, 0x7c],
+  [0x7f, 0x49, 0x49, 0x49, 0x36],
+  [0x3e, 0x41, 0x41, 0x41, 0x22],
+  [0x7f, 0x41, 0x41, 0x41, 0x3e],
+  [0x7f, 0x49, 0x49, 0x49, 0x41],
+  [0x7f, 0x09, 0x09, 0x09, 0x01],
+  [0x3e, 0x41, 0x41, 0x51, 0x73],
+  [0x7f, 0x08, 0x08, 0x08, 0x7f],
+  [0x00, 0x41, 0x7f, 0x41, 0x00],
+  [0x20, 0x40, 0x41, 0x3f, 0x01],
+  [0x7f, 0x08, 0x14, 0x22, 0x41],
+  [0x7f, 0x40, 0x40, 0x40, 0x40],
+  [0x7f, 0x02, 0x1c, 0x02, 0x7f],
+  [0x7f, 0x04, 0x08, 0x10, 0x7f],
+  [0x3e, 0x41, 0x41, 0x41, 0x3e],
+  [0x7f, 0x09, 0x09, 0x09, 0x06],
+  [0x3e, 0x41, 0x51, 0x21, 0x5e],
+  [0x7f, 0x09, 0x19, 0x29, 0x46],
+  [0x26, 0x49, 0x49, 0x49, 0x32],
+  [0x03, 0x01, 0x7f, 0x01, 0x03],
+  [0x3f, 0x40, 0x40, 0x40, 0x3f],
+  [0x1f, 0x20, 0x40, 0x20, 0x1f],
+  [0x3f, 0x40, 0x38, 0x40, 0x3f],
+  [0x63, 0x14, 0x08, 0x14, 0x63],
+  [0x03, 0x04, 0x78, 0x04, 0x03],
+  [0x61, 0x59, 0x49, 0x4d, 0x43],
+  [0x00, 0x7f, 0x41, 0x41, 0x41],
+  [0x02, 0x04, 0x08, 0x10, 0x20],
+  [0x00, 0x41, 0x41, 0x41, 0x7f],
+  [0x04, 0x02, 0x01, 0x02, 0x04],
+  [0x40, 0x40, 0x40, 0x40, 0x40],
+  [0x00, 0x03, 0x07, 0x08, 0x00],
+  [0x20, 0x54, 0x54, 0x78, 0x40],
+  [0x7f, 0x28, 0x44, 0x44, 0x38],
+  [0x38, 0x44, 0x44, 0x44, 0x28],
+  [0x38, 0x44, 0x44, 0x28, 0x7f],
+  [0x38, 0x54, 0x54, 0x54, 0x18],
+  [0x00, 0x08, 0x7e, 0x09, 0x02],
+  [0x18, 0xa4, 0xa4, 0x9c, 0x78],
+  [0x7f, 0x08, 0x04, 0x04, 0x78],
+  [0x00, 0x44, 0x7d, 0x40, 0x00],
+  [0x20, 0x40, 0x40, 0x3d, 0x00],
+  [0x7f, 0x10, 0x28, 0x44, 0x00],
+  [0x00, 0x41, 0x7f, 0x40, 0x00],
+  [0x7c, 0x04, 0x78, 0x04, 0x78],
+  [0x7c, 0x08, 0x04, 0x04, 0x78],
+  [0x38, 0x44, 0x44, 0x44, 0x38],
+  [0xfc, 0x18, 0x24, 0x24, 0x18],
+  [0x18, 0x24, 0x24, 0x18, 0xfc],
+  [0x7c, 0x08, 0x04, 0x04, 0x08],
+  [0x48, 0x54, 0x54, 0x54, 0x24],
+  [0x04, 0x04, 0x3f, 0x44, 0x24],
+  [0x3c, 0x40, 0x40, 0x20, 0x7c],
+  [0x1c, 0x20, 0x40, 0x20, 0x1c],
+  [0x3c, 0x40, 0x30, 0x40, 0x3c],
+  [0x44, 0x28, 0x10, 0x28, 0x44],
+  [0x4c, 0x90, 0x90, 0x90, 0x7c],
+  [0x44, 0x64, 0x54, 0x4c, 0x44],
+  [0x00, 0x08, 0x36, 0x41, 0x00],
+  [0x00, 0x00, 0x77, 0x00, 0x00],
+  [0x00, 0x41, 0x36, 0x08, 0x00],
+  [0x02, 0x01, 0x02, 0x04, 0x02],
+];
+
+// Line weights for box drawing: none, light, heavy, double
+type Weight = 0 | 1 | 2 | 3;
+
+/** Weights of the up, right, down and left arms of a box drawing glyph. */
+const BOX_GLYPHS: Record<string, [Weight, Weight, Weight, Weight]> = {
+  '─': [0, 1, 0, 1],
+  '━': [0, 2, 0, 2],
+  '│': [1, 0, 1, 0],
+  '┃': [2, 0, 2, 0],
+  '┌': [0, 1, 1, 0],
+  '┐': [0, 0, 1, 1],
+  '└': [1, 1, 0, 0],
+  '┘': [1, 0, 0, 1],
+  '├': [1, 1, 1, 0],
+  '┤': [1, 0, 1, 1],
+  '┬': [0, 1, 1, 1],
+  '┴': [1, 1, 0, 1],
+  '┼': [1, 1, 1, 1],
+  '┏': [0, 2, 2, 0],
+  '┓': [0, 0, 2, 2],
+  '┗': [2, 2, 0, 0],
+  '┛': [2, 0, 0, 2],
+  '┣': [2, 2, 2, 0],
+  '┫': [2, 0, 2, 2],
+  '┳': [0, 2, 2, 2],
+  '┻': [2, 2, 0, 2],
+  '╋': [2, 2, 2, 2],
+  '═': [0, 3, 0, 3],
+  '║': [3, 0, 3, 0],
+  '╔': [0, 3, 3, 0],
+  '╗': [0, 0, 3, 3],
+  '╚': [3, 3, 0, 0],
+  '╝': [3, 0, 0, 3],
+  '╠': [3, 3, 3, 0],
+  '╣': [3, 0, 3, 3],
+  '╦': [0, 3, 3, 3],
+  '╩': [3, 3, 0, 3],
+  '╬': [3, 3, 3, 3],
+  '╭': [0, 1, 1, 0],
+  '╮': [0, 0, 1, 1],
+  '╯': [1, 0, 0, 1],
+  '╰': [1, 1, 0, 0],
+};
+
+/**
+ * Block elements as filled rectangles, in fractions of the cell:
+ * [left, top, right, bottom].
+ */
+const BLOCK_GLYPHS: Record<string, [number, number, number, number][]> = {
+  '█': [[0, 0, 1, 1]],
+  '▀': [[0, 0, 1, 1 / 2]],
+  '▁': [[0, 7 / 8, 1, 1]],
+  '▂': [[0, 3 / 4, 1, 1]],
+  '▃': [[0, 5 / 8, 1, 1]],
+  '▄': [[0, 1 / 2, 1, 1]],
+  '▅': [[0, 3 / 8, 1, 1]],
+  '▆': [[0, 1 / 4, 1, 1]],
+  '▇': [[0, 1 / 8, 1, 1]],
+  '▌': [[0, 0, 1 / 2, 1]],
+  '▐': [[1 / 2, 0, 1, 1]],
+  '▔': [[0, 0, 1, 1 / 8]],
+  '▕': [[7 / 8, 0, 1, 1]],
+  '▏': [[0, 0, 1 / 8, 1]],
+  '▖': [[0, 1 / 2, 1 / 2, 1]],
+  '▗': [[1 / 2, 1 / 2, 1, 1]],
+  '▘': [[0, 0, 1 / 2, 1 / 2]],
+  '▝': [[1 / 2, 0, 1, 1 / 2]],
+  '▙': [
+    [0, 0, 1 / 2, 1],
+    [1 / 2, 1 / 2, 1, 1],
+  ],
+  '▚': [
+    [0, 0, 1 / 2, 1 / 2],
+    [1 / 2, 1 / 2, 1, 1],
+  ],
+  '▛': [
+    [0, 0, 1, 1 / 2],
+    [0, 1 / 2, 1 / 2, 1],
+  ],
+  '▜': [
+    [0, 0, 1, 1 / 2],
+    [1 / 2, 1 / 2, 1, 1],
+  ],
+  '▞': [
+    [1 / 2, 0, 1, 1 / 2],
+    [0, 1 / 2, 1 / 2, 1],
+  ],
+  '▟': [
+    [1 / 2, 0, 1, 1],
+    [0, 1 / 2, 1 / 2, 1],
+  ],
+  '·': [[2 / 6, 5 / 12, 4 / 6, 7 / 12]],
+};
+
+/** Shade characters are drawn as partially transparent full blocks. */
+const SHADE_GLYPHS: Record<string, number> = {
+  '░': 0.25,
+  '▒': 0.5,
+  '▓': 0.75,
+};
+
+/**
+ * Coverage of each pixel in a cell, row-major, from 0 (empty) to 1 (solid).
+ */
+export interface GlyphMask {
+  width: number;
+  height: number;
+  coverage: Float32Array;
+}
+
+class MaskPainter {
+  readonly mask: GlyphMask;
+
+  constructor(readonly scale: number) {
+    const width = CELL_WIDTH * scale;
+    const height = CELL_HEIGHT * scale;
+    this.mask = { width, height, coverage: new Float32Array(width * height) };
+  }
+
+  /** Fills a rectangle given in font pixels, with edges rounded to pixels. */
+  fillRect(
+    left: number,
+    top: number,
+    right: number,
+    bottom: number,
+    alpha = 1
+  ) {
+    const { width, height, coverage } = this.mask;
+    const x0 = Math.max(0, Math.round(left * this.scale));
+    const x1 = Math.min(width, Math.round(right * this.scale));
+    const y0 = Math.max(0, Math.round(top * this.scale));
+    const y1 = Math.min(height, Math.round(bottom * this.scale));
+
+    for (let y = y0; y < y1; y += 1) {
+      for (let x = x0; x < x1; x += 1) {
+        coverage[y * width + x] = Math.max(coverage[y * width + x], alpha);
+      }
+    }
+  }
+
+  /** Draws a line of the given thickness through the cell's diagonal. */
+  fillDiagonal(rising: boolean, thickness: number) {
+    const { width, height, coverage } = this.mask;
+    const half = (thickness * this.scale) / 2;
+
+    for (let y = 0; y < height; y += 1) {
+      const progress = (y + 0.5) / height;
+      const center = (rising ? 1 - progress : progress) * width;
+      const x0 = Math.max(0, Math.round(center - half));
+      const x1 = Math.min(width, Math.round(center + half));
+      for (let x = x0; x < x1; x += 1) {
+        coverage[y * width + x] = 1;
+      }
+    }
+  }
+}
+
+function drawAscii(painter: MaskPainter, columns: number[]) {
+  columns.forEach((bits, x) => {
+    for (let y = 0; y < 8; y += 1) {
+      if (bits & (1 << y)) {
+        painter.fillRect(x, GLYPH_TOP + y, x + 1, GLYPH_TOP + y + 1);
+      }
+    }
+  });
+}
+
+function drawBox(
+  painter: MaskPainter,
+  [up, right, down, left]: [Weight, Weight, Weight, Weight]
+) {
+  const cx = CELL_WIDTH / 2;
+  const cy = CELL_HEIGHT / 2;
+
+  // Each arm runs from the far edge past the center, so arms meeting at
+  // the center close the corner without gaps
+  const drawArm = (weight: Weight, vertical: boolean, toStart: boolean) => {
+    if (weight === 0) {
+      return;
+    }
+
+    const offsets = weight === 3 ? [-1, 1] : [0];
+    const thickness = weight === 2 ? 2 : 1;
+    const overlap = weight === 3 ? 1.5 : 1;
+
+    for (const offset of offsets) {
+      if (vertical) {
+        const x0 = cx + offset - thickness / 2;
+        const [y0, y1] = toStart
+          ? [0, cy + overlap]
+          : [cy - overlap, CELL_HEIGHT];
+        painter.fillRect(x0, y0, x0 + thickness, y1);
+      } else {
+        const y0 = cy + offset - thickness / 2;
+        const [x0, x1] = toStart
+          ? [0, cx + overlap]
+          : [cx - overlap, CELL_WIDTH];
+        painter.fillRect(x0, y0, x1, y0 + thickness);
+      }
+    }
+  };
+
+  drawArm(up, true, true);
+  drawArm(down, true, false);
+  drawArm(left, false, true);
+  drawArm(right, false, false);
+}
+
+const maskCache = new Map<string, GlyphMask | null>();
+
+/**
+ * Rasterizes a single glyph at the given integer scale. Returns null for
+ * blank glyphs. Glyphs the font does not know are drawn as a full block so
+ * that unusual block fonts still come out as solid shapes.
+ */
+export function getGlyphMask(glyph: string, scale: number): GlyphMask | null {
+  const key = `${scale}:${glyph}`;
+  const cached = maskCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let mask: GlyphMask | null = null;
+
+  if (glyph.trim().length > 0) {
+    const painter = new MaskPainter(scale);
+    const code = glyph.codePointAt(0) ?? 0;
+
+    if (glyph.length === 1 && code >= 0x20 && code <= 0x7e) {
+      drawAscii(painter, ASCII_GLYPHS[code - 0x20]);
+    } else if (glyph in BOX_GLYPHS) {
+      drawBox(painter, BOX_GLYPHS[glyph]);
+    } else if (glyph in BLOCK_GLYPHS) {
+      for (const [left, top, right, bottom] of BLOCK_GLYPHS[glyph]) {
+        painter.fillRect(
+          left * CELL_WIDTH,
+          top * CELL_HEIGHT,
+          right * CELL_WIDTH,
+          bottom * CELL_HEIGHT
+        );
+      }
+    } else if (glyph in SHADE_GLYPHS) {
+      painter.fillRect(0, 0, CELL_WIDTH, CELL_HEIGHT, SHADE_GLYPHS[glyph]);
+    } else if (glyph === '╱' || glyph === '╲' || glyph === '╳') {
+      if (glyph !== '╲') painter.fillDiagonal(true, 1);
+      if (glyph !== '╱') painter.fillDiagonal(false, 1);
+    } else {
+      painter.fillRect(0, 0, CELL_WIDTH, CELL_HEIGHT);
+    }
+
+    mask = painter.mask;
+  }
+
+  maskCache.set(key, mask);
+  return mask;
+}
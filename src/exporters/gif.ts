@@ -0,0 +1,75 @@
+import type { AnimationFrame } from '../animation/timeline.js';
+import { InputError } from '../utils/errors.js';
+import { encodeGif, type GifFrame } from './gifEncoder.js';
+import { rasterizeGrid, type RasterOptions } from './raster.js';
+
+export interface GifOptions extends RasterOptions {
+  /** Milliseconds per frame. Defaults to the spacing of the frame times. */
+  delay?: number;
+  /** Number of times the animation plays; `Infinity` loops forever. */
+  loop?: number;
+}
+
+/**
+ * GIF transparency is all or nothing, which would drop shade glyphs and
+ * antialiased edges, so GIFs get an opaque background unless asked otherwise.
+ */
+export const DEFAULT_GIF_BACKGROUND = '#000000';
+
+/**
+ * Rasterizes frames with the PNG cell font and encodes them as an animated
+ * GIF. Each frame is shown until the next frame's `time`; the last frame is
+ * held as long as the one before it.
+ */
+export async function framesToGif(
+  frames: Iterable<AnimationFrame> | AsyncIterable<AnimationFrame>,
+  options: GifOptions = {}
+): Promise<Buffer> {
+  const {
+    delay,
+    loop = 1,
+    background = DEFAULT_GIF_BACKGROUND,
+    ...rasterOptions
+  } = options;
+
+  if (delay !== undefined && (!(delay >= 0) || !Number.isFinite(delay))) {
+    throw new InputError('GIF delay must be 0 or greater');
+  }
+  if (!(loop >= 1) || (Number.isFinite(loop) && !Number.isInteger(loop))) {
+    throw new InputError('GIF loop must be a positive integer or Infinity');
+  }
+
+  const times: number[] = [];
+  const images: Uint8Array[] = [];
+  let width = 0;
+  let height = 0;
+
+  for await (const frame of frames) {
+    const image = rasterizeGrid(frame.grid, { ...rasterOptions, background });
+    width = image.width;
+    height = image.height;
+    times.push(frame.time);
+    images.push(image.pixels);
+  }
+
+  if (images.length === 0) {
+    throw new InputError('cannot encode a GIF without frames');
+  }
+
+  const last = times.length - 1;
+  const frameDelay = (index: number): number => {
+    if (index < last) {
+      return times[index + 1] - times[index];
+    }
+    return last > 0 ? times[last] - times[last - 1] : 0;
+  };
+
+  const gifFrames: GifFrame[] = images.map((pixels, index) => ({
+    pixels,
+    delay: delay ?? frameDelay(index),
+  }));
+
+  return encodeGif(width, height, gifFrames, {
+    loop: Number.isFinite(loop) ? loop : 0,
+  });
+}
@@ -0,0 +1,362 @@
+const GIF_HEADER = Buffer.from('GIF89a', 'ascii');
+const MAX_COLORS = 256;
+const MAX_LZW_CODE = 4096;
+const ALPHA_THRESHOLD = 128;
+// Browsers play shorter delays at 100ms, so 20ms is the fastest usable delay
+const MIN_DELAY_CS = 2;
+
+export interface GifFrame {
+  /** 8-bit RGBA pixels, row-major with no padding. */
+  pixels: Uint8Array;
+  /** How long the frame is shown, in milliseconds. */
+  delay: number;
+}
+
+export interface GifEncodeOptions {
+  /** Number of times the animation plays; 0 or `Infinity` loops forever. */
+  loop?: number;
+}
+
+type Rgb = [number, number, number];
+
+interface ColorBox {
+  colors: Array<{ rgb: Rgb; count: number }>;
+}
+
+function toRgb(key: number): Rgb {
+  return [(key >>> 16) & 0xff, (key >>> 8) & 0xff, key & 0xff];
+}
+
+function channelRange(box: ColorBox, channel: number): number {
+  let min = 255;
+  let max = 0;
+  for (const { rgb } of box.colors) {
+    min = Math.min(min, rgb[channel]);
+    max = Math.max(max, rgb[channel]);
+  }
+  return max - min;
+}
+
+function widestChannel(box: ColorBox): { channel: number; range: number } {
+  let best = { channel: 0, range: -1 };
+  for (let channel = 0; channel < 3; channel += 1) {
+    const range = channelRange(box, channel);
+    if (range > best.range) {
+      best = { channel, range };
+    }
+  }
+  return best;
+}
+
+function averageColor(box: ColorBox): Rgb {
+  const sum = [0, 0, 0];
+  let total = 0;
+  for (const { rgb, count } of box.colors) {
+    sum[0] += rgb[0] * count;
+    sum[1] += rgb[1] * count;
+    sum[2] += rgb[2] * count;
+    total += count;
+  }
+  return [
+    Math.round(sum[0] / total),
+    Math.round(sum[1] / total),
+    Math.round(sum[2] / total),
+  ];
+}
+
+/**
+ * Reduces colors to at most `maxColors` with a median cut: the box with the
+ * widest channel is split at its pixel-weighted median until there are
+ * enough boxes, and each box becomes the average of its colors.
+ */
+function medianCut(counts: Map<number, number>, maxColors: number): Rgb[] {
+  const boxes: ColorBox[] = [
+    {
+      colors: [...counts].map(([key, count]) => ({ rgb: toRgb(key), count })),
+    },
+  ];
+
+  while (boxes.length < maxColors) {
+    let target = -1;
+    let best = { channel: 0, range: 0 };
+    boxes.forEach((box, index) => {
+      if (box.colors.length < 2) {
+        return;
+      }
+      const widest = widestChannel(box);
+      if (widest.range > best.range) {
+        target = index;
+        best = widest;
+      }
+    });
+
+    if (target === -1) {
+      break;
+    }
+
+    const { colors } = boxes[target];
+    colors.sort((a, b) => a.rgb[best.channel] - b.rgb[best.channel]);
+
+    const half = colors.reduce((sum, { count }) => sum + count, 0) / 2;
+    let split = 1;
+    let seen = colors[0].count;
+    while (split < colors.length - 1 && seen < half) {
+      seen += colors[split].count;
+      split += 1;
+    }
+
+    boxes.splice(
+      target,
+      1,
+      { colors: colors.slice(0, split) },
+      { colors: colors.slice(split) }
+    );
+  }
+
+  return boxes.map(averageColor);
+}
+
+interface IndexedFrames {
+  palette: Rgb[];
+  /** Palette index used for transparent pixels, or -1 when none are. */
+  transparentIndex: number;
+  indices: Uint8Array[];
+}
+
+/**
+ * Builds one palette shared by every frame and maps the pixels onto it.
+ * Pixels below half opacity become transparent, since GIF transparency is
+ * all or nothing.
+ */
+function quantizeFrames(frames: GifFrame[]): IndexedFrames {
+  const counts = new Map<number, number>();
+  let hasTransparency = false;
+
+  for (const { pixels } of frames) {
+    for (let offset = 0; offset < pixels.length; offset += 4) {
+      if (pixels[offset + 3] < ALPHA_THRESHOLD) {
+        hasTransparency = true;
+        continue;
+      }
+      const key =
+        (pixels[offset] << 16) | (pixels[offset + 1] << 8) | pixels[offset + 2];
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  const maxColors = hasTransparency ? MAX_COLORS - 1 : MAX_COLORS;
+  const exact = counts.size <= maxColors;
+  const palette = exact
+    ? [...counts.keys()].map(toRgb)
+    : medianCut(counts, maxColors);
+  const transparentIndex = hasTransparency ? palette.length : -1;
+
+  const lookup = new Map<number, number>();
+  if (exact) {
+    [...counts.keys()].forEach((key, index) => lookup.set(key, index));
+  }
+
+  const nearest = (key: number): number => {
+    const cached = lookup.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const [r, g, b] = toRgb(key);
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    palette.forEach(([pr, pg, pb], index) => {
+      const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+      if (distance < bestDistance) {
+        bestIndex = index;
+        bestDistance = distance;
+      }
+    });
+
+    lookup.set(key, bestIndex);
+    return bestIndex;
+  };
+
+  const indices = frames.map(({ pixels }) => {
+    const indexed = new Uint8Array(pixels.length / 4);
+    for (let offset = 0; offset < pixels.length; offset += 4) {
+      indexed[offset / 4] =
+        pixels[offset + 3] < ALPHA_THRESHOLD
+          ? transparentIndex
+          : nearest(
+              (pixels[offset] << 16) |
+                (pixels[offset + 1] << 8) |
+                pixels[offset + 2]
+            );
+    }
+    return indexed;
+  });
+
+  return { palette, transparentIndex, indices };
+}
+
+/**
+ * Compresses palette indices with GIF's variable-width LZW. Codes start one
+ * bit wider than `minCodeSize` and grow up to 12 bits, after which the
+ * dictionary is cleared and rebuilt.
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Buffer {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  const dictionary = new Map<number, number>();
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+
+  if (indices.length > 0) {
+    let prefix = indices[0];
+
+    for (let index = 1; index < indices.length; index += 1) {
+      const key = (prefix << 8) | indices[index];
+      const code = dictionary.get(key);
+      if (code !== undefined) {
+        prefix = code;
+        continue;
+      }
+
+      emit(prefix);
+
+      if (nextCode === MAX_LZW_CODE) {
+        emit(clearCode);
+        dictionary.clear();
+        codeSize = minCodeSize + 1;
+        nextCode = endCode + 1;
+      } else {
+        if (nextCode >= 1 << codeSize) {
+          codeSize += 1;
+        }
+        dictionary.set(key, nextCode);
+        nextCode += 1;
+      }
+
+      prefix = indices[index];
+    }
+
+    emit(prefix);
+  }
+
+  emit(endCode);
+  if (bitCount > 0) {
+    output.push(bitBuffer & 0xff);
+  }
+
+  return Buffer.from(output);
+}
+
+/** Splits image data into the length-prefixed sub-blocks GIF stores. */
+function toSubBlocks(data: Uint8Array): Buffer {
+  const blocks: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const block = data.subarray(offset, offset + 255);
+    blocks.push(Buffer.from([block.length]), Buffer.from(block));
+  }
+  blocks.push(Buffer.from([0]));
+  return Buffer.concat(blocks);
+}
+
+function toCentiseconds(ms: number): number {
+  return Math.round(ms / 10);
+}
+
+/**
+ * Encodes RGBA frames as an animated GIF with one global palette. Frame
+ * delays are rounded to the GIF's 10ms resolution, carrying the rounding
+ * over so the total length stays accurate.
+ */
+export function encodeGif(
+  width: number,
+  height: number,
+  frames: GifFrame[],
+  options: GifEncodeOptions = {}
+): Buffer {
+  const { loop = 0 } = options;
+
+  if (frames.length === 0) {
+    throw new RangeError('expected at least one frame');
+  }
+  for (const { pixels } of frames) {
+    if (pixels.length !== width * height * 4) {
+      throw new RangeError(
+        `expected ${width * height * 4} bytes of RGBA data, got ${pixels.length}`
+      );
+    }
+  }
+
+  const { palette, transparentIndex, indices } = quantizeFrames(frames);
+  const colorCount = palette.length + (transparentIndex === -1 ? 0 : 1);
+  const tableBits = Math.max(1, Math.ceil(Math.log2(colorCount)));
+  const minCodeSize = Math.max(2, tableBits);
+
+  const screen = Buffer.alloc(7);
+  screen.writeUInt16LE(width, 0);
+  screen.writeUInt16LE(height, 2);
+  // Global color table present, 8-bit color resolution, table size
+  screen[4] = 0x80 | 0x70 | (tableBits - 1);
+
+  const colorTable = Buffer.alloc(3 * (1 << tableBits));
+  palette.forEach((rgb, index) => colorTable.set(rgb, index * 3));
+
+  const parts: Buffer[] = [GIF_HEADER, screen, colorTable];
+
+  // A single play needs no NETSCAPE extension; it stores extra repeats
+  if (loop !== 1) {
+    const repeats =
+      loop > 0 && Number.isFinite(loop) ? Math.min(loop - 1, 0xffff) : 0;
+    const netscape = Buffer.alloc(19);
+    netscape.set([0x21, 0xff, 0x0b]);
+    netscape.write('NETSCAPE2.0', 3, 'ascii');
+    netscape.set([0x03, 0x01], 14);
+    netscape.writeUInt16LE(repeats, 16);
+    parts.push(netscape);
+  }
+
+  let elapsed = 0;
+  frames.forEach(({ delay }, index) => {
+    const start = toCentiseconds(elapsed);
+    elapsed += delay;
+    const centiseconds =
+      delay > 0 ? Math.max(MIN_DELAY_CS, toCentiseconds(elapsed) - start) : 0;
+
+    const control = Buffer.from([0x21, 0xf9, 0x04, 0, 0, 0, 0, 0]);
+    // Transparent frames restore the background so earlier frames never show
+    // through; opaque frames cover everything anyway
+    const disposal = transparentIndex === -1 ? 1 : 2;
+    control[3] = (disposal << 2) | (transparentIndex === -1 ? 0 : 1);
+    control.writeUInt16LE(Math.min(centiseconds, 0xffff), 4);
+    control[6] = Math.max(transparentIndex, 0);
+
+    const descriptor = Buffer.alloc(10);
+    descriptor[0] = 0x2c;
+    descriptor.writeUInt16LE(width, 5);
+    descriptor.writeUInt16LE(height, 7);
+
+    parts.push(
+      control,
+      descriptor,
+      Buffer.from([minCodeSize]),
+      toSubBlocks(lzwEncode(indices[index], minCodeSize))
+    );
+  });
+
+  parts.push(Buffer.from([0x3b]));
+  return Buffer.concat(parts);
+}
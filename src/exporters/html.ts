@@ -0,0 +1,122 @@
+import { isBlankCell, type LogoCell, type LogoGrid } from '../grid.js';
+import { DEFAULT_FONT_FAMILY, escapeXml, LICENSE_COMMENT } from './markup.js';
+
+export interface HtmlOptions {
+  /** Emit only the `<pre>` block instead of a full HTML page. */
+  fragment?: boolean;
+  /** Background color of the block. Use `transparent` to inherit the page. */
+  background?: string;
+  fontFamily?: string;
+  /** Any CSS font size, or a number of pixels. */
+  fontSize?: string | number;
+  /** Page `<title>` for full pages, usually the logo text. */
+  title?: string;
+  /** Embed the generator and CC0 license comment. Defaults to true. */
+  metadata?: boolean;
+}
+
+export const DEFAULT_HTML_BACKGROUND = '#000000';
+
+function getCellCss(cell: LogoCell): string {
+  const declarations: string[] = [];
+
+  // Inverse cells swap foreground and background, as terminals do
+  const [fg, bg] = cell.attrs.inverse ? [cell.bg, cell.fg] : [cell.fg, cell.bg];
+
+  if (fg) declarations.push(`color:${fg}`);
+  if (bg) declarations.push(`background-color:${bg}`);
+  if (cell.attrs.bold) declarations.push('font-weight:bold');
+  if (cell.attrs.dim) declarations.push('opacity:0.5');
+  if (cell.attrs.italic) declarations.push('font-style:italic');
+  if (cell.attrs.underline) declarations.push('text-decoration:underline');
+
+  return declarations.join(';');
+}
+
+function isPlainBlank(cell: LogoCell): boolean {
+  return (
+    isBlankCell(cell) && !cell.bg && !Object.values(cell.attrs).some(Boolean)
+  );
+}
+
+/**
+ * Serializes one row to spans, merging adjacent cells that share a style.
+ * Plain blank cells join the surrounding run since their color is invisible.
+ */
+function rowToHtml(row: LogoCell[]): string {
+  let html = '';
+  let currentCss = '';
+  let text = '';
+
+  const flush = () => {
+    if (text) {
+      html += currentCss
+        ? `<span style="${currentCss}">${escapeXml(text)}</span>`
+        : escapeXml(text);
+    }
+    text = '';
+  };
+
+  for (const cell of row) {
+    const css = isPlainBlank(cell) ? currentCss : getCellCss(cell);
+
+    if (css !== currentCss) {
+      flush();
+      currentCss = css;
+    }
+
+    text += cell.glyph;
+  }
+
+  flush();
+  return html;
+}
+
+export function gridToHtml(grid: LogoGrid, options: HtmlOptions = {}): string {
+  const {
+    fragment = false,
+    background = DEFAULT_HTML_BACKGROUND,
+    fontFamily = DEFAULT_FONT_FAMILY,
+    fontSize,
+    title = 'oh-my-logo',
+    metadata = true,
+  } = options;
+
+  const preStyles = [
+    `font-family:${fontFamily}`,
+    'line-height:1.2',
+    'padding:1em',
+    'margin:0',
+  ];
+  if (fontSize !== undefined) {
+    preStyles.push(
+      `font-size:${typeof fontSize === 'number' ? `${fontSize}px` : fontSize}`
+    );
+  }
+  if (background !== 'transparent') {
+    preStyles.push(`background-color:${background}`);
+  }
+
+  const pre = `<pre style="${escapeXml(preStyles.join(';'))}">${grid.rows
+    .map(rowToHtml)
+    .join('\n')}</pre>`;
+  const comment = metadata ? `${LICENSE_COMMENT}\n` : '';
+
+  if (fragment) {
+    return `${comment}${pre}\n`;
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeXml(title)}</title>`,
+    '</head>',
+    `<body style="margin:0;background-color:${escapeXml(background)}">`,
+    `${comment}${pre}`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
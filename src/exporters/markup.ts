@@ -0,0 +1,16 @@
+export const DEFAULT_FONT_FAMILY =
+  "ui-monospace, 'SFMono-Regular', Menlo, Consolas, 'DejaVu Sans Mono', monospace";
+
+export const LICENSE_COMMENT =
+  '<!-- Generated by oh-my-logo (https://github.com/shinshin86/oh-my-logo). ' +
+  'This logo is dedicated to the public domain under CC0 1.0: ' +
+  'https://creativecommons.org/publicdomain/zero/1.0/ -->';
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,13 @@
+import type { LogoGrid } from '../grid.js';
+import { encodePng } from './pngEncoder.js';
+import { rasterizeGrid, type RasterOptions } from './raster.js';
+
+export interface PngOptions extends RasterOptions {}
+
+/**
+ * Rasterizes a grid to a PNG image with the built-in bitmap font.
+ */
+export function gridToPng(grid: LogoGrid, options: PngOptions = {}): Buffer {
+  const { width, height, pixels } = rasterizeGrid(grid, options);
+  return encodePng(width, height, pixels);
+}
@@ -0,0 +1,70 @@
+import { deflateSync } from 'zlib';
+
+const PNG_SIGNATURE = Buffer.from([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+]);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k += 1) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createChunk(type: string, data: Uint8Array): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const chunk = Buffer.alloc(typeAndData.length + 8);
+
+  chunk.writeUInt32BE(data.length, 0);
+  typeAndData.copy(chunk, 4);
+  chunk.writeUInt32BE(crc32(typeAndData), typeAndData.length + 4);
+
+  return chunk;
+}
+
+/**
+ * Encodes 8-bit RGBA pixels, row-major with no padding, as a PNG image.
+ */
+export function encodePng(
+  width: number,
+  height: number,
+  rgba: Uint8Array
+): Buffer {
+  if (rgba.length !== width * height * 4) {
+    throw new RangeError(
+      `expected ${width * height * 4} bytes of RGBA data, got ${rgba.length}`
+    );
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type: truecolor with alpha
+
+  // Every scanline starts with filter type 0 (none)
+  const stride = width * 4;
+  const scanlines = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y += 1) {
+    scanlines.set(
+      rgba.subarray(y * stride, (y + 1) * stride),
+      y * (stride + 1) + 1
+    );
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk('IHDR', header),
+    createChunk('IDAT', deflateSync(scanlines)),
+    createChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
@@ -0,0 +1,183 @@
+import { parseColor } from '../color.js';
+import { parseCssColor } from '../colorParser.js';
+import { isBlankCell, type LogoCell, type LogoGrid } from '../grid.js';
+import { InputError } from '../utils/errors.js';
+import {
+  CELL_HEIGHT,
+  CELL_WIDTH,
+  getGlyphMask,
+  type GlyphMask,
+} from './bitmapFont.js';
+
+export interface RasterOptions {
+  /** Integer pixel size of one font pixel. Cells are 6x12 font pixels. */
+  scale?: number;
+  /** Padding around the logo in output pixels. Defaults to one cell height. */
+  padding?: number;
+  /** Background as any CSS color; transparent when omitted. */
+  background?: string;
+  /** Draw glyphs with the bitmap font, or fill every non-blank cell. */
+  glyphs?: 'bitmap' | 'rect';
+}
+
+/** 8-bit RGBA pixels, row-major with no padding. */
+export interface RasterImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+export const DEFAULT_RASTER_SCALE = 2;
+const DEFAULT_FOREGROUND = '#ffffff';
+
+type Rgba = [number, number, number, number];
+
+// Any CSS color the other exporters accept, keeping its alpha
+function parseImageColor(color: string): Rgba {
+  const [red, green, blue] = parseColor(color);
+  return [red, green, blue, Math.round(parseCssColor(color).alpha * 255)];
+}
+
+class Canvas {
+  readonly pixels: Uint8Array;
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    background: Rgba | null
+  ) {
+    this.pixels = new Uint8Array(width * height * 4);
+    if (background) {
+      for (let i = 0; i < this.pixels.length; i += 4) {
+        this.pixels.set(background, i);
+      }
+    }
+  }
+
+  /** Composites a color over the pixel at (x, y) with source-over blending. */
+  blend(x: number, y: number, [r, g, b, a]: Rgba, coverage: number) {
+    const alpha = (a / 255) * coverage;
+    if (alpha <= 0 || x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      return;
+    }
+
+    const i = (y * this.width + x) * 4;
+    const dstAlpha = this.pixels[i + 3] / 255;
+    const outAlpha = alpha + dstAlpha * (1 - alpha);
+    const mix = (src: number, dst: number) =>
+      Math.round((src * alpha + dst * dstAlpha * (1 - alpha)) / outAlpha);
+
+    this.pixels[i] = mix(r, this.pixels[i]);
+    this.pixels[i + 1] = mix(g, this.pixels[i + 1]);
+    this.pixels[i + 2] = mix(b, this.pixels[i + 2]);
+    this.pixels[i + 3] = Math.round(outAlpha * 255);
+  }
+
+  fillRect(
+    left: number,
+    top: number,
+    width: number,
+    height: number,
+    color: Rgba
+  ) {
+    for (let y = top; y < top + height; y += 1) {
+      for (let x = left; x < left + width; x += 1) {
+        this.blend(x, y, color, 1);
+      }
+    }
+  }
+
+  drawMask(left: number, top: number, mask: GlyphMask, color: Rgba) {
+    for (let y = 0; y < mask.height; y += 1) {
+      for (let x = 0; x < mask.width; x += 1) {
+        const coverage = mask.coverage[y * mask.width + x];
+        if (coverage > 0) {
+          this.blend(left + x, top + y, color, coverage);
+        }
+      }
+    }
+  }
+}
+
+function getCellColors(cell: LogoCell): { fg: Rgba; bg: Rgba | null } {
+  let fg = cell.fg;
+  let bg = cell.bg;
+
+  // Inverse cells swap foreground and background, as terminals do
+  if (cell.attrs.inverse) {
+    [fg, bg] = [bg ?? '#000000', fg ?? DEFAULT_FOREGROUND];
+  }
+
+  const foreground = parseImageColor(fg ?? DEFAULT_FOREGROUND);
+  if (cell.attrs.dim) {
+    foreground[3] = Math.round(foreground[3] / 2);
+  }
+
+  return { fg: foreground, bg: bg ? parseImageColor(bg) : null };
+}
+
+/**
+ * Draws a grid into RGBA pixels. Every cell keeps its exact colors, so the
+ * image matches what the terminal shows.
+ */
+export function rasterizeGrid(
+  grid: LogoGrid,
+  options: RasterOptions = {}
+): RasterImage {
+  const {
+    scale = DEFAULT_RASTER_SCALE,
+    padding = CELL_HEIGHT * scale,
+    background,
+    glyphs = 'bitmap',
+  } = options;
+
+  if (!Number.isInteger(scale) || scale < 1) {
+    throw new InputError('image scale must be a positive integer');
+  }
+  if (!Number.isInteger(padding) || padding < 0) {
+    throw new InputError('image padding must be 0 or a positive integer');
+  }
+
+  const cellWidth = CELL_WIDTH * scale;
+  const cellHeight = CELL_HEIGHT * scale;
+  const canvas = new Canvas(
+    grid.width * cellWidth + padding * 2,
+    grid.height * cellHeight + padding * 2,
+    background && background !== 'transparent'
+      ? parseImageColor(background)
+      : null
+  );
+
+  grid.rows.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      const left = padding + x * cellWidth;
+      const top = padding + y * cellHeight;
+      const { fg, bg } = getCellColors(cell);
+
+      if (bg) {
+        canvas.fillRect(left, top, cellWidth, cellHeight, bg);
+      }
+
+      if (!isBlankCell(cell)) {
+        if (glyphs === 'rect') {
+          canvas.fillRect(left, top, cellWidth, cellHeight, fg);
+        } else {
+          const mask = getGlyphMask(cell.glyph, scale);
+          if (mask) {
+            canvas.drawMask(left, top, mask, fg);
+            // Bold glyphs are overstruck one font pixel to the right
+            if (cell.attrs.bold) {
+              canvas.drawMask(left + scale, top, mask, fg);
+            }
+          }
+        }
+      }
+
+      if (cell.attrs.underline) {
+        canvas.fillRect(left, top + cellHeight - scale, cellWidth, scale, fg);
+      }
+    });
+  });
+
+  return { width: canvas.width, height: canvas.height, pixels: canvas.pixels };
+}
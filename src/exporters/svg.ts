@@ -0,0 +1,177 @@
+import { isBlankCell, type LogoCell, type LogoGrid } from '../grid.js';
+import { DEFAULT_FONT_FAMILY, escapeXml, LICENSE_COMMENT } from './markup.js';
+
+export interface SvgOptions {
+  /** Font size in pixels. Cells are 0.6em wide and 1.2em tall. */
+  fontSize?: number;
+  fontFamily?: string;
+  /** Padding around the logo in pixels. */
+  padding?: number;
+  /** Background fill; transparent when omitted. */
+  background?: string;
+  /** Draw glyphs as `<text>` runs, or as filled rectangles per cell. */
+  glyphs?: 'text' | 'rect';
+  /** Accessible `<title>` for the document, usually the logo text. */
+  title?: string;
+  /** Embed the generator and CC0 license comment. Defaults to true. */
+  metadata?: boolean;
+}
+
+export const DEFAULT_SVG_FONT_SIZE = 16;
+const CELL_WIDTH_EM = 0.6;
+const CELL_HEIGHT_EM = 1.2;
+
+interface CellRun {
+  start: number;
+  cells: LogoCell[];
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/** Inverse cells swap foreground and background, as terminals do. */
+function getCellColors(cell: LogoCell): {
+  fg: string | null;
+  bg: string | null;
+} {
+  return cell.attrs.inverse
+    ? { fg: cell.bg, bg: cell.fg }
+    : { fg: cell.fg, bg: cell.bg };
+}
+
+/**
+ * Splits a row into runs of visible cells sharing the same color and
+ * attributes. Blank cells end a run and are not emitted.
+ */
+function getRuns(row: LogoCell[]): CellRun[] {
+  const runs: CellRun[] = [];
+  let current: CellRun | null = null;
+
+  row.forEach((cell, x) => {
+    if (isBlankCell(cell) && !getCellColors(cell).bg) {
+      current = null;
+      return;
+    }
+
+    const previous = current?.cells[current.cells.length - 1];
+    if (
+      current &&
+      previous &&
+      previous.fg === cell.fg &&
+      previous.bg === cell.bg &&
+      JSON.stringify(previous.attrs) === JSON.stringify(cell.attrs)
+    ) {
+      current.cells.push(cell);
+      return;
+    }
+
+    current = { start: x, cells: [cell] };
+    runs.push(current);
+  });
+
+  return runs;
+}
+
+function getTextAttributes(cell: LogoCell): string {
+  const attributes: string[] = [];
+
+  const { fg } = getCellColors(cell);
+  if (fg) attributes.push(`fill="${fg}"`);
+  if (cell.attrs.bold) attributes.push('font-weight="bold"');
+  if (cell.attrs.italic) attributes.push('font-style="italic"');
+  if (cell.attrs.underline) attributes.push('text-decoration="underline"');
+  if (cell.attrs.dim) attributes.push('opacity="0.5"');
+
+  return attributes.join(' ');
+}
+
+export function gridToSvg(grid: LogoGrid, options: SvgOptions = {}): string {
+  const {
+    fontSize = DEFAULT_SVG_FONT_SIZE,
+    fontFamily = DEFAULT_FONT_FAMILY,
+    padding = fontSize,
+    background,
+    glyphs = 'text',
+    title,
+    metadata = true,
+  } = options;
+
+  const cellWidth = fontSize * CELL_WIDTH_EM;
+  const cellHeight = fontSize * CELL_HEIGHT_EM;
+  const width = grid.width * cellWidth + padding * 2;
+  const height = grid.height * cellHeight + padding * 2;
+  const columnX = (column: number) =>
+    formatNumber(padding + column * cellWidth);
+  const rowY = (row: number) => formatNumber(padding + row * cellHeight);
+
+  const lines: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(width)}" height="${formatNumber(height)}" viewBox="0 0 ${formatNumber(width)} ${formatNumber(height)}">`,
+  ];
+
+  if (metadata) {
+    lines.push(LICENSE_COMMENT);
+  }
+  if (title) {
+    lines.push(`<title>${escapeXml(title)}</title>`);
+  }
+  if (background) {
+    lines.push(
+      `<rect width="100%" height="100%" fill="${escapeXml(background)}"/>`
+    );
+  }
+
+  // Cell backgrounds are drawn first so glyphs stay on top
+  grid.rows.forEach((row, y) => {
+    for (const run of getRuns(row)) {
+      const { bg } = getCellColors(run.cells[0]);
+      if (bg) {
+        lines.push(
+          `<rect x="${columnX(run.start)}" y="${rowY(y)}" width="${formatNumber(run.cells.length * cellWidth)}" height="${formatNumber(cellHeight)}" fill="${bg}"/>`
+        );
+      }
+    }
+  });
+
+  if (glyphs === 'rect') {
+    grid.rows.forEach((row, y) => {
+      for (const run of getRuns(row)) {
+        const visible = run.cells.every((cell) => !isBlankCell(cell));
+        if (visible) {
+          lines.push(
+            `<rect x="${columnX(run.start)}" y="${rowY(y)}" width="${formatNumber(run.cells.length * cellWidth)}" height="${formatNumber(cellHeight)}" fill="${getCellColors(run.cells[0]).fg ?? 'currentColor'}"/>`
+          );
+        }
+      }
+    });
+  } else {
+    lines.push(
+      `<g font-family="${escapeXml(fontFamily)}" font-size="${formatNumber(fontSize)}" xml:space="preserve">`
+    );
+
+    grid.rows.forEach((row, y) => {
+      const runs = getRuns(row);
+      if (runs.length === 0) {
+        return;
+      }
+
+      // Baseline sits about 80% of the way down each cell
+      const baseline = formatNumber(
+        padding + y * cellHeight + cellHeight * 0.8
+      );
+      const spans = runs.map((run) => {
+        const attributes = getTextAttributes(run.cells[0]);
+        const content = escapeXml(run.cells.map((cell) => cell.glyph).join(''));
+        return `<tspan x="${columnX(run.start)}"${attributes ? ` ${attributes}` : ''}>${content}</tspan>`;
+      });
+
+      lines.push(`<text y="${baseline}">${spans.join('')}</text>`);
+    });
+
+    lines.push('</g>');
+  }
+
+  lines.push('</svg>');
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,139 @@
+import CFonts from 'cfonts';
+import type { BlockFont } from './lib.js';
+import { createGrid, gridToAnsi, type LogoGrid } from './grid.js';
+import type { ColorLevel, DitherMethod } from './colorLevel.js';
+import {
+  colorizeColumns,
+  colorizeGeometry,
+  colorizeRows,
+  type GradientOptions,
+} from './colorizers.js';
+import {
+  parseGradientGeometry,
+  type GradientDirection,
+  type GradientGeometry,
+} from './geometry.js';
+import { createGlyphGrid } from './glyphs.js';
+
+export type { GradientDirection };
+
+export interface FilledLogoOptions extends GradientOptions {
+  font?: BlockFont;
+  letterSpacing?: number;
+  direction?: GradientDirection;
+  /** Color level of the ANSI output. Defaults to truecolor. */
+  colorLevel?: ColorLevel;
+  /** Dithering used when `colorLevel` reduces the colors. */
+  dither?: DitherMethod;
+}
+
+const renderCFont = CFonts.render;
+
+function renderBigText(
+  text: string,
+  font: BlockFont,
+  letterSpacing: number | undefined
+): string {
+  const output = renderCFont(text, {
+    font,
+    align: 'left',
+    colors: ['system'],
+    backgroundColor: 'transparent',
+    letterSpacing: letterSpacing ?? 1,
+    lineHeight: 1,
+    space: true,
+    maxLength: 0,
+  }) as { string?: string } | boolean;
+
+  if (
+    output &&
+    typeof output === 'object' &&
+    typeof output.string === 'string'
+  ) {
+    return output.string;
+  }
+
+  return text;
+}
+
+export function colorizeFilledGrid(
+  grid: LogoGrid,
+  colors: string[],
+  direction: GradientDirection = 'horizontal',
+  gradient: GradientOptions = {}
+): LogoGrid {
+  // With a scope, horizontal and vertical become 90deg and 180deg
+  const geometry: GradientGeometry | null =
+    parseGradientGeometry(direction) ??
+    (gradient.gradientScope
+      ? { type: 'linear', angle: direction === 'horizontal' ? 90 : 180 }
+      : null);
+  if (geometry) {
+    return colorizeGeometry(grid, colors, geometry, gradient);
+  }
+
+  switch (direction) {
+    case 'horizontal':
+      return colorizeColumns(grid, colors, gradient);
+
+    case 'vertical':
+    default:
+      return colorizeRows(grid, colors, gradient);
+  }
+}
+
+export function applyDirectionalGradient(
+  text: string,
+  colors: string[],
+  direction: GradientDirection = 'horizontal',
+  colorLevel?: ColorLevel,
+  dither?: DitherMethod,
+  gradient?: GradientOptions
+): string {
+  return gridToAnsi(
+    colorizeFilledGrid(createGrid(text), colors, direction, gradient),
+    colorLevel,
+    dither
+  );
+}
+
+export function renderFilledLogoGrid(
+  text: string,
+  palette: string[],
+  options: FilledLogoOptions = {}
+): LogoGrid {
+  const {
+    font = 'block',
+    letterSpacing,
+    direction = 'horizontal',
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
+  } = options;
+  const render = (value: string) => renderBigText(value, font, letterSpacing);
+
+  // Scopes need to know which glyph each cell belongs to
+  const grid = gradientScope
+    ? createGlyphGrid(text, render)
+    : createGrid(render(text));
+
+  return colorizeFilledGrid(grid, palette, direction, {
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
+  });
+}
+
+export function renderFilledLogo(
+  text: string,
+  palette: string[],
+  options: FilledLogoOptions = {}
+): string {
+  return gridToAnsi(
+    renderFilledLogoGrid(text, palette, options),
+    options.colorLevel,
+    options.dither
+  );
+}
@@ -0,0 +1,206 @@
+import { isBlankCell, type LogoCell, type LogoGrid } from './grid.js';
+
+/**
+ * Where a gradient runs across the logo. `vertical` and `horizontal` keep
+ * their original per-mode meaning; everything else is laid out per cell by
+ * the same geometry in figlet and filled mode:
+ * - an angle such as `135deg`, where 0deg points up and 90deg right, as in
+ *   CSS `linear-gradient`; `diagonal` is `135deg`
+ * - `radial`, from the center outward
+ * - `conic`, clockwise around the center from the top, or from a start angle
+ *   such as `conic 90deg`
+ */
+export type GradientDirection =
+  | 'vertical'
+  | 'horizontal'
+  | 'diagonal'
+  | 'radial'
+  | 'conic'
+  | `conic ${number}deg`
+  | `${number}deg`;
+
+export type GradientGeometry =
+  | { type: 'linear'; angle: number }
+  | { type: 'radial' }
+  | { type: 'conic'; angle: number };
+
+// Terminal cells are about twice as tall as they are wide
+const CELL_ASPECT = 2;
+
+const ANGLE = /^(-?\d+(?:\.\d+)?)deg$/;
+
+/**
+ * Returns the geometry for a direction, or null for `vertical`, `horizontal`
+ * and anything else that isn't laid out per cell.
+ */
+export function parseGradientGeometry(
+  direction: string
+): GradientGeometry | null {
+  const normalized = direction.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  if (normalized === 'diagonal') {
+    return { type: 'linear', angle: 135 };
+  }
+  if (normalized === 'radial') {
+    return { type: 'radial' };
+  }
+
+  const conic = /^conic(?: (.+))?$/.exec(normalized);
+  if (conic) {
+    const start = conic[1] === undefined ? '0deg' : conic[1];
+    const angle = ANGLE.exec(start);
+    return angle ? { type: 'conic', angle: Number(angle[1]) } : null;
+  }
+
+  const angle = ANGLE.exec(normalized);
+  return angle ? { type: 'linear', angle: Number(angle[1]) } : null;
+}
+
+/**
+ * Which part of the logo each gradient spans: the whole `block`, each `line`
+ * or `word` of the text, or each `glyph`, which gets a single color from a
+ * gradient across the block.
+ */
+export type GradientScope = 'block' | 'line' | 'word' | 'glyph';
+
+export const GRADIENT_SCOPES: GradientScope[] = [
+  'block',
+  'line',
+  'word',
+  'glyph',
+];
+
+interface Box {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+function extendBox(box: Box | undefined, x: number, y: number): Box {
+  return box
+    ? {
+        left: Math.min(box.left, x),
+        right: Math.max(box.right, x),
+        top: Math.min(box.top, y),
+        bottom: Math.max(box.bottom, y),
+      }
+    : { left: x, right: x, top: y, bottom: y };
+}
+
+function getRegion(cell: LogoCell, scope: GradientScope): number {
+  switch (scope) {
+    case 'line':
+      return cell.source?.line ?? -1;
+    case 'word':
+      return cell.source?.word ?? -1;
+    default:
+      return -1;
+  }
+}
+
+/**
+ * Computes where each cell falls along the gradient, from 0 to 1. Positions
+ * are measured across the box around the visible glyphs of each scope
+ * region, so padding doesn't stretch the gradient, and blank cells get null.
+ * Line, word and glyph scopes rely on the cell sources `createGlyphGrid`
+ * records; cells without one are treated as a block.
+ */
+export function getGradientPositions(
+  grid: LogoGrid,
+  geometry: GradientGeometry,
+  scope: GradientScope = 'block'
+): Array<Array<number | null>> {
+  // Each glyph is sampled at its center
+  const glyphs = new Map<number, Box>();
+  if (scope === 'glyph') {
+    grid.rows.forEach((row, y) => {
+      row.forEach((cell, x) => {
+        if (cell.source && !isBlankCell(cell)) {
+          const { index } = cell.source;
+          glyphs.set(index, extendBox(glyphs.get(index), x, y));
+        }
+      });
+    });
+  }
+
+  const samplePoint = (cell: LogoCell, x: number, y: number) => {
+    const glyph = cell.source && glyphs.get(cell.source.index);
+    return glyph
+      ? [(glyph.left + glyph.right) / 2, (glyph.top + glyph.bottom) / 2]
+      : [x, y];
+  };
+
+  const regions = new Map<number, Box>();
+  grid.rows.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (!isBlankCell(cell)) {
+        const region = getRegion(cell, scope);
+        const [sampleX, sampleY] = samplePoint(cell, x, y);
+        regions.set(region, extendBox(regions.get(region), sampleX, sampleY));
+      }
+    });
+  });
+
+  const positions = new Map(
+    [...regions].map(([region, box]) => [
+      region,
+      createPositionFunction(geometry, box),
+    ])
+  );
+
+  return grid.rows.map((row, y) =>
+    row.map((cell, x) => {
+      if (isBlankCell(cell)) {
+        return null;
+      }
+
+      const position = positions.get(getRegion(cell, scope));
+      const [sampleX, sampleY] = samplePoint(cell, x, y);
+      return position ? position(sampleX, sampleY) : null;
+    })
+  );
+}
+
+function createPositionFunction(
+  geometry: GradientGeometry,
+  box: Box
+): (x: number, y: number) => number {
+  // Cell centers, with the first and last glyphs on the edges of the box
+  const width = box.right - box.left;
+  const height = (box.bottom - box.top) * CELL_ASPECT;
+  const centerX = (box.left + box.right) / 2;
+  const centerY = (box.top + box.bottom) / 2;
+  const offset = (x: number, y: number) => [
+    x - centerX,
+    (y - centerY) * CELL_ASPECT,
+  ];
+
+  switch (geometry.type) {
+    case 'radial': {
+      // The farthest corner is the end of the gradient, as in CSS
+      const radius = Math.hypot(width, height) / 2;
+      return (x, y) => (radius > 0 ? Math.hypot(...offset(x, y)) / radius : 0);
+    }
+
+    case 'conic':
+      return (x, y) => {
+        const [dx, dy] = offset(x, y);
+        const angle = (Math.atan2(dx, -dy) * 180) / Math.PI - geometry.angle;
+        return (((angle % 360) + 360) % 360) / 360;
+      };
+
+    default: {
+      // Like CSS, the gradient line is long enough for the corners to land
+      // exactly on its ends
+      const radians = (geometry.angle * Math.PI) / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+      const length = Math.abs(width * sin) + Math.abs(height * cos);
+      return (x, y) => {
+        const [dx, dy] = offset(x, y);
+        return length > 0 ? (dx * sin - dy * cos) / length + 0.5 : 0;
+      };
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  createGrid,
+  isBlankCell,
+  type GlyphSource,
+  type LogoGrid,
+} from './grid.js';
+
+interface Word {
+  /** Index of the first character in the text. */
+  start: number;
+  end: number;
+  line: number;
+}
+
+function findWords(chars: string[]): Word[] {
+  const words: Word[] = [];
+  let line = 0;
+  let start = -1;
+
+  chars.forEach((char, index) => {
+    const isSpace = char.trim().length === 0;
+    if (!isSpace && start === -1) {
+      start = index;
+    }
+    if (isSpace && start !== -1) {
+      words.push({ start, end: index, line });
+      start = -1;
+    }
+    if (char === '\n') {
+      line += 1;
+    }
+  });
+
+  if (start !== -1) {
+    words.push({ start, end: chars.length, line });
+  }
+  return words;
+}
+
+/** Returns one past the rightmost visible column of a grid. */
+function contentWidth(grid: LogoGrid): number {
+  return Math.max(
+    0,
+    ...grid.rows.map((row) => {
+      let x = row.length;
+      while (x > 0 && isBlankCell(row[x - 1])) {
+        x -= 1;
+      }
+      return x;
+    })
+  );
+}
+
+/**
+ * Renders `text` with `render` (figlet, cfonts or any other renderer that
+ * lays characters out left to right) and records on every visible cell which
+ * character, word and line of the text it came from.
+ *
+ * Renderers don't report glyph boundaries, so they are found by rendering
+ * the text one word at a time and each word one character at a time. Where
+ * neighbouring glyphs overlap, the shared columns go to the earlier one.
+ */
+export function createGlyphGrid(
+  text: string,
+  render: (text: string) => string
+): LogoGrid {
+  const chars = [...text];
+  const grid = createGrid(render(text));
+  const words = findWords(chars);
+
+  // Appending a word never moves earlier ones, even when the renderer wraps
+  // it onto a new line, so whatever changes belongs to the new word
+  const owners = grid.rows.map((row) => row.map((): number | null => null));
+  let previous = createGrid('');
+  words.forEach((word, wordIndex) => {
+    const current =
+      wordIndex === words.length - 1
+        ? grid
+        : createGrid(render(chars.slice(0, word.end).join('')));
+
+    current.rows.forEach((row, y) => {
+      row.forEach((cell, x) => {
+        if (y >= owners.length || x >= owners[y].length || isBlankCell(cell)) {
+          return;
+        }
+        if (previous.rows[y]?.[x]?.glyph !== cell.glyph) {
+          owners[y][x] = wordIndex;
+        }
+      });
+    });
+    previous = current;
+  });
+
+  // Within a word, characters are told apart by the width of each prefix
+  const sources = words.map((word, wordIndex) => {
+    const wordChars = chars.slice(word.start, word.end);
+    const prefixes = wordChars.map((_, index) =>
+      createGrid(render(wordChars.slice(0, index + 1).join('')))
+    );
+    const ends = prefixes.map(contentWidth);
+    const alone = prefixes[prefixes.length - 1];
+    const aloneLeft = Math.min(
+      ...alone.rows
+        .map((row) => row.findIndex((cell) => !isBlankCell(cell)))
+        .filter((x) => x >= 0)
+    );
+    const placedLeft = Math.min(
+      ...owners.map((row) => row.indexOf(wordIndex)).filter((x) => x >= 0)
+    );
+
+    return { word, ends, offset: placedLeft - aloneLeft };
+  });
+
+  const rows = grid.rows.map((row, y) =>
+    row.map((cell, x) => {
+      const owner = owners[y][x];
+      if (owner === null) {
+        return cell;
+      }
+
+      const { word, ends, offset } = sources[owner];
+      const charIndex = ends.findIndex((end) => x - offset < end);
+      const source: GlyphSource = {
+        index: word.start + (charIndex === -1 ? ends.length - 1 : charIndex),
+        word: owner,
+        line: word.line,
+      };
+      return { ...cell, source };
+    })
+  );
+
+  return { ...grid, rows };
+}
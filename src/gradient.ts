@@ -0,0 +1,264 @@
+import { InputError } from './utils/errors.js';
+
+/** A palette color pinned to a position along the gradient. */
+export interface ColorStop {
+  color: string;
+  /** From 0 to 1, or a percentage such as `'70%'`. */
+  position?: number | `${number}%`;
+}
+
+/**
+ * A palette entry: a color, a color followed by a CSS-style percentage such
+ * as `'#7f88ff 70%'`, or a `ColorStop` object.
+ */
+export type PaletteStop = string | ColorStop;
+
+export type EasingName =
+  | 'linear'
+  | 'ease'
+  | 'ease-in'
+  | 'ease-out'
+  | 'ease-in-out'
+  | 'step-start'
+  | 'step-end';
+
+/**
+ * Maps a position along the gradient (0 to 1) to how far the colors have
+ * progressed, using CSS easing syntax, or a custom function.
+ */
+export type Easing =
+  | EasingName
+  | `cubic-bezier(${string})`
+  | `steps(${string})`
+  | ((position: number) => number);
+
+const CUBIC_BEZIER_EASINGS: Record<string, [number, number, number, number]> = {
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+const STEP_POSITIONS = [
+  'jump-start',
+  'jump-end',
+  'jump-none',
+  'jump-both',
+  'start',
+  'end',
+];
+
+const POSITIONED_STOP = /^(.+?)\s+(-?\d*\.?\d+)%$/;
+
+function parsePosition(position: number | string, stop: string): number {
+  const value =
+    typeof position === 'number'
+      ? position
+      : /^-?\d*\.?\d+%$/.test(position.trim())
+        ? Number.parseFloat(position) / 100
+        : Number.NaN;
+
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw new InputError(
+      `color stop position must be between 0% and 100%, got "${stop}"`
+    );
+  }
+  return value;
+}
+
+/**
+ * Splits a palette entry into its color and position. The position is
+ * undefined when the stop doesn't set one.
+ */
+export function parseColorStop(stop: PaletteStop): {
+  color: string;
+  position: number | undefined;
+} {
+  if (typeof stop !== 'string') {
+    return {
+      color: stop.color.trim(),
+      position:
+        stop.position === undefined
+          ? undefined
+          : parsePosition(stop.position, `${stop.color} ${stop.position}`),
+    };
+  }
+
+  const match = POSITIONED_STOP.exec(stop.trim());
+  return match
+    ? { color: match[1], position: parsePosition(`${match[2]}%`, stop) }
+    : { color: stop.trim(), position: undefined };
+}
+
+/** Writes a palette entry in the `'#7f88ff 70%'` string form. */
+export function formatColorStop(stop: PaletteStop): string {
+  const { color, position } = parseColorStop(stop);
+  return position === undefined
+    ? color
+    : `${color} ${Number((position * 100).toFixed(4))}%`;
+}
+
+/**
+ * Fills in missing stop positions the way CSS gradients do: the first and
+ * last stops default to the ends, unpositioned stops are spread evenly
+ * between their neighbours, and a stop never sits before an earlier one.
+ */
+export function resolveStopPositions(
+  positions: Array<number | undefined>
+): number[] {
+  const resolved = [...positions];
+  if (resolved.length === 0) {
+    return [];
+  }
+
+  resolved[0] ??= 0;
+  resolved[resolved.length - 1] ??= 1;
+
+  let largest = 0;
+  for (let index = 0; index < resolved.length; index += 1) {
+    const position = resolved[index];
+    if (position !== undefined) {
+      largest = Math.max(largest, position);
+      resolved[index] = largest;
+    }
+  }
+
+  let start = 0;
+  for (let index = 1; index < resolved.length; index += 1) {
+    if (resolved[index] === undefined) {
+      continue;
+    }
+
+    const from = resolved[start] as number;
+    const gap = index - start;
+    for (let missing = start + 1; missing < index; missing += 1) {
+      resolved[missing] =
+        from + (((resolved[index] as number) - from) * (missing - start)) / gap;
+    }
+    start = index;
+  }
+
+  return resolved as number[];
+}
+
+/** Reverses a palette, mirroring any stop positions. */
+export function reverseStops(stops: string[]): string[] {
+  return stops
+    .map((stop) => {
+      const { color, position } = parseColorStop(stop);
+      return position === undefined
+        ? stop
+        : formatColorStop({ color, position: 1 - position });
+    })
+    .reverse();
+}
+
+function invalidEasing(easing: string): InputError {
+  return new InputError(
+    `unknown easing "${easing}" (expected linear, ease, ease-in, ease-out, ease-in-out, step-start, step-end, cubic-bezier(x1, y1, x2, y2) or steps(n[, position]))`
+  );
+}
+
+function cubicBezier(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number
+): (position: number) => number {
+  const sample = (a: number, b: number, t: number) =>
+    3 * a * (1 - t) ** 2 * t + 3 * b * (1 - t) * t ** 2 + t ** 3;
+
+  return (position) => {
+    if (position <= 0 || position >= 1) {
+      return position;
+    }
+
+    // x(t) only grows while x1 and x2 are within 0 to 1, so bisection works
+    let low = 0;
+    let high = 1;
+    let t = position;
+    for (let step = 0; step < 32; step += 1) {
+      const x = sample(x1, x2, t);
+      if (Math.abs(x - position) < 1e-7) {
+        break;
+      }
+      if (x < position) {
+        low = t;
+      } else {
+        high = t;
+      }
+      t = (low + high) / 2;
+    }
+
+    return sample(y1, y2, t);
+  };
+}
+
+/** Follows the CSS `steps()` algorithm, including its jump positions. */
+function steps(count: number, jump: string): (position: number) => number {
+  const jumps =
+    jump === 'jump-both' ? count + 1 : jump === 'jump-none' ? count - 1 : count;
+  const jumpsAtStart =
+    jump === 'jump-start' || jump === 'start' || jump === 'jump-both';
+
+  return (position) => {
+    const step =
+      Math.floor(Math.max(0, position) * count) + (jumpsAtStart ? 1 : 0);
+    return Math.min(step, jumps) / jumps;
+  };
+}
+
+/**
+ * Returns the easing function for a CSS easing name, `cubic-bezier()` or
+ * `steps()` expression. Throws an `InputError` for anything else.
+ */
+export function createEasing(
+  easing: Easing = 'linear'
+): (position: number) => number {
+  if (typeof easing === 'function') {
+    return easing;
+  }
+
+  const normalized = easing.trim().toLowerCase();
+
+  if (normalized === 'linear') {
+    return (position) => position;
+  }
+  if (Object.hasOwn(CUBIC_BEZIER_EASINGS, normalized)) {
+    return cubicBezier(...CUBIC_BEZIER_EASINGS[normalized]);
+  }
+  if (normalized === 'step-start' || normalized === 'step-end') {
+    return steps(1, normalized === 'step-start' ? 'jump-start' : 'jump-end');
+  }
+
+  const call = /^([a-z-]+)\((.*)\)$/.exec(normalized);
+  const args = call ? call[2].split(',').map((arg) => arg.trim()) : [];
+
+  if (call?.[1] === 'cubic-bezier' && args.length === 4) {
+    const [x1, y1, x2, y2] = args.map(Number);
+    if (
+      [x1, y1, x2, y2].every(Number.isFinite) &&
+      x1 >= 0 &&
+      x1 <= 1 &&
+      x2 >= 0 &&
+      x2 <= 1
+    ) {
+      return cubicBezier(x1, y1, x2, y2);
+    }
+  }
+
+  if (call?.[1] === 'steps' && (args.length === 1 || args.length === 2)) {
+    const count = Number(args[0]);
+    const jump = args[1] ?? 'jump-end';
+    const minimum = jump === 'jump-none' ? 2 : 1;
+    if (
+      Number.isInteger(count) &&
+      count >= minimum &&
+      STEP_POSITIONS.includes(jump)
+    ) {
+      return steps(count, jump);
+    }
+  }
+
+  throw invalidEasing(easing);
+}
@@ -0,0 +1,214 @@
+import {
+  ditherColors,
+  getColorCode,
+  quantizeColor,
+  TRUECOLOR_LEVEL,
+  type ColorLevel,
+  type DitherMethod,
+} from './colorLevel.js';
+
+export interface CellAttributes {
+  bold?: boolean;
+  dim?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  inverse?: boolean;
+}
+
+/** Where a cell came from in the rendered text. */
+export interface GlyphSource {
+  /** Index of the character in the text. */
+  index: number;
+  /** Index of the word, counting across lines. */
+  word: number;
+  /** Index of the text line. */
+  line: number;
+}
+
+export interface LogoCell {
+  glyph: string;
+  /** Foreground color as a `#rrggbb` hex string, or null for the default. */
+  fg: string | null;
+  /** Background color as a `#rrggbb` hex string, or null for the default. */
+  bg: string | null;
+  attrs: CellAttributes;
+  /** Set on grids built by `createGlyphGrid`. */
+  source?: GlyphSource;
+}
+
+export interface LogoGrid {
+  width: number;
+  height: number;
+  /** One array of cells per line. Rows may be shorter than `width`. */
+  rows: LogoCell[][];
+}
+
+const ansiRegex = /\x1B(?:[@-Z\\-_]|\[[0-?]*[ -/]*[@-~])/g;
+
+export function createCell(glyph: string): LogoCell {
+  return { glyph, fg: null, bg: null, attrs: {} };
+}
+
+export function isBlankCell(cell: LogoCell): boolean {
+  return cell.glyph.trim().length === 0;
+}
+
+export function isBlankRow(row: LogoCell[]): boolean {
+  return row.every(isBlankCell);
+}
+
+export function createGrid(text: string): LogoGrid {
+  const rows = text
+    .replace(ansiRegex, '')
+    .split('\n')
+    .map((line) => [...line].map(createCell));
+
+  return {
+    width: Math.max(0, ...rows.map((row) => row.length)),
+    height: rows.length,
+    rows,
+  };
+}
+
+export function mapGrid(
+  grid: LogoGrid,
+  fn: (cell: LogoCell, x: number, y: number) => LogoCell
+): LogoGrid {
+  return {
+    width: grid.width,
+    height: grid.height,
+    rows: grid.rows.map((row, y) => row.map((cell, x) => fn(cell, x, y))),
+  };
+}
+
+export function gridToText(grid: LogoGrid): string {
+  return grid.rows
+    .map((row) => row.map((cell) => cell.glyph).join(''))
+    .join('\n');
+}
+
+/**
+ * Replaces every color with the one a terminal at `level` would show, so
+ * exporters can preview low-color terminals. `dither` spreads the rounding
+ * across neighbouring cells to avoid banding in wide gradients.
+ */
+export function quantizeGrid(
+  grid: LogoGrid,
+  level: ColorLevel,
+  dither: DitherMethod = 'none'
+): LogoGrid {
+  if (level === TRUECOLOR_LEVEL) {
+    return grid;
+  }
+
+  // Only visible glyphs take part in dithering
+  const fg = ditherColors(
+    grid.rows.map((row) =>
+      row.map((cell) => (isBlankCell(cell) ? null : cell.fg))
+    ),
+    level,
+    dither
+  );
+  const bg = ditherColors(
+    grid.rows.map((row) => row.map((cell) => cell.bg)),
+    level,
+    dither
+  );
+
+  return mapGrid(grid, (cell, x, y) => ({
+    ...cell,
+    fg: isBlankCell(cell) ? cell.fg && quantizeColor(cell.fg, level) : fg[y][x],
+    bg: bg[y][x],
+  }));
+}
+
+function hasAttributes(attrs: CellAttributes): boolean {
+  return Object.values(attrs).some(Boolean);
+}
+
+interface AnsiStyle {
+  open: string;
+  close: string;
+}
+
+function getCellStyle(cell: LogoCell, level: ColorLevel): AnsiStyle | null {
+  const { fg, bg, attrs } = cell;
+  const open: string[] = [];
+  const close: string[] = [];
+
+  if (attrs.bold || attrs.dim) {
+    if (attrs.bold) open.push('1');
+    if (attrs.dim) open.push('2');
+    close.push('22');
+  }
+  if (attrs.italic) {
+    open.push('3');
+    close.push('23');
+  }
+  if (attrs.underline) {
+    open.push('4');
+    close.push('24');
+  }
+  if (attrs.inverse) {
+    open.push('7');
+    close.push('27');
+  }
+  const bgCode = bg && getColorCode(bg, level, 'bg');
+  if (bgCode) {
+    open.push(bgCode);
+    close.push('49');
+  }
+  const fgCode = fg && getColorCode(fg, level, 'fg');
+  if (fgCode) {
+    open.push(fgCode);
+    close.push('39');
+  }
+
+  if (open.length === 0) {
+    return null;
+  }
+
+  return {
+    open: `\x1B[${open.join(';')}m`,
+    close: `\x1B[${close.reverse().join(';')}m`,
+  };
+}
+
+/**
+ * Serializes a grid to a string with ANSI escape sequences. Colors use 24-bit
+ * sequences unless a lower color `level` is given, in which case they are
+ * mapped to the nearest 256 or 16 palette color, or dropped. Adjacent cells
+ * sharing the same style are merged into a single run.
+ */
+export function gridToAnsi(
+  grid: LogoGrid,
+  level: ColorLevel = TRUECOLOR_LEVEL,
+  dither: DitherMethod = 'none'
+): string {
+  const source = dither === 'none' ? grid : quantizeGrid(grid, level, dither);
+
+  return source.rows
+    .map((row) => {
+      let line = '';
+      let current = null as AnsiStyle | null;
+
+      for (const cell of row) {
+        // A foreground color is invisible on a blank cell, so plain blank
+        // cells continue whatever run is open instead of starting a new one
+        const isPlainBlank =
+          isBlankCell(cell) && !cell.bg && !hasAttributes(cell.attrs);
+        const style = isPlainBlank ? current : getCellStyle(cell, level);
+
+        if (style?.open !== current?.open) {
+          if (current) line += current.close;
+          if (style) line += style.open;
+          current = style;
+        }
+
+        line += cell.glyph;
+      }
+
+      return current ? line + current.close : line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,131 @@
+import { isValidColor } from '../color.js';
+import { formatColorStop } from '../gradient.js';
+import { PaletteError } from '../utils/errors.js';
+
+const GRADIENT_FUNCTION = /(?:repeating-)?(linear|radial|conic)-gradient\(/i;
+
+// A color function such as rgb(0 0 0 / 50%), or any single word
+const STOP = /^([a-z-]+\(.*?\)|\S+)\s*(.*)$/i;
+
+const LENGTH = /^-?\d*\.?\d+[a-z%]*$/i;
+
+// Fractions of a full turn, for the angle positions of conic gradients
+const ANGLE_UNITS: Record<string, number> = {
+  deg: 1 / 360,
+  grad: 1 / 400,
+  rad: 1 / (2 * Math.PI),
+  turn: 1,
+};
+
+function splitArguments(body: string): string[] {
+  const args = [''];
+  let depth = 0;
+  for (const char of body) {
+    if (char === ',' && depth === 0) {
+      args.push('');
+      continue;
+    }
+    if (char === '(') {
+      depth += 1;
+    } else if (char === ')') {
+      depth -= 1;
+    }
+    args[args.length - 1] += char;
+  }
+  return args.map((arg) => arg.trim());
+}
+
+function parsePosition(token: string, conic: boolean, name: string): number {
+  const match = /^(-?\d*\.?\d+)([a-z%]*)$/i.exec(token);
+  const value = Number(match?.[1]);
+  const unit = match?.[2].toLowerCase() ?? '';
+  const scale = unit === '%' ? 1 / 100 : conic ? ANGLE_UNITS[unit] : undefined;
+
+  // CSS allows a unitless zero in place of any length or angle
+  if (!match || (scale === undefined && !(value === 0 && unit === ''))) {
+    throw new PaletteError(
+      name,
+      `stop positions must be percentages${conic ? ' or angles' : ''}, got "${token}"`
+    );
+  }
+
+  const position = value * (scale ?? 0);
+  if (position < 0 || position > 1) {
+    throw new PaletteError(
+      name,
+      `stop positions must be between 0% and 100%, got "${token}"`
+    );
+  }
+  return position;
+}
+
+/**
+ * Reads the first `linear-gradient()`, `radial-gradient()` or
+ * `conic-gradient()` (or repeating variant) in a CSS string, such as
+ * `background: linear-gradient(to right, #ff0066, #7f00ff 70%, #00ccff)`.
+ * The gradient line or shape and interpolation hints are ignored; stop
+ * positions must be percentages, or angles in conic gradients.
+ */
+export function parseCssGradient(
+  source: string,
+  name = 'CSS gradient'
+): string[] {
+  const match = GRADIENT_FUNCTION.exec(source);
+  if (!match) {
+    throw new PaletteError(
+      name,
+      'must contain a linear-gradient(), radial-gradient() or conic-gradient()'
+    );
+  }
+
+  const start = match.index + match[0].length;
+  let depth = 1;
+  let end = start;
+  while (end < source.length && depth > 0) {
+    depth += source[end] === '(' ? 1 : source[end] === ')' ? -1 : 0;
+    end += 1;
+  }
+  if (depth > 0) {
+    throw new PaletteError(name, `${match[0]} is missing its closing ")"`);
+  }
+
+  const conic = match[1].toLowerCase() === 'conic';
+  const args = splitArguments(source.slice(start, end - 1));
+  const stops: string[] = [];
+
+  args.forEach((arg, index) => {
+    const [, color, rest] = STOP.exec(arg) ?? [arg, arg, ''];
+    // The first argument may set the direction or shape instead of a stop
+    if (index === 0 && !isValidColor(color)) {
+      return;
+    }
+    // Interpolation hints only move the midpoint between two stops
+    if (rest === '' && LENGTH.test(color)) {
+      return;
+    }
+    if (!isValidColor(color)) {
+      throw new PaletteError(name, `unsupported color "${color}"`);
+    }
+
+    const positions = rest.split(/\s+/).filter((token) => token.length > 0);
+    if (positions.length > 2) {
+      throw new PaletteError(
+        name,
+        `stop "${arg}" must have at most two positions`
+      );
+    }
+    if (positions.length === 0) {
+      stops.push(color);
+    }
+    for (const token of positions) {
+      stops.push(
+        formatColorStop({ color, position: parsePosition(token, conic, name) })
+      );
+    }
+  });
+
+  if (stops.length === 0) {
+    throw new PaletteError(name, `${match[0]}) contains no color stops`);
+  }
+  return stops;
+}
@@ -0,0 +1,102 @@
+import { formatHex, type Rgb } from '../color.js';
+import { formatColorStop } from '../gradient.js';
+import { PaletteError } from '../utils/errors.js';
+
+// Blend type of segments that jump from the left to the right color
+const BLEND_STEP = 5;
+
+interface Stop {
+  color: string;
+  position: number;
+}
+
+function toHex(channels: number[]): string {
+  return formatHex(channels.map((channel) => channel * 255) as Rgb);
+}
+
+/**
+ * Reads a GIMP gradient (`.ggr`): a `GIMP Gradient` header, an optional
+ * `Name:` line, the number of segments, then one line per segment holding
+ * its left, middle and right positions, left and right RGBA colors (all from
+ * 0 to 1) and blend type.
+ *
+ * Each segment becomes stops at its ends, plus one at its middle point when
+ * that isn't centered. Curved, sine and sphere blends are approximated by
+ * straight ones, alpha is dropped and HSV segments are blended in RGB.
+ */
+export function parseGgr(source: string, name = 'GIMP gradient'): string[] {
+  const lines = source
+    .split(/\r?\n/)
+    .map((text, index) => ({ text: text.trim(), number: index + 1 }))
+    .filter(({ text }) => text.length > 0);
+  if (lines[0]?.text !== 'GIMP Gradient') {
+    throw new PaletteError(name, 'must start with "GIMP Gradient"');
+  }
+
+  const countLine = lines[1]?.text.startsWith('Name:') ? 2 : 1;
+  const count = Number(lines[countLine]?.text);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new PaletteError(
+      name,
+      'must give the number of segments after the header'
+    );
+  }
+
+  const segments = lines.slice(countLine + 1);
+  if (segments.length !== count) {
+    throw new PaletteError(
+      name,
+      `declares ${count} segments but has ${segments.length}`
+    );
+  }
+
+  const stops: Stop[] = [];
+  for (const { text, number } of segments) {
+    const fields = text.split(/\s+/).map(Number);
+    if (fields.length < 13 || fields.some((field) => !Number.isFinite(field))) {
+      throw new PaletteError(
+        name,
+        `line ${number} must be a segment of at least 13 numbers, got "${text}"`
+      );
+    }
+
+    const [left, middle, right] = fields;
+    if (!(left >= 0 && left <= middle && middle <= right && right <= 1)) {
+      throw new PaletteError(
+        name,
+        `line ${number} must have left, middle and right positions in order from 0 to 1`
+      );
+    }
+
+    const leftColor = toHex(fields.slice(3, 6));
+    const rightColor = toHex(fields.slice(7, 10));
+    if (fields[11] === BLEND_STEP) {
+      stops.push(
+        { color: leftColor, position: left },
+        { color: leftColor, position: middle },
+        { color: rightColor, position: middle },
+        { color: rightColor, position: right }
+      );
+      continue;
+    }
+
+    stops.push({ color: leftColor, position: left });
+    if (Math.abs(middle - (left + right) / 2) > 1e-6) {
+      const average = fields
+        .slice(3, 6)
+        .map((channel, index) => (channel + fields[7 + index]) / 2);
+      stops.push({ color: toHex(average), position: middle });
+    }
+    stops.push({ color: rightColor, position: right });
+  }
+
+  // Neighbouring segments usually share their touching color
+  return stops
+    .filter(
+      (stop, index) =>
+        index === 0 ||
+        stop.color !== stops[index - 1].color ||
+        stop.position !== stops[index - 1].position
+    )
+    .map(formatColorStop);
+}
@@ -0,0 +1,39 @@
+import { formatHex, type Rgb } from '../color.js';
+import { PaletteError } from '../utils/errors.js';
+
+const COLOR_LINE = /^(\d+)\s+(\d+)\s+(\d+)(?:\s.*)?$/;
+
+/**
+ * Reads a GIMP palette (`.gpl`): a `GIMP Palette` header, optional `Name:`
+ * and `Columns:` lines and `#` comments, then one `R G B [label]` line per
+ * color with channels from 0 to 255. Returns the colors in file order.
+ */
+export function parseGpl(source: string, name = 'GIMP palette'): string[] {
+  const lines = source.split(/\r?\n/).map((line) => line.trim());
+  const header = lines.findIndex((line) => line.length > 0);
+  if (header === -1 || lines[header] !== 'GIMP Palette') {
+    throw new PaletteError(name, 'must start with "GIMP Palette"');
+  }
+
+  const colors: string[] = [];
+  lines.slice(header + 1).forEach((line, index) => {
+    if (line === '' || line.startsWith('#') || /^(Name|Columns):/.test(line)) {
+      return;
+    }
+
+    const match = COLOR_LINE.exec(line);
+    const rgb = match?.slice(1, 4).map(Number) as Rgb | undefined;
+    if (!rgb || rgb.some((channel) => channel > 255)) {
+      throw new PaletteError(
+        name,
+        `line ${header + index + 2} must be red, green and blue values from 0 to 255, got "${line}"`
+      );
+    }
+    colors.push(formatHex(rgb));
+  });
+
+  if (colors.length === 0) {
+    throw new PaletteError(name, 'contains no colors');
+  }
+  return colors;
+}
@@ -0,0 +1,86 @@
+import { isValidColor } from '../color.js';
+import {
+  formatColorStop,
+  parseColorStop,
+  type PaletteStop,
+} from '../gradient.js';
+import { InputError, PaletteError } from '../utils/errors.js';
+
+// Keys a theme may keep its colors under, in order of preference
+const COLOR_KEYS = ['colors', 'palette', 'stops'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function findColors(theme: unknown): unknown[] | null {
+  if (Array.isArray(theme)) {
+    return theme;
+  }
+  if (!isObject(theme)) {
+    return null;
+  }
+
+  const key = COLOR_KEYS.find((name) => name in theme);
+  if (key) {
+    return findColors(theme[key]);
+  }
+
+  // A map of named colors; other strings, such as a theme name, are skipped
+  const colors = Object.values(theme).filter(
+    (value) => typeof value === 'string' && isValidColor(value)
+  );
+  return colors.length > 0 ? colors : null;
+}
+
+/**
+ * Reads a JSON theme: a list of colors, an object keeping that list under
+ * `colors`, `palette` or `stops`, or a map of named colors such as
+ * `{ "primary": "#ff0066", "accent": "#00ccff" }`. List entries may be
+ * positioned stops, as in `--palette-colors`.
+ */
+export function parseJsonTheme(source: string, name = 'JSON theme'): string[] {
+  let theme: unknown;
+  try {
+    theme = JSON.parse(source);
+  } catch (error) {
+    throw new PaletteError(
+      name,
+      `could not be parsed: ${(error as Error).message}`
+    );
+  }
+
+  const colors = findColors(theme);
+  if (!colors || colors.length === 0) {
+    throw new PaletteError(
+      name,
+      'must be a list of colors, an object with a "colors" list or a map of named colors'
+    );
+  }
+
+  return colors.map((entry, index) => {
+    if (
+      typeof entry !== 'string' &&
+      !(isObject(entry) && typeof entry.color === 'string')
+    ) {
+      throw new PaletteError(
+        name,
+        `entry ${index + 1} must be a color or a {"color", "position"} object`
+      );
+    }
+
+    try {
+      const stop = parseColorStop(entry as PaletteStop);
+      if (!isValidColor(stop.color)) {
+        throw new PaletteError(name, `unsupported color "${stop.color}"`);
+      }
+      return formatColorStop(stop);
+    } catch (error) {
+      // Stop positions out of range
+      if (error instanceof InputError) {
+        throw new PaletteError(name, error.input);
+      }
+      throw error;
+    }
+  });
+}
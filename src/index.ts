@@ -1,21 +1,69 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, type Option } from 'commander';
 import {
+  animate,
+  playAnimation,
   render,
-  renderFilled,
+  renderFilledSync,
+  renderSvg,
+  renderHtml,
+  renderPng,
+  renderAsciicast,
+  renderGif,
   getPaletteNames,
+  getPaletteInfo,
+  renderPaletteSwatch,
+  renderPaletteText,
+  PALETTE_TAGS,
+  type PaletteInfo,
+  type PaletteTag,
   getPalettePreview,
-  PALETTES,
+  type PaletteName,
+  loadUserPalettes,
+  loadPalette,
+  resolvePalette,
+  exportPalette,
+  generatePalette,
+  randomPalette,
+  PALETTE_HARMONIES,
+  type PaletteHarmony,
+  PALETTE_EXPORT_FORMATS,
   DEFAULT_FONT,
   DEFAULT_PALETTE,
   resolveColors,
+  getAnimationEffectNames,
+  type AnimationEffectName,
+  type ColorLevel,
+  type DitherMethod,
+  DITHER_METHODS,
+  type HuePath,
+  HUE_PATHS,
+  type InterpolationSpace,
+  INTERPOLATION_SPACES,
+  type Easing,
+  createEasing,
+  type GradientDirection,
+  parseGradientGeometry,
+  type GradientScope,
+  GRADIENT_SCOPES,
+  formatColorStop,
+  reverseStops,
+  parsePaletteTransform,
+  transformPalette,
+  type TimelineOptions,
 } from './lib.js';
-import { shouldUseColor, stripAnsiCodes } from './utils/stdout.js';
-import { PaletteError, InputError } from './utils/errors.js';
-import { readFileSync } from 'fs';
+import { detectColorLevel, stripAnsiCodes } from './utils/stdout.js';
+import { ColorError, PaletteError, InputError } from './utils/errors.js';
+import {
+  getEnvName,
+  loadConfig,
+  parseEnvBoolean,
+  type LoadedConfig,
+} from './config.js';
+import { readFileSync, writeFileSync } from 'fs';
 import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
+import { dirname, extname, join } from 'path';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -44,8 +92,19 @@ function parseJsonPalette(value: string): string[] {
       }
 
       const normalized = parsed.map((color) => {
+        // Positioned stops can be written as {"color": "#fff", "position": "70%"}
+        if (
+          color !== null &&
+          typeof color === 'object' &&
+          typeof color.color === 'string'
+        ) {
+          return formatColorStop(color);
+        }
+
         if (typeof color !== 'string') {
-          throw new InputError('custom palette colors must be strings');
+          throw new InputError(
+            'custom palette colors must be strings or {"color", "position"} objects'
+          );
         }
 
         const trimmedColor = color.trim();
@@ -73,7 +132,8 @@ function parseJsonPalette(value: string): string[] {
 
 function parseCommaSeparatedPalette(value: string): string[] {
   const colors = value
-    .split(',')
+    // Commas inside color functions such as rgb(255, 0, 0) don't split
+    .split(/,(?![^(]*\))/)
     .map((part) => stripWrappingQuotes(part.trim()).trim())
     .filter((part) => part.length > 0);
 
@@ -110,6 +170,646 @@ function parsePaletteColorsOption(colors: string): string[] {
   return parseCommaSeparatedPalette(unwrapped);
 }
 
+const OUTPUT_FORMATS = [
+  'ansi',
+  'svg',
+  'html',
+  'png',
+  'gif',
+  'asciicast',
+] as const;
+type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// File extensions that differ from the format name
+const FORMAT_EXTENSIONS: Record<string, OutputFormat> = { cast: 'asciicast' };
+
+function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+function resolveOutputFormat(
+  format: string | undefined,
+  output: string | undefined
+): OutputFormat {
+  if (format !== undefined) {
+    const normalized = format.trim().toLowerCase();
+    if (!isOutputFormat(normalized)) {
+      throw new InputError(
+        `unsupported format "${format}" (expected one of: ${OUTPUT_FORMATS.join(', ')})`
+      );
+    }
+    return normalized;
+  }
+
+  // Infer the format from the output file extension, e.g. logo.svg
+  const extension = output ? extname(output).slice(1).toLowerCase() : '';
+  if (Object.hasOwn(FORMAT_EXTENSIONS, extension)) {
+    return FORMAT_EXTENSIONS[extension];
+  }
+  return isOutputFormat(extension) ? extension : 'ansi';
+}
+
+function isAnimationEffect(value: string): value is AnimationEffectName {
+  return (getAnimationEffectNames() as string[]).includes(value);
+}
+
+function parseAnimationEffect(value: string | true): AnimationEffectName {
+  if (value === true) {
+    return 'gradient-shift';
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (!isAnimationEffect(normalized)) {
+    throw new InputError(
+      `unknown animation "${value}" (expected one of: ${getAnimationEffectNames().join(', ')})`
+    );
+  }
+  return normalized;
+}
+
+function parseDuration(value: string): number {
+  // Accepts "3s", "1.5s" or "1500ms"; bare numbers are milliseconds
+  const match = /^(\d+(?:\.\d+)?)\s*(ms|s)?$/i.exec(value.trim());
+  if (!match) {
+    throw new InputError(
+      `invalid duration "${value}" (expected e.g. 3s or 1500ms)`
+    );
+  }
+
+  const amount = Number(match[1]);
+  return match[2]?.toLowerCase() === 's' ? amount * 1000 : amount;
+}
+
+function parseLoop(value: string): number {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'infinite') {
+    return Infinity;
+  }
+
+  const count = Number(normalized);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new InputError(
+      `invalid loop count "${value}" (expected a positive integer or "infinite")`
+    );
+  }
+  return count;
+}
+
+function parseSteps(value: string): number {
+  const steps = Number(value.trim());
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new InputError(
+      `invalid steps "${value}" (expected a positive integer)`
+    );
+  }
+  return steps;
+}
+
+function parseLetterSpacing(value: string): number {
+  const spacing = Number(value.trim());
+  if (!Number.isInteger(spacing)) {
+    throw new InputError(
+      `invalid letter spacing "${value}" (expected an integer)`
+    );
+  }
+  if (spacing < 0) {
+    throw new InputError('Letter spacing must be 0 or greater');
+  }
+  return spacing;
+}
+
+function parseScale(value: string): number {
+  const scale = Number(value.trim());
+  if (!Number.isInteger(scale) || scale < 1) {
+    throw new InputError(
+      `invalid scale "${value}" (expected a positive integer)`
+    );
+  }
+  return scale;
+}
+
+function parsePadding(value: string): number {
+  const padding = Number(value.trim());
+  if (!Number.isInteger(padding) || padding < 0) {
+    throw new InputError(
+      `invalid padding "${value}" (expected 0 or a positive integer)`
+    );
+  }
+  return padding;
+}
+
+function parseFps(value: string): number {
+  const fps = Number(value);
+  if (!Number.isFinite(fps) || fps <= 0 || fps > 120) {
+    throw new InputError(
+      `invalid fps "${value}" (expected a number from 1 to 120)`
+    );
+  }
+  return fps;
+}
+
+const COLOR_LEVEL_NAMES: Record<string, ColorLevel> = {
+  none: 0,
+  '16': 1,
+  '256': 2,
+  truecolor: 3,
+};
+
+function parseColorLevel(value: string): ColorLevel {
+  const normalized = value.trim().toLowerCase();
+  if (/^[0-3]$/.test(normalized)) {
+    return Number(normalized) as ColorLevel;
+  }
+  if (!Object.hasOwn(COLOR_LEVEL_NAMES, normalized)) {
+    throw new InputError(
+      `invalid color level "${value}" (expected none, 16, 256, truecolor or 0-3)`
+    );
+  }
+  return COLOR_LEVEL_NAMES[normalized];
+}
+
+function parseDither(value: string): DitherMethod {
+  const normalized = value.trim().toLowerCase();
+  if (!(DITHER_METHODS as string[]).includes(normalized)) {
+    throw new InputError(
+      `unknown dither method "${value}" (expected one of: ${DITHER_METHODS.join(', ')})`
+    );
+  }
+  return normalized as DitherMethod;
+}
+
+function parseHarmony(value: string): PaletteHarmony {
+  const normalized = value.trim().toLowerCase();
+  if (!(PALETTE_HARMONIES as string[]).includes(normalized)) {
+    throw new InputError(
+      `unknown harmony "${value}" (expected one of: ${PALETTE_HARMONIES.join(', ')})`
+    );
+  }
+  return normalized as PaletteHarmony;
+}
+
+function parseSeed(value: string): number {
+  const seed = Number(value.trim());
+  if (!Number.isSafeInteger(seed)) {
+    throw new InputError(`invalid seed "${value}" (expected an integer)`);
+  }
+  return seed;
+}
+
+function parseInterpolation(value: string): InterpolationSpace {
+  const normalized = value.trim().toLowerCase();
+  if (!(INTERPOLATION_SPACES as string[]).includes(normalized)) {
+    throw new InputError(
+      `unknown interpolation "${value}" (expected one of: ${INTERPOLATION_SPACES.join(', ')})`
+    );
+  }
+  return normalized as InterpolationSpace;
+}
+
+function parseHuePath(value: string): HuePath {
+  const normalized = value.trim().toLowerCase();
+  if (!(HUE_PATHS as string[]).includes(normalized)) {
+    throw new InputError(
+      `unknown hue path "${value}" (expected one of: ${HUE_PATHS.join(', ')})`
+    );
+  }
+  return normalized as HuePath;
+}
+
+function parseGradientScope(
+  value: string | undefined
+): GradientScope | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (!(GRADIENT_SCOPES as string[]).includes(normalized)) {
+    throw new InputError(
+      `unknown gradient scope "${value}" (expected one of: ${GRADIENT_SCOPES.join(', ')})`
+    );
+  }
+  return normalized as GradientScope;
+}
+
+function parseEasing(value: string): Easing {
+  // Throws for anything that isn't a CSS easing
+  createEasing(value as Easing);
+  return value.trim() as Easing;
+}
+
+function parseDirection(
+  value: string | undefined
+): GradientDirection | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (
+    normalized !== 'horizontal' &&
+    normalized !== 'vertical' &&
+    !parseGradientGeometry(normalized)
+  ) {
+    throw new InputError(
+      `unknown direction "${value}" (expected horizontal, vertical, diagonal, radial, conic, conic <angle>deg or an angle such as 135deg)`
+    );
+  }
+  return normalized as GradientDirection;
+}
+
+function resolveColorLevel(options: {
+  color?: boolean;
+  colorLevel?: string;
+}): ColorLevel {
+  // Commander sets `color` to true for --color and false for --no-color
+  if (options.color === false) {
+    return 0;
+  }
+
+  return detectColorLevel({
+    forceColor: options.color === true,
+    level:
+      options.colorLevel === undefined
+        ? undefined
+        : parseColorLevel(options.colorLevel),
+  });
+}
+
+// Actions rather than settings, so config files and env can't trigger them
+const ACTION_OPTIONS = [
+  'version',
+  'listPalettes',
+  'tag',
+  'search',
+  'json',
+  'sample',
+  'gallery',
+  'printConfig',
+  'exportPalette',
+  'exportFormat',
+  'steps',
+];
+
+type SettingSource = 'cli' | 'config' | 'env' | 'default';
+
+const SOURCE_RANKS: Record<SettingSource, number> = {
+  default: 0,
+  env: 1,
+  config: 2,
+  cli: 3,
+};
+
+function getSettingOptions(command: Command): Map<string, Option> {
+  const options = new Map<string, Option>();
+  for (const option of command.options) {
+    const key = option.attributeName();
+    // --color and --no-color share the `color` setting
+    if (!ACTION_OPTIONS.includes(key) && !options.has(key)) {
+      options.set(key, option);
+    }
+  }
+  return options;
+}
+
+function parseOptionArgument(option: Option, value: string): unknown {
+  return option.parseArg ? option.parseArg(value, undefined) : value;
+}
+
+function parseConfigSetting(
+  option: Option,
+  value: unknown,
+  path: string
+): unknown {
+  const key = option.attributeName();
+
+  if (!option.required && !option.optional) {
+    if (typeof value !== 'boolean') {
+      throw new InputError(`"${key}" in ${path} must be true or false`);
+    }
+    return value;
+  }
+
+  // Options with an optional argument, like --animate, also take a boolean
+  if (option.optional && typeof value === 'boolean') {
+    return value || undefined;
+  }
+  if (key === 'paletteColors' && Array.isArray(value)) {
+    return JSON.stringify(value);
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new InputError(`"${key}" in ${path} must be a string or number`);
+  }
+  return parseOptionArgument(option, String(value));
+}
+
+function parseEnvSetting(option: Option, value: string, name: string): unknown {
+  if (!option.required && !option.optional) {
+    return parseEnvBoolean(value, name);
+  }
+
+  if (option.optional && /^(1|0|true|false|yes|no|on|off)$/i.test(value)) {
+    return parseEnvBoolean(value, name) || undefined;
+  }
+  return parseOptionArgument(option, value);
+}
+
+/**
+ * Fills in every option not given on the command line from the config file,
+ * then from `OHMYLOGO_*` environment variables, recording where each value
+ * came from.
+ */
+function applySettings(
+  command: Command,
+  config: LoadedConfig | null,
+  env: NodeJS.ProcessEnv
+): void {
+  const options = getSettingOptions(command);
+  const settings = { ...config?.config };
+
+  for (const key of Object.keys(settings)) {
+    if (key !== 'palette' && !options.has(key)) {
+      throw new InputError(`unknown setting "${key}" in ${config?.path}`);
+    }
+  }
+
+  // A list of colors under `palette` works like `paletteColors`
+  if (Array.isArray(settings.palette)) {
+    settings.paletteColors ??= settings.palette;
+    delete settings.palette;
+  } else if (
+    settings.palette !== undefined &&
+    typeof settings.palette !== 'string'
+  ) {
+    throw new InputError(
+      `"palette" in ${config?.path} must be a palette name or a list of colors`
+    );
+  }
+
+  for (const [key, option] of options) {
+    if (command.getOptionValueSource(key) === 'cli') {
+      continue;
+    }
+
+    const envName = getEnvName(key);
+    if (config && key in settings) {
+      command.setOptionValueWithSource(
+        key,
+        parseConfigSetting(option, settings[key], config.path),
+        'config'
+      );
+    } else if (env[envName] !== undefined) {
+      command.setOptionValueWithSource(
+        key,
+        parseEnvSetting(option, env[envName], envName),
+        'env'
+      );
+    }
+  }
+}
+
+function getPaletteSetting(
+  paletteArg: string | undefined,
+  config: LoadedConfig | null,
+  env: NodeJS.ProcessEnv
+): { value: string; source: SettingSource } {
+  if (paletteArg !== undefined) {
+    return { value: paletteArg, source: 'cli' };
+  }
+  if (typeof config?.config.palette === 'string') {
+    return { value: config.config.palette, source: 'config' };
+  }
+  if (env.OHMYLOGO_PALETTE !== undefined) {
+    return { value: env.OHMYLOGO_PALETTE, source: 'env' };
+  }
+  return { value: DEFAULT_PALETTE, source: 'default' };
+}
+
+function getSourceRank(command: Command, key: string): number {
+  const value = command.getOptionValue(key);
+  return value === undefined || value === null || value === false
+    ? -1
+    : SOURCE_RANKS[
+        (command.getOptionValueSource(key) ?? 'default') as SettingSource
+      ];
+}
+
+function getRandomPalette(command: Command): string[] {
+  const { seed, harmony } = command.opts();
+  const palette = randomPalette({
+    seed,
+    harmony: harmony === undefined ? undefined : parseHarmony(harmony),
+  });
+
+  // On stderr, so piped logos stay clean
+  console.error(
+    `Random palette (--seed ${palette.seed} --harmony ${palette.harmony}): --palette-colors "${palette.colors.join(',')}"`
+  );
+  return palette.colors;
+}
+
+/**
+ * Picks `--palette-colors`, `--palette-file`, `--palette-from`,
+ * `--random-palette` or the palette name, in that order, skipping any set
+ * by a lower-ranked source than a later one.
+ */
+function resolvePaletteInput(
+  command: Command,
+  palette: { value: string; source: SettingSource }
+): string | string[] {
+  const inputs: Array<[rank: number, resolve: () => string | string[]]> = [
+    [
+      getSourceRank(command, 'paletteColors'),
+      () => parsePaletteColorsOption(command.getOptionValue('paletteColors')),
+    ],
+    [
+      getSourceRank(command, 'paletteFile'),
+      () => loadPalette(command.getOptionValue('paletteFile')),
+    ],
+    [
+      getSourceRank(command, 'paletteFrom'),
+      () => {
+        const harmony = command.getOptionValue('harmony');
+        return generatePalette(command.getOptionValue('paletteFrom'), {
+          harmony: harmony === undefined ? undefined : parseHarmony(harmony),
+        });
+      },
+    ],
+    [getSourceRank(command, 'randomPalette'), () => getRandomPalette(command)],
+    [SOURCE_RANKS[palette.source], () => parsePaletteArgument(palette.value)],
+  ];
+
+  let [rank, resolve] = inputs[0];
+  for (const input of inputs) {
+    if (input[0] > rank) {
+      [rank, resolve] = input;
+    }
+  }
+  return resolve();
+}
+
+function parsePaletteTag(value: string): PaletteTag {
+  const normalized = value.trim().toLowerCase();
+  if (!(PALETTE_TAGS as string[]).includes(normalized)) {
+    throw new InputError(
+      `unknown palette tag "${value}" (expected one of: ${PALETTE_TAGS.join(', ')})`
+    );
+  }
+  return normalized as PaletteTag;
+}
+
+// figlet font for --sample unless --font is set
+const SAMPLE_FONT = 'Small';
+
+async function listPalettes(
+  options: {
+    tag?: string;
+    search?: string;
+    json?: boolean;
+    sample?: string;
+    color?: boolean;
+    colorLevel?: string;
+    dither: string;
+    interpolation: string;
+    huePath: string;
+    easing: string;
+  },
+  font: string
+): Promise<void> {
+  const palettes = getPaletteNames({
+    tag: options.tag === undefined ? undefined : parsePaletteTag(options.tag),
+    search: options.search,
+  }).map((name) => getPaletteInfo(name) as PaletteInfo);
+
+  if (options.json) {
+    console.log(JSON.stringify(palettes, null, 2));
+    return;
+  }
+  if (palettes.length === 0) {
+    console.log('No palettes match.');
+    return;
+  }
+
+  const colorLevel = resolveColorLevel(options);
+  const swatchOptions = {
+    colorLevel,
+    dither: parseDither(options.dither),
+    interpolation: parseInterpolation(options.interpolation),
+    huePath: parseHuePath(options.huePath),
+    easing: parseEasing(options.easing),
+  };
+  const width = Math.max(12, ...palettes.map(({ name }) => name.length));
+
+  console.log('Available palettes:');
+  for (const { name, colors, description, tags } of palettes) {
+    const padding = ' '.repeat(width - name.length);
+    const preview = getPalettePreview(name as PaletteName);
+
+    // Without color, the hex codes are the only preview there is
+    if (colorLevel > 0) {
+      const label = renderPaletteText(name, colors, swatchOptions);
+      const swatch = renderPaletteSwatch(colors, swatchOptions);
+      console.log(`  - ${label}${padding} ${swatch} ${preview}`);
+    } else {
+      console.log(`  - ${name}${padding} ${preview}`);
+    }
+
+    if (description || tags.length > 0) {
+      const details = tags.length > 0 ? ` (${tags.join(', ')})` : '';
+      console.log(
+        `    ${' '.repeat(width)} ${description}${details}`.trimEnd()
+      );
+    }
+
+    if (options.sample !== undefined) {
+      const logo = await render(options.sample, {
+        palette: colors,
+        font,
+        ...swatchOptions,
+      });
+      const output = colorLevel > 0 ? logo : stripAnsiCodes(logo);
+      console.log(
+        output
+          .split('\n')
+          .map((line) => `    ${line}`.trimEnd())
+          .join('\n')
+      );
+    }
+  }
+}
+
+function printConfig(
+  command: Command,
+  config: LoadedConfig | null,
+  palette: { value: string; source: SettingSource }
+): void {
+  const rows = [['palette', palette.value, palette.source]];
+
+  for (const key of getSettingOptions(command).keys()) {
+    const value = command.getOptionValue(key);
+    const source = command.getOptionValueSource(key);
+    if (value !== undefined) {
+      rows.push([
+        key,
+        String(value),
+        source === 'env' ? `env ${getEnvName(key)}` : String(source),
+      ]);
+    }
+  }
+
+  console.log(`Config file: ${config ? config.path : 'none'}`);
+  const keyWidth = Math.max(...rows.map(([key]) => key.length));
+  const valueWidth = Math.max(...rows.map(([, value]) => value.length));
+  for (const [key, value, source] of rows) {
+    console.log(
+      `  ${key.padEnd(keyWidth)}  ${value.padEnd(valueWidth)}  (${source})`
+    );
+  }
+}
+
+/**
+ * Prints `--export-palette <name>`. The colors come from `--palette-colors`,
+ * `--palette-file`, `--palette-from` or `--random-palette` when one is given,
+ * and from the palette called `name` otherwise.
+ */
+function printPaletteExport(command: Command, name: string): void {
+  const options = command.opts();
+  const paletteInput = resolvePaletteInput(command, {
+    value: name,
+    source: 'cli',
+  });
+  const colors =
+    typeof paletteInput === 'string'
+      ? resolvePalette(paletteInput)
+      : paletteInput;
+  if (!colors) {
+    throw new PaletteError(name);
+  }
+
+  process.stdout.write(
+    exportPalette(name, colors, {
+      format: options.exportFormat,
+      steps:
+        options.steps === undefined ? undefined : parseSteps(options.steps),
+      interpolation: parseInterpolation(options.interpolation),
+      huePath: parseHuePath(options.huePath),
+      easing: parseEasing(options.easing),
+    })
+  );
+}
+
+function writeOutput(
+  content: string | Uint8Array,
+  output: string | undefined
+): void {
+  if (output) {
+    writeFileSync(output, content);
+    return;
+  }
+
+  process.stdout.write(content);
+}
+
 program
   .name('oh-my-logo')
   .description(
@@ -120,23 +820,81 @@ program
     '[text]',
     'Text to display (use "\\n" for newlines or "-" for stdin)'
   )
-  .argument('[palette]', 'Color palette to use', DEFAULT_PALETTE)
+  .argument(
+    '[palette]',
+    `Color palette to use, built in or from the user palette file (default: "${DEFAULT_PALETTE}")`
+  )
   .option(
     '--palette-colors <colors>',
     'Custom colors as JSON array or comma-separated list'
   )
   .option(
-    '-f, --font <name>',
-    'Figlet font name',
-    process.env.OHMYLOGO_FONT || DEFAULT_FONT
+    '--palette-file <path>',
+    'Palette from a GIMP palette (.gpl) or gradient (.ggr), CSS gradient or JSON theme file'
+  )
+  .option(
+    '--palette-from <color>',
+    'Generate a palette from one seed color with --harmony'
+  )
+  .option(
+    '--harmony <rule>',
+    `Color harmony for generated palettes: ${PALETTE_HARMONIES.join(', ')} (default: analogous, random for --random-palette)`
+  )
+  .option(
+    '--random-palette',
+    'Generate a random palette and print its colors to stderr'
+  )
+  .option(
+    '--seed <number>',
+    'Seed that makes --random-palette repeatable',
+    parseSeed
   )
+  .option('-f, --font <name>', 'Figlet font name', DEFAULT_FONT)
   .option('-l, --list-palettes', 'List available palettes')
+  .option(
+    '--tag <tag>',
+    `Only list palettes with a tag: ${PALETTE_TAGS.join(', ')}`
+  )
+  .option(
+    '--search <text>',
+    'Only list palettes whose name, description or source mention the text'
+  )
+  .option('--json', 'List palettes as JSON, with their metadata')
+  .option(
+    '--sample <text>',
+    'Render a small logo of the text in each listed palette'
+  )
   .option('--gallery', 'Render text in all available palettes')
+  .option(
+    '--export-palette <name>',
+    'Print a palette as CSS variables, SCSS, a Tailwind config, JSON or a GIMP palette'
+  )
+  .option(
+    '--export-format <format>',
+    `Format for --export-palette: ${PALETTE_EXPORT_FORMATS.join(', ')} (default: css)`
+  )
+  .option(
+    '--steps <n>',
+    'Export this many colors sampled from the gradient instead of its stops'
+  )
+  .option(
+    '--print-config',
+    'Show the resolved settings and where each one comes from'
+  )
   .option('--color', 'Force color output even in pipes')
+  .option(
+    '--color-level <level>',
+    'Color depth: none, 16, 256 or truecolor (detected by default)'
+  )
+  .option(
+    '--dither <method>',
+    'Dithering for 16 and 256 color output: bayer, floyd or none',
+    'none'
+  )
   .option('--no-color', 'Disable color output')
   .option(
     '-d, --direction <dir>',
-    'Gradient direction: horizontal, vertical, or diagonal'
+    'Gradient direction: horizontal, vertical, diagonal, an angle such as 135deg, radial, or conic'
   )
   .option('--filled', 'Use filled characters instead of outlined ASCII art')
   .option(
@@ -147,28 +905,222 @@ program
   .option(
     '--letter-spacing <number>',
     'Letter spacing for filled mode',
-    parseInt
+    parseLetterSpacing
   )
   .option('--reverse-gradient', 'Reverse gradient colors')
-  .action(async (text: string | undefined, paletteArg: string, options) => {
-    try {
-      if (options.listPalettes) {
-        console.log('Available palettes:');
-        getPaletteNames().forEach((name) => {
-          const preview = getPalettePreview(name as keyof typeof PALETTES);
-          console.log(`  - ${name.padEnd(12)} ${preview}`);
-        });
-        process.exit(0);
-      }
+  .option(
+    '--palette-transform <list>',
+    'Palette operations to apply in order, e.g. "mirror,darken:10%"'
+  )
+  .option(
+    '--interpolation <space>',
+    'Color space gradients blend in: rgb, hsv, lab or oklch',
+    'rgb'
+  )
+  .option(
+    '--hue-path <path>',
+    'Hue direction for hsv and oklch gradients: short or long',
+    'short'
+  )
+  .option(
+    '--easing <easing>',
+    'Gradient easing: linear, ease-in, ease-out, ease-in-out, cubic-bezier(...) or steps(n)',
+    'linear'
+  )
+  .option(
+    '--gradient-scope <scope>',
+    'Span of each gradient: block, line, word or glyph (one color per letter)'
+  )
+  .option(
+    '--format <format>',
+    'Output format: ansi, svg, html, png, gif, or asciicast'
+  )
+  .option(
+    '-o, --output <file>',
+    'Write the logo to a file (format inferred from the extension)'
+  )
+  .option(
+    '--background <color>',
+    'Background color for svg, html, png and gif output'
+  )
+  .option('--font-family <family>', 'Font family for svg and html output')
+  .option('--fragment', 'Emit only the <pre> block for html output')
+  .option('--scale <number>', 'Pixel scale for png and gif output', parseScale)
+  .option(
+    '--padding <number>',
+    'Padding in pixels for svg, png and gif output',
+    parsePadding
+  )
+  .option(
+    '--animate [effect]',
+    `Play an animation: ${getAnimationEffectNames().join(', ')}`
+  )
+  .option(
+    '--duration <time>',
+    'Animation length, e.g. 3s or 1500ms',
+    parseDuration,
+    2000
+  )
+  .option('--loop <count>', 'Animation passes, or "infinite"', parseLoop, 1)
+  .option('--fps <number>', 'Animation frames per second', parseFps, 30)
+  .option(
+    '--delay <time>',
+    'Frame delay for gif output, e.g. 80ms',
+    parseDuration
+  )
+  .action(
+    async (
+      text: string | undefined,
+      paletteArg: string | undefined,
+      options
+    ) => {
+      try {
+        // Palettes from the user palette file work like built-in ones
+        loadUserPalettes();
 
-      if (!text) {
-        throw new InputError(
-          'Text is required when not using --list-palettes or --gallery'
-        );
-      }
+        // Flags beat the config file, which beats OHMYLOGO_* variables
+        const config = await loadConfig();
+        applySettings(program, config, process.env);
+        const palette = getPaletteSetting(paletteArg, config, process.env);
+
+        if (options.printConfig) {
+          printConfig(program, config, palette);
+          process.exit(0);
+        }
+
+        if (options.listPalettes) {
+          await listPalettes(
+            options,
+            program.getOptionValueSource('font') === 'default'
+              ? SAMPLE_FONT
+              : options.font
+          );
+          process.exit(0);
+        }
+        if (
+          options.tag !== undefined ||
+          options.search !== undefined ||
+          options.json ||
+          options.sample !== undefined
+        ) {
+          throw new InputError(
+            '--tag, --search, --json and --sample only work with --list-palettes'
+          );
+        }
+
+        if (options.exportPalette !== undefined) {
+          if (text) {
+            throw new InputError('--export-palette does not take text');
+          }
+          printPaletteExport(program, options.exportPalette);
+          process.exit(0);
+        }
+        if (options.exportFormat !== undefined || options.steps !== undefined) {
+          throw new InputError(
+            '--export-format and --steps only work with --export-palette'
+          );
+        }
+        // A harmony from the config or environment is only a default
+        if (
+          program.getOptionValueSource('harmony') === 'cli' &&
+          options.paletteFrom === undefined &&
+          !options.randomPalette
+        ) {
+          throw new InputError(
+            '--harmony only works with --palette-from or --random-palette'
+          );
+        }
+
+        if (!text) {
+          throw new InputError(
+            'Text is required when not using --list-palettes or --gallery'
+          );
+        }
+
+        if (options.gallery) {
+          if (options.format !== undefined || options.output !== undefined) {
+            throw new InputError(
+              '--format and --output are not supported with --gallery'
+            );
+          }
+          if (options.animate !== undefined) {
+            throw new InputError('--animate is not supported with --gallery');
+          }
+
+          // Render in all palettes
+          let inputText = text;
+
+          if (text === '-') {
+            inputText = readFileSync(0, 'utf-8').trim();
+          }
+
+          if (!inputText || inputText.trim() === '') {
+            throw new InputError('Text must not be empty');
+          }
+
+          inputText = inputText.replace(/\\n/g, '\n');
+
+          const paletteNames = getPaletteNames();
+          const colorLevel = resolveColorLevel(options);
+          const dither = parseDither(options.dither);
+          const interpolation = parseInterpolation(options.interpolation);
+          const huePath = parseHuePath(options.huePath);
+          const easing = parseEasing(options.easing);
+          const gradientScope = parseGradientScope(options.gradientScope);
+          const direction = parseDirection(options.direction);
+          const paletteTransform =
+            options.paletteTransform === undefined
+              ? undefined
+              : parsePaletteTransform(options.paletteTransform);
+
+          for (const paletteName of paletteNames) {
+            console.log(
+              `\n=== ${paletteName.toUpperCase()}${options.reverseGradient ? ' (reversed)' : ''} ===\n`
+            );
+
+            let paletteColors = resolveColors(paletteName);
+            if (options.reverseGradient) {
+              paletteColors = reverseStops(paletteColors);
+            }
+            if (paletteTransform) {
+              paletteColors = paletteTransform(paletteColors);
+            }
+
+            let logo: string;
+            if (options.filled) {
+              logo = renderFilledSync(inputText, {
+                palette: paletteColors,
+                font: options.blockFont,
+                letterSpacing: options.letterSpacing,
+                direction,
+                colorLevel,
+                dither,
+                interpolation,
+                huePath,
+                easing,
+                gradientScope,
+              });
+            } else {
+              logo = await render(inputText, {
+                palette: paletteColors,
+                font: options.font,
+                direction,
+                colorLevel,
+                dither,
+                interpolation,
+                huePath,
+                easing,
+                gradientScope,
+              });
+            }
+
+            const output = colorLevel > 0 ? logo : stripAnsiCodes(logo);
+            console.log(output);
+          }
+
+          process.exit(0);
+        }
 
-      if (options.gallery) {
-        // Render in all palettes
         let inputText = text;
 
         if (text === '-') {
@@ -181,130 +1133,225 @@ program
 
         inputText = inputText.replace(/\\n/g, '\n');
 
-        const paletteNames = getPaletteNames();
+        const paletteInput = resolvePaletteInput(program, palette);
 
-        for (const paletteName of paletteNames) {
-          console.log(
-            `\n=== ${paletteName.toUpperCase()}${options.reverseGradient ? ' (reversed)' : ''} ===\n`
-          );
-
-          let paletteColors = resolveColors(paletteName);
-          if (options.reverseGradient) {
-            paletteColors = [...paletteColors].reverse();
+        // Validate and resolve palette
+        let paletteColors: string[];
+        try {
+          paletteColors = resolveColors(paletteInput);
+        } catch (error) {
+          if (error instanceof InputError || error instanceof ColorError) {
+            throw error;
+          }
+          if (
+            typeof paletteInput === 'string' &&
+            paletteInput !== DEFAULT_PALETTE
+          ) {
+            throw new PaletteError(paletteInput);
           }
+          paletteColors = resolveColors(DEFAULT_PALETTE);
+        }
 
-          if (options.filled) {
-            // Validate letter spacing
-            if (
-              options.letterSpacing !== undefined &&
-              options.letterSpacing < 0
-            ) {
-              throw new InputError('Letter spacing must be 0 or greater');
-            }
+        // Reverse colors if requested
+        if (options.reverseGradient) {
+          paletteColors = reverseStops(paletteColors);
+        }
+        if (options.paletteTransform !== undefined) {
+          paletteColors = transformPalette(
+            paletteColors,
+            options.paletteTransform
+          );
+        }
 
-            await renderFilled(inputText, {
-              palette: paletteColors,
-              font: options.blockFont,
-              letterSpacing: options.letterSpacing,
-              direction: options.direction,
-            });
-          } else {
-            const logo = await render(inputText, {
-              palette: paletteColors,
-              font: options.font,
-              direction: options.direction,
-            });
-
-            const useColor = shouldUseColor({
-              forceColor: options.color,
-              noColor: !options.color && options.noColor,
-            });
-
-            const output = useColor ? logo : stripAnsiCodes(logo);
-            console.log(output);
+        const format = resolveOutputFormat(options.format, options.output);
+
+        let animation: TimelineOptions | undefined;
+        if (options.animate !== undefined) {
+          if (format !== 'ansi' && format !== 'asciicast' && format !== 'gif') {
+            throw new InputError(
+              '--animate only supports terminal, asciicast and gif output'
+            );
+          }
+          if (format === 'ansi' && options.output) {
+            throw new InputError(
+              '--animate cannot write to a file; use --format asciicast'
+            );
           }
+
+          animation = {
+            effect: parseAnimationEffect(options.animate),
+            duration: options.duration,
+            loop: options.loop,
+            fps: options.fps,
+          };
         }
 
-        process.exit(0);
-      }
+        // Files and exports are only quantized when --color-level is given
+        const requestedColorLevel =
+          options.colorLevel === undefined
+            ? undefined
+            : parseColorLevel(options.colorLevel);
+        const dither = parseDither(options.dither);
+        const interpolation = parseInterpolation(options.interpolation);
+        const huePath = parseHuePath(options.huePath);
+        const easing = parseEasing(options.easing);
+        const gradientScope = parseGradientScope(options.gradientScope);
+        const direction = parseDirection(options.direction);
 
-      if (!text) {
-        throw new InputError('Text is required when not using --list-palettes');
-      }
+        const exportOptions = {
+          palette: paletteColors,
+          font: options.font,
+          direction,
+          filled: options.filled,
+          blockFont: options.blockFont,
+          letterSpacing: options.letterSpacing,
+          background: options.background,
+          fontFamily: options.fontFamily,
+          padding: options.padding,
+          colorLevel: requestedColorLevel,
+          dither,
+          interpolation,
+          huePath,
+          easing,
+          gradientScope,
+        };
 
-      let inputText = text;
+        if (format === 'svg') {
+          const svg = await renderSvg(inputText, exportOptions);
+          writeOutput(svg, options.output);
+          return;
+        }
 
-      if (text === '-') {
-        inputText = readFileSync(0, 'utf-8').trim();
-      }
+        if (format === 'html') {
+          const html = await renderHtml(inputText, {
+            ...exportOptions,
+            fragment: options.fragment,
+          });
+          writeOutput(html, options.output);
+          return;
+        }
 
-      if (!inputText || inputText.trim() === '') {
-        throw new InputError('Text must not be empty');
-      }
+        if (format === 'asciicast') {
+          // Recordings keep their colors unless --no-color is given
+          const cast = await renderAsciicast(inputText, {
+            ...exportOptions,
+            ...animation,
+            color: options.color !== false,
+          });
+          writeOutput(cast, options.output);
+          return;
+        }
 
-      inputText = inputText.replace(/\\n/g, '\n');
+        if (format === 'png') {
+          if (!options.output && process.stdout.isTTY) {
+            throw new InputError(
+              'refusing to write PNG data to a terminal; use --output or redirect stdout'
+            );
+          }
 
-      const paletteInput =
-        options.paletteColors !== undefined && options.paletteColors !== null
-          ? parsePaletteColorsOption(options.paletteColors)
-          : parsePaletteArgument(paletteArg);
+          const png = await renderPng(inputText, {
+            ...exportOptions,
+            scale: options.scale,
+          });
+          writeOutput(png, options.output);
+          return;
+        }
 
-      // Validate and resolve palette
-      let paletteColors: string[];
-      try {
-        paletteColors = resolveColors(paletteInput);
-      } catch {
-        if (
-          typeof paletteInput === 'string' &&
-          paletteInput !== DEFAULT_PALETTE
-        ) {
-          throw new PaletteError(paletteInput);
+        if (format === 'gif') {
+          if (!options.output && process.stdout.isTTY) {
+            throw new InputError(
+              'refusing to write GIF data to a terminal; use --output or redirect stdout'
+            );
+          }
+
+          const gif = await renderGif(inputText, {
+            ...exportOptions,
+            ...animation,
+            scale: options.scale,
+            delay: options.delay,
+          });
+          writeOutput(gif, options.output);
+          return;
         }
-        paletteColors = resolveColors(DEFAULT_PALETTE);
-      }
 
-      // Reverse colors if requested
-      if (options.reverseGradient) {
-        paletteColors = [...paletteColors].reverse();
-      }
+        // Files keep their colors unless --no-color is given
+        const colorLevel = options.output
+          ? options.color === false
+            ? 0
+            : (requestedColorLevel ?? 3)
+          : resolveColorLevel(options);
 
-      if (options.filled) {
-        // Validate letter spacing
-        if (options.letterSpacing !== undefined && options.letterSpacing < 0) {
-          throw new InputError('Letter spacing must be 0 or greater');
+        // Pipes get the static logo below instead of the animation
+        if (animation && process.stdout.isTTY) {
+          await playAnimation(
+            // playAnimation quantizes the frames, so animate must not as well
+            animate(inputText, {
+              ...exportOptions,
+              ...animation,
+              colorLevel: undefined,
+              endOnStatic: true,
+            }),
+            { color: colorLevel > 0, colorLevel, dither }
+          );
+          return;
         }
 
-        // Use Ink for filled characters
-        await renderFilled(inputText, {
-          palette: paletteColors,
-          font: options.blockFont,
-          letterSpacing: options.letterSpacing,
-          direction: options.direction,
-        });
-      } else {
-        // Use figlet for outlined ASCII art
-        const logo = await render(inputText, {
-          palette: paletteColors,
-          font: options.font,
-          direction: options.direction,
-        });
+        let logo: string;
+        if (options.filled) {
+          // Use cfonts block characters for filled mode
+          logo = renderFilledSync(inputText, {
+            palette: paletteColors,
+            font: options.blockFont,
+            letterSpacing: options.letterSpacing,
+            direction,
+            colorLevel,
+            dither,
+            interpolation,
+            huePath,
+            easing,
+            gradientScope,
+          });
+        } else {
+          // Use figlet for outlined ASCII art
+          logo = await render(inputText, {
+            palette: paletteColors,
+            font: options.font,
+            direction,
+            colorLevel,
+            dither,
+            interpolation,
+            huePath,
+            easing,
+            gradientScope,
+          });
+        }
 
-        const useColor = shouldUseColor({
-          forceColor: options.color,
-          noColor: !options.color && options.noColor,
-        });
+        const output = colorLevel > 0 ? logo : stripAnsiCodes(logo);
+        if (options.output) {
+          writeOutput(`${output}\n`, options.output);
+          return;
+        }
 
-        const output = useColor ? logo : stripAnsiCodes(logo);
         console.log(output);
+      } catch (error) {
+        if (error instanceof Error) {
+          console.error(`Error: ${error.message}`);
+        } else {
+          console.error('An unexpected error occurred');
+        }
+        process.exit(1);
       }
-    } catch (error) {
-      if (error instanceof Error) {
-        console.error(`Error: ${error.message}`);
-      } else {
-        console.error('An unexpected error occurred');
-      }
-      process.exit(1);
     }
-  });
+  );
 
-program.parse();
+try {
+  // Option parsers throw InputError for bad flag values
+  program.parse();
+} catch (error) {
+  if (error instanceof Error) {
+    console.error(`Error: ${error.message}`);
+  } else {
+    console.error('An unexpected error occurred');
+  }
+  process.exit(1);
+}
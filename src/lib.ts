@@ -1,13 +1,170 @@
-import { renderLogo } from './renderer.js';
-import { renderInkLogo } from './InkRenderer.js';
+import { colorizeLogoGrid, renderLogo, renderLogoGrid } from './renderer.js';
+import {
+  colorizeFilledGrid,
+  renderFilledLogo,
+  renderFilledLogoGrid,
+} from './filledRenderer.js';
 import {
   PALETTES,
   type PaletteName,
+  type CustomPalettes,
+  registerPalette,
+  unregisterPalette,
   resolvePalette,
+  validatePalette,
   getPaletteNames,
   getDefaultPalette,
   getPalettePreview,
+  getPaletteInfo,
+  type PaletteTag,
+  type PaletteMetadata,
+  type PaletteInfo,
+  type PaletteFilter,
+  PALETTE_TAGS,
+  type PaletteTransform,
+  PALETTE_TRANSFORM_NAMES,
+  lighten,
+  darken,
+  saturate,
+  rotateHue,
+  mix,
+  mirror,
+  loop,
+  resample,
+  parsePaletteTransform,
+  transformPalette,
 } from './palettes.js';
+import { getUserPalettesPath, loadUserPalettes } from './userPalettes.js';
+import {
+  type PaletteFileFormat,
+  PALETTE_FILE_FORMATS,
+  detectPaletteFormat,
+  loadPalette,
+  parsePalette,
+} from './paletteFiles.js';
+import {
+  type PaletteSwatchOptions,
+  renderPaletteSwatch,
+  renderPaletteText,
+} from './paletteSwatch.js';
+import {
+  type PaletteHarmony,
+  type GeneratePaletteOptions,
+  type RandomPaletteOptions,
+  type RandomPalette,
+  PALETTE_HARMONIES,
+  generatePalette,
+  randomPalette,
+} from './paletteGenerator.js';
+import {
+  type PaletteExportFormat,
+  type PaletteExportOptions,
+  PALETTE_EXPORT_FORMATS,
+  exportPalette,
+} from './paletteExport.js';
+import { parseCssGradient } from './importers/css.js';
+import { parseGgr } from './importers/ggr.js';
+import { parseGpl } from './importers/gpl.js';
+import { parseJsonTheme } from './importers/jsonTheme.js';
+import { ColorError, InputError, PaletteError } from './utils/errors.js';
+import {
+  type ParsedColor,
+  type ParsedColorSpace,
+  parseCssColor,
+} from './colorParser.js';
+import { NAMED_COLORS } from './namedColors.js';
+import {
+  type LogoGrid,
+  type LogoCell,
+  type CellAttributes,
+  type GlyphSource,
+  createCell,
+  createGrid,
+  mapGrid,
+  isBlankCell,
+  isBlankRow,
+  quantizeGrid,
+  gridToAnsi,
+  gridToText,
+} from './grid.js';
+import {
+  type ColorLevel,
+  type DitherMethod,
+  DITHER_METHODS,
+  ditherColors,
+  quantizeColor,
+  rgbToAnsi16,
+  rgbToAnsi256,
+  ansi256ToRgb,
+} from './colorLevel.js';
+import {
+  type HuePath,
+  type InterpolationOptions,
+  type InterpolationSpace,
+  HUE_PATHS,
+  INTERPOLATION_SPACES,
+  interpolateColor,
+  parseColor,
+  isValidColor,
+  formatHex,
+} from './color.js';
+import {
+  type ColorStop,
+  type Easing,
+  type EasingName,
+  type PaletteStop,
+  createEasing,
+  formatColorStop,
+  parseColorStop,
+  reverseStops,
+} from './gradient.js';
+import {
+  type GradientDirection,
+  type GradientGeometry,
+  type GradientScope,
+  GRADIENT_SCOPES,
+  getGradientPositions,
+  parseGradientGeometry,
+} from './geometry.js';
+import { createGlyphGrid } from './glyphs.js';
+import { detectColorLevel, type ColorLevelOptions } from './utils/stdout.js';
+import {
+  sampleGradient,
+  interpolateGradient,
+  mixColors,
+  colorizeColumns,
+  colorizeLines,
+  colorizeRows,
+  colorizeGeometry,
+  type GradientOptions,
+} from './colorizers.js';
+import {
+  ANIMATION_EFFECTS,
+  getAnimationEffectNames,
+  type AnimationEffect,
+  type AnimationEffectName,
+  type EffectContext,
+} from './animation/effects.js';
+import {
+  createTimeline,
+  type AnimationFrame,
+  type TimelineOptions,
+} from './animation/timeline.js';
+import {
+  playAnimation,
+  renderTerminalChunks,
+  type PlayAnimationOptions,
+  type TerminalChunk,
+  type TerminalOutputOptions,
+} from './animation/player.js';
+import {
+  framesToAsciicast,
+  type AsciicastOptions,
+} from './exporters/asciicast.js';
+import { gridToHtml, type HtmlOptions } from './exporters/html.js';
+import { framesToGif, type GifOptions } from './exporters/gif.js';
+import { gridToPng, type PngOptions } from './exporters/png.js';
+import { gridToSvg, type SvgOptions } from './exporters/svg.js';
 import type { Fonts } from 'figlet';
 
 export const DEFAULT_PALETTE: PaletteName = 'grad-blue';
@@ -15,10 +172,14 @@ export const DEFAULT_FONT = 'Standard';
 export const DEFAULT_DIRECTION = 'vertical';
 export const DEFAULT_FILLED_DIRECTION = 'horizontal';
 
-export interface RenderOptions {
-  palette?: PaletteName | string[] | string;
+export interface RenderOptions extends GradientOptions {
+  palette?: PaletteName | PaletteStop[] | string;
   font?: Fonts | string;
-  direction?: 'vertical' | 'horizontal' | 'diagonal';
+  direction?: GradientDirection;
+  /** Color level of the ANSI output. Defaults to truecolor. */
+  colorLevel?: ColorLevel;
+  /** Dithering used when `colorLevel` reduces the colors. */
+  dither?: DitherMethod;
 }
 
 // cfonts upstream fonts / dir: https://github.com/dominikwilkowski/cfonts/tree/released/fonts
@@ -37,18 +198,63 @@ export type BlockFont =
   | 'slick'
   | 'tiny';
 
-export interface RenderInkOptions {
-  palette?: PaletteName | string[] | string;
+export interface RenderInkOptions extends GradientOptions {
+  palette?: PaletteName | PaletteStop[] | string;
   font?: BlockFont;
   letterSpacing?: number;
-  direction?: 'vertical' | 'horizontal' | 'diagonal';
+  direction?: GradientDirection;
+  /** Color level of the ANSI output. Defaults to truecolor. */
+  colorLevel?: ColorLevel;
+  /** Dithering used when `colorLevel` reduces the colors. */
+  dither?: DitherMethod;
+  /** Also print the logo to stdout through Ink. */
+  print?: boolean;
+}
+
+export interface ExportOptions extends GradientOptions {
+  palette?: PaletteName | PaletteStop[] | string;
+  /** Figlet font name, used unless `filled` is set. */
+  font?: Fonts | string;
+  direction?: GradientDirection;
+  /** Render filled block characters instead of figlet ASCII art. */
+  filled?: boolean;
+  blockFont?: BlockFont;
+  letterSpacing?: number;
+  /** Map colors to what a terminal at this level shows. */
+  colorLevel?: ColorLevel;
+  /** Dithering used when `colorLevel` reduces the colors. */
+  dither?: DitherMethod;
+}
+
+export interface RenderSvgOptions extends ExportOptions, SvgOptions {}
+
+export interface RenderHtmlOptions extends ExportOptions, HtmlOptions {}
+
+export interface RenderPngOptions extends ExportOptions, PngOptions {}
+
+export interface AnimateOptions extends ExportOptions, TimelineOptions {
+  /** Finish with one extra frame showing the static logo, as the CLI does. */
+  endOnStatic?: boolean;
 }
 
+export interface RenderAsciicastOptions
+  extends AnimateOptions,
+    AsciicastOptions {}
+
+export interface RenderGifOptions extends AnimateOptions, GifOptions {}
+
+/**
+ * Resolves a palette name or list of stops to palette colors. `ColorStop`
+ * objects come back in the `'#7f88ff 70%'` form the colorizers understand.
+ * Every color is checked first, so a bad one throws a `ColorError` naming
+ * its entry before anything is rendered.
+ */
 export function resolveColors(
-  palette: PaletteName | string[] | string
+  palette: PaletteName | PaletteStop[] | string
 ): string[] {
   if (Array.isArray(palette)) {
-    return palette;
+    const colors = validatePalette(palette);
+    return palette.every((stop) => typeof stop === 'string') ? palette : colors;
   }
 
   const colors = resolvePalette(palette);
@@ -67,39 +273,413 @@ export async function render(
     palette = DEFAULT_PALETTE,
     font = DEFAULT_FONT,
     direction = DEFAULT_DIRECTION,
+    colorLevel,
+    dither,
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
   } = options;
 
   const paletteColors = resolveColors(palette);
-  return renderLogo(text, paletteColors, font, direction);
+  return renderLogo(text, paletteColors, font, direction, colorLevel, dither, {
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
+  });
 }
 
-export async function renderFilled(
+export function renderGrid(
+  text: string,
+  options: RenderOptions = {}
+): LogoGrid {
+  const {
+    palette = DEFAULT_PALETTE,
+    font = DEFAULT_FONT,
+    direction = DEFAULT_DIRECTION,
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
+  } = options;
+
+  const paletteColors = resolveColors(palette);
+  return renderLogoGrid(text, paletteColors, font, direction, {
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
+  });
+}
+
+function validateLetterSpacing(letterSpacing: number | undefined): void {
+  if (letterSpacing !== undefined && letterSpacing < 0) {
+    throw new Error('Letter spacing must be 0 or greater');
+  }
+}
+
+export function renderFilledGrid(
   text: string,
   options: RenderInkOptions = {}
-): Promise<void> {
+): LogoGrid {
   const {
     palette = DEFAULT_PALETTE,
     font,
     letterSpacing,
     direction = DEFAULT_FILLED_DIRECTION,
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
   } = options;
 
-  // Validate letter spacing
-  if (letterSpacing !== undefined && letterSpacing < 0) {
-    throw new Error('Letter spacing must be 0 or greater');
-  }
+  validateLetterSpacing(letterSpacing);
 
   const paletteColors = resolveColors(palette);
-  return renderInkLogo(text, paletteColors, { font, letterSpacing, direction });
+  return renderFilledLogoGrid(text, paletteColors, {
+    font,
+    letterSpacing,
+    direction,
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
+  });
+}
+
+export function renderFilledSync(
+  text: string,
+  options: RenderInkOptions = {}
+): string {
+  const {
+    palette = DEFAULT_PALETTE,
+    font,
+    letterSpacing,
+    direction = DEFAULT_FILLED_DIRECTION,
+    colorLevel,
+    dither,
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
+  } = options;
+
+  validateLetterSpacing(letterSpacing);
+
+  const paletteColors = resolveColors(palette);
+  return renderFilledLogo(text, paletteColors, {
+    font,
+    letterSpacing,
+    direction,
+    colorLevel,
+    dither,
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
+  });
+}
+
+export async function renderFilled(
+  text: string,
+  options: RenderInkOptions = {}
+): Promise<string> {
+  const logo = renderFilledSync(text, options);
+
+  if (options.print) {
+    // React and Ink are only loaded when the logo is printed through Ink
+    const { renderInkLogo } = await import('./InkRenderer.js');
+    await renderInkLogo(logo);
+  }
+
+  return logo;
+}
+
+function renderExportGrid(text: string, options: ExportOptions): LogoGrid {
+  const {
+    filled,
+    blockFont,
+    letterSpacing,
+    colorLevel,
+    dither,
+    ...renderOptions
+  } = options;
+
+  const grid = filled
+    ? renderFilledGrid(text, {
+        palette: renderOptions.palette,
+        font: blockFont,
+        letterSpacing,
+        direction: renderOptions.direction,
+        interpolation: renderOptions.interpolation,
+        huePath: renderOptions.huePath,
+        easing: renderOptions.easing,
+        gradientScope: renderOptions.gradientScope,
+      })
+    : renderGrid(text, renderOptions);
+
+  return colorLevel === undefined
+    ? grid
+    : quantizeGrid(grid, colorLevel, dither);
+}
+
+export async function renderSvg(
+  text: string,
+  options: RenderSvgOptions = {}
+): Promise<string> {
+  const grid = renderExportGrid(text, options);
+  return gridToSvg(grid, { title: text, ...options });
+}
+
+export async function renderHtml(
+  text: string,
+  options: RenderHtmlOptions = {}
+): Promise<string> {
+  const grid = renderExportGrid(text, options);
+  return gridToHtml(grid, { title: text, ...options });
+}
+
+export async function renderPng(
+  text: string,
+  options: RenderPngOptions = {}
+): Promise<Buffer> {
+  const grid = renderExportGrid(text, options);
+  return gridToPng(grid, options);
+}
+
+/**
+ * Yields the frames of an animated logo. Frames are computed from the static
+ * logo grid, so the last frame of most effects matches `render` output.
+ */
+export async function* animate(
+  text: string,
+  options: AnimateOptions = {}
+): AsyncGenerator<AnimationFrame> {
+  const {
+    palette = DEFAULT_PALETTE,
+    filled = false,
+    direction = filled ? DEFAULT_FILLED_DIRECTION : DEFAULT_DIRECTION,
+    endOnStatic = false,
+    colorLevel,
+    dither,
+    interpolation,
+    huePath,
+    easing,
+    gradientScope,
+  } = options;
+
+  const grid = renderExportGrid(text, options);
+  const gradient = { interpolation, huePath, easing, gradientScope };
+  const colorize = (colors: string[]) =>
+    filled
+      ? colorizeFilledGrid(grid, colors, direction, gradient)
+      : colorizeLogoGrid(grid, colors, direction, gradient);
+
+  let last: AnimationFrame | undefined;
+  for (const frame of createTimeline(
+    { grid, colors: resolveColors(palette), colorize, gradient },
+    options
+  )) {
+    last =
+      colorLevel === undefined
+        ? frame
+        : { ...frame, grid: quantizeGrid(frame.grid, colorLevel, dither) };
+    yield last;
+  }
+
+  if (endOnStatic && last) {
+    yield { ...last, index: last.index + 1, progress: 1, grid };
+  }
+}
+
+/**
+ * Records the logo as an asciinema v2 `.cast` file. With an `effect` the
+ * recording plays that animation and ends on the static logo; without one it
+ * holds a single static frame. A recording can't loop forever, so `loop`
+ * must be a finite count.
+ */
+export async function renderAsciicast(
+  text: string,
+  options: RenderAsciicastOptions = {}
+): Promise<string> {
+  if (options.loop === Infinity) {
+    throw new InputError(
+      'asciicast recordings cannot loop forever; give loop a count'
+    );
+  }
+
+  // framesToAsciicast quantizes the frames, so animate must not as well
+  const frameOptions = { ...options, colorLevel: undefined };
+  const frames =
+    options.effect === undefined
+      ? animate(text, {
+          ...frameOptions,
+          effect: ({ grid }) => grid,
+          duration: 0,
+          loop: 1,
+        })
+      : animate(text, { endOnStatic: true, ...frameOptions });
+
+  return framesToAsciicast(frames, { title: text, ...options });
+}
+
+/**
+ * Encodes the logo as a GIF. With an `effect` the GIF holds one pass of that
+ * animation and `loop` sets how many times it plays; without one it holds a
+ * single static frame.
+ */
+export async function renderGif(
+  text: string,
+  options: RenderGifOptions = {}
+): Promise<Buffer> {
+  const frames = animate(
+    text,
+    options.effect === undefined
+      ? { ...options, effect: ({ grid }) => grid, duration: 0, loop: 1 }
+      : { ...options, loop: 1 }
+  );
+
+  return framesToGif(frames, options);
 }
 
 export {
   PALETTES,
   type PaletteName,
+  type CustomPalettes,
+  registerPalette,
+  unregisterPalette,
+  getUserPalettesPath,
+  loadUserPalettes,
+  type PaletteFileFormat,
+  PALETTE_FILE_FORMATS,
+  detectPaletteFormat,
+  loadPalette,
+  parsePalette,
+  parseGpl,
+  parseGgr,
+  parseCssGradient,
+  parseJsonTheme,
+  type PaletteExportFormat,
+  type PaletteExportOptions,
+  PALETTE_EXPORT_FORMATS,
+  exportPalette,
+  type PaletteSwatchOptions,
+  renderPaletteSwatch,
+  renderPaletteText,
+  type PaletteHarmony,
+  type GeneratePaletteOptions,
+  type RandomPaletteOptions,
+  type RandomPalette,
+  PALETTE_HARMONIES,
+  generatePalette,
+  randomPalette,
+  PaletteError,
+  ColorError,
   resolvePalette,
+  validatePalette,
   getPaletteNames,
   getDefaultPalette,
   getPalettePreview,
+  getPaletteInfo,
+  type PaletteTag,
+  type PaletteMetadata,
+  type PaletteInfo,
+  type PaletteFilter,
+  PALETTE_TAGS,
+  type PaletteTransform,
+  PALETTE_TRANSFORM_NAMES,
+  lighten,
+  darken,
+  saturate,
+  rotateHue,
+  mix,
+  mirror,
+  loop,
+  resample,
+  parsePaletteTransform,
+  transformPalette,
+  type LogoGrid,
+  type LogoCell,
+  type CellAttributes,
+  type GlyphSource,
+  createCell,
+  createGrid,
+  mapGrid,
+  isBlankCell,
+  isBlankRow,
+  quantizeGrid,
+  gridToAnsi,
+  gridToText,
+  type ColorLevel,
+  type ColorLevelOptions,
+  detectColorLevel,
+  type DitherMethod,
+  DITHER_METHODS,
+  ditherColors,
+  quantizeColor,
+  rgbToAnsi16,
+  rgbToAnsi256,
+  ansi256ToRgb,
+  type InterpolationSpace,
+  type HuePath,
+  type InterpolationOptions,
+  INTERPOLATION_SPACES,
+  HUE_PATHS,
+  interpolateColor,
+  type ParsedColor,
+  type ParsedColorSpace,
+  parseCssColor,
+  parseColor,
+  isValidColor,
+  formatHex,
+  NAMED_COLORS,
+  type GradientOptions,
+  type ColorStop,
+  type PaletteStop,
+  type Easing,
+  type EasingName,
+  createEasing,
+  parseColorStop,
+  formatColorStop,
+  reverseStops,
+  type GradientDirection,
+  type GradientGeometry,
+  parseGradientGeometry,
+  getGradientPositions,
+  type GradientScope,
+  GRADIENT_SCOPES,
+  createGlyphGrid,
+  sampleGradient,
+  interpolateGradient,
+  mixColors,
+  colorizeColumns,
+  colorizeLines,
+  colorizeRows,
+  colorizeGeometry,
+  gridToSvg,
+  type SvgOptions,
+  gridToHtml,
+  type HtmlOptions,
+  gridToPng,
+  type PngOptions,
+  ANIMATION_EFFECTS,
+  getAnimationEffectNames,
+  type AnimationEffect,
+  type AnimationEffectName,
+  type EffectContext,
+  type AnimationFrame,
+  type TimelineOptions,
+  createTimeline,
+  playAnimation,
+  type PlayAnimationOptions,
+  renderTerminalChunks,
+  type TerminalChunk,
+  type TerminalOutputOptions,
+  framesToAsciicast,
+  type AsciicastOptions,
+  framesToGif,
+  type GifOptions,
 };
 
 export type { Fonts };
@@ -0,0 +1,142 @@
+import { formatHex, parseColor } from './color.js';
+import type { GradientOptions } from './colorizers.js';
+import { parseColorStop } from './gradient.js';
+import { resample } from './palettes.js';
+import { InputError } from './utils/errors.js';
+
+export type PaletteExportFormat = 'css' | 'scss' | 'tailwind' | 'json' | 'gpl';
+
+export const PALETTE_EXPORT_FORMATS: PaletteExportFormat[] = [
+  'css',
+  'scss',
+  'tailwind',
+  'json',
+  'gpl',
+];
+
+export interface PaletteExportOptions extends GradientOptions {
+  /** Defaults to `css`. */
+  format?: PaletteExportFormat;
+  /**
+   * Export this many evenly spaced colors sampled from the gradient instead
+   * of the palette's own stops.
+   */
+  steps?: number;
+}
+
+interface ExportedPalette {
+  /** The palette name made safe for CSS, SCSS and Tailwind identifiers. */
+  id: string;
+  name: string;
+  /** Stops as given, positions included. */
+  stops: string[];
+  /** Plain hex colors, one per stop. */
+  colors: string[];
+  /** A left to right CSS gradient through the stops. */
+  gradient: string;
+}
+
+function toCss({ id, colors, gradient }: ExportedPalette): string {
+  const variables = colors.map(
+    (color, index) => `  --${id}-${index + 1}: ${color};`
+  );
+  return `:root {\n${variables.join('\n')}\n  --${id}-gradient: ${gradient};\n}\n`;
+}
+
+function toScss({ id, colors, gradient }: ExportedPalette): string {
+  const variables = colors.map(
+    (color, index) => `$${id}-${index + 1}: ${color};`
+  );
+  return [
+    ...variables,
+    `$${id}: (${colors.join(', ')});`,
+    `$${id}-gradient: ${gradient};`,
+    '',
+  ].join('\n');
+}
+
+function toTailwind({ id, colors, gradient }: ExportedPalette): string {
+  const config = {
+    theme: {
+      extend: {
+        colors: {
+          [id]: Object.fromEntries(
+            colors.map((color, index) => [index + 1, color])
+          ),
+        },
+        backgroundImage: { [`${id}-gradient`]: gradient },
+      },
+    },
+  };
+  return `/** @type {import('tailwindcss').Config} */\nmodule.exports = ${JSON.stringify(config, null, 2)};\n`;
+}
+
+function toJson({ name, stops }: ExportedPalette): string {
+  return `${JSON.stringify({ name, colors: stops }, null, 2)}\n`;
+}
+
+function toGpl({ id, name, colors }: ExportedPalette): string {
+  const lines = colors.map((color, index) => {
+    const channels = parseColor(color).map((channel) =>
+      String(channel).padStart(3)
+    );
+    return `${channels.join(' ')}\t${id}-${index + 1}`;
+  });
+  return [
+    'GIMP Palette',
+    `Name: ${name}`,
+    `Columns: ${colors.length}`,
+    '#',
+    ...lines,
+    '',
+  ].join('\n');
+}
+
+const EXPORTERS: Record<
+  PaletteExportFormat,
+  (palette: ExportedPalette) => string
+> = {
+  css: toCss,
+  scss: toScss,
+  tailwind: toTailwind,
+  json: toJson,
+  gpl: toGpl,
+};
+
+/**
+ * Writes a palette as CSS custom properties, SCSS variables, a Tailwind
+ * config, a JSON theme or a GIMP palette, so web pages can share the colors
+ * of a logo. Every format lists the colors one by one; all but `gpl` also
+ * carry a CSS gradient through them. JSON themes keep stop positions and can
+ * be read back with `loadPalette`.
+ */
+export function exportPalette(
+  name: string,
+  colors: string[],
+  options: PaletteExportOptions = {}
+): string {
+  const { format = 'css', steps, ...gradientOptions } = options;
+
+  if (!PALETTE_EXPORT_FORMATS.includes(format)) {
+    throw new InputError(
+      `unknown palette format "${format}" (expected one of: ${PALETTE_EXPORT_FORMATS.join(', ')})`
+    );
+  }
+  if (steps !== undefined && (!Number.isInteger(steps) || steps < 1)) {
+    throw new InputError(`steps must be a positive integer, got ${steps}`);
+  }
+
+  const stops =
+    steps === undefined ? colors : resample(colors, steps, gradientOptions);
+  const hexColors = stops.map((stop) =>
+    formatHex(parseColor(parseColorStop(stop).color))
+  );
+
+  return EXPORTERS[format]({
+    id: name.replace(/[^a-zA-Z0-9_-]/g, '-'),
+    name,
+    stops,
+    colors: hexColors,
+    gradient: `linear-gradient(90deg, ${stops.join(', ')})`,
+  });
+}
@@ -0,0 +1,86 @@
+import { existsSync, readFileSync } from 'fs';
+import { extname } from 'path';
+import { parseCssGradient } from './importers/css.js';
+import { parseGgr } from './importers/ggr.js';
+import { parseGpl } from './importers/gpl.js';
+import { parseJsonTheme } from './importers/jsonTheme.js';
+import { PaletteError } from './utils/errors.js';
+
+export type PaletteFileFormat = 'gpl' | 'ggr' | 'css' | 'json';
+
+export const PALETTE_FILE_FORMATS: PaletteFileFormat[] = [
+  'gpl',
+  'ggr',
+  'css',
+  'json',
+];
+
+const IMPORTERS: Record<
+  PaletteFileFormat,
+  (source: string, name: string) => string[]
+> = {
+  gpl: parseGpl,
+  ggr: parseGgr,
+  css: parseCssGradient,
+  json: parseJsonTheme,
+};
+
+function isPaletteFileFormat(value: string): value is PaletteFileFormat {
+  return (PALETTE_FILE_FORMATS as string[]).includes(value);
+}
+
+/** Recognizes the format of palette file contents, or returns null. */
+export function detectPaletteFormat(source: string): PaletteFileFormat | null {
+  const start = source.trimStart();
+  if (start.startsWith('GIMP Palette')) {
+    return 'gpl';
+  }
+  if (start.startsWith('GIMP Gradient')) {
+    return 'ggr';
+  }
+  if (start.startsWith('[') || start.startsWith('{')) {
+    return 'json';
+  }
+  return /-gradient\(/i.test(source) ? 'css' : null;
+}
+
+/**
+ * Turns the contents of a GIMP palette or gradient, CSS gradient or JSON
+ * theme into palette colors, detecting the format when it isn't given.
+ * `name` identifies the palette in error messages.
+ */
+export function parsePalette(
+  source: string,
+  format?: PaletteFileFormat,
+  name = 'palette'
+): string[] {
+  const resolved = format ?? detectPaletteFormat(source);
+  if (!resolved) {
+    throw new PaletteError(
+      name,
+      'is not a GIMP palette or gradient, CSS gradient or JSON theme'
+    );
+  }
+  return IMPORTERS[resolved](source, name);
+}
+
+/**
+ * Reads palette colors from a `.gpl`, `.ggr`, `.css` or `.json` file, ready
+ * to pass as the `palette` option. Files with other extensions are
+ * recognized by their contents.
+ */
+export function loadPalette(
+  path: string,
+  format?: PaletteFileFormat
+): string[] {
+  if (!existsSync(path)) {
+    throw new PaletteError(path, 'file does not exist');
+  }
+
+  const extension = extname(path).slice(1).toLowerCase();
+  return parsePalette(
+    readFileSync(path, 'utf-8'),
+    format ?? (isPaletteFileFormat(extension) ? extension : undefined),
+    path
+  );
+}
@@ -0,0 +1,146 @@
+import {
+  formatHex,
+  hslToRgb,
+  parseColor,
+  rgbToHsl,
+  type Rgb,
+} from './color.js';
+import { resample } from './palettes.js';
+import { InputError } from './utils/errors.js';
+
+export type PaletteHarmony =
+  | 'analogous'
+  | 'complementary'
+  | 'triadic'
+  | 'monochrome'
+  | 'split';
+
+export const PALETTE_HARMONIES: PaletteHarmony[] = [
+  'analogous',
+  'complementary',
+  'triadic',
+  'monochrome',
+  'split',
+];
+
+export interface GeneratePaletteOptions {
+  /** Defaults to `analogous`. */
+  harmony?: PaletteHarmony;
+  /**
+   * Return this many evenly spaced colors sampled from the harmony instead
+   * of its key colors.
+   */
+  steps?: number;
+}
+
+export interface RandomPaletteOptions
+  extends Omit<GeneratePaletteOptions, 'harmony'> {
+  /** Picked at random when not given. */
+  harmony?: PaletteHarmony;
+  /** The same seed always gives the same palette. Random when not given. */
+  seed?: number;
+}
+
+export interface RandomPalette {
+  seed: number;
+  harmony: PaletteHarmony;
+  /** The random color the palette was generated from. */
+  seedColor: string;
+  colors: string[];
+}
+
+// Hue offsets from the seed color, in degrees
+const HUE_OFFSETS: Record<Exclude<PaletteHarmony, 'monochrome'>, number[]> = {
+  analogous: [-30, 0, 30],
+  complementary: [0, 180],
+  triadic: [0, 120, 240],
+  split: [0, 150, 210],
+};
+
+function getHarmonyColors(seed: Rgb, harmony: PaletteHarmony): Rgb[] {
+  const [hue, saturation, lightness] = rgbToHsl(seed);
+
+  if (harmony === 'monochrome') {
+    // A shade and a tint half way to black and white, dark to light
+    return [
+      hslToRgb([hue, saturation, lightness / 2]),
+      seed,
+      hslToRgb([hue, saturation, lightness + (1 - lightness) / 2]),
+    ];
+  }
+
+  return HUE_OFFSETS[harmony].map((offset) =>
+    offset === 0
+      ? seed
+      : hslToRgb([(hue + offset + 360) % 360, saturation, lightness])
+  );
+}
+
+/**
+ * Builds a palette around one seed color with a color harmony rule, keeping
+ * the seed's saturation and lightness. The result can be passed anywhere a
+ * palette is accepted.
+ */
+export function generatePalette(
+  seed: string,
+  options: GeneratePaletteOptions = {}
+): string[] {
+  const { harmony = 'analogous', steps } = options;
+
+  if (!PALETTE_HARMONIES.includes(harmony)) {
+    throw new InputError(
+      `unknown harmony "${harmony}" (expected one of: ${PALETTE_HARMONIES.join(', ')})`
+    );
+  }
+  if (steps !== undefined && (!Number.isInteger(steps) || steps < 1)) {
+    throw new InputError(`steps must be a positive integer, got ${steps}`);
+  }
+
+  const colors = getHarmonyColors(parseColor(seed), harmony).map(formatHex);
+  // OKLCH keeps the colors between the key colors as vivid as they are
+  return steps === undefined
+    ? colors
+    : resample(colors, steps, { interpolation: 'oklch' });
+}
+
+// mulberry32: small, fast and plenty random for picking colors
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = Math.imul(state ^ (state >>> 15), state | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates a palette from a random seed color, using a random harmony
+ * unless one is given. Returns the seed along with the colors so the same
+ * palette can be made again.
+ */
+export function randomPalette(
+  options: RandomPaletteOptions = {}
+): RandomPalette {
+  const { seed = Math.floor(Math.random() * 2 ** 31), steps } = options;
+
+  if (!Number.isSafeInteger(seed)) {
+    throw new InputError(`seed must be an integer, got ${seed}`);
+  }
+
+  const random = createRandom(seed);
+  // Vivid, mid-lightness colors make the most readable logos
+  const seedColor = formatHex(
+    hslToRgb([random() * 360, 0.55 + random() * 0.35, 0.45 + random() * 0.2])
+  );
+  const harmony =
+    options.harmony ??
+    PALETTE_HARMONIES[Math.floor(random() * PALETTE_HARMONIES.length)];
+
+  return {
+    seed,
+    harmony,
+    seedColor,
+    colors: generatePalette(seedColor, { harmony, steps }),
+  };
+}
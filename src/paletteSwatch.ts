@@ -0,0 +1,37 @@
+import type { ColorLevel, DitherMethod } from './colorLevel.js';
+import { colorizeColumns, type GradientOptions } from './colorizers.js';
+import { createGrid, gridToAnsi } from './grid.js';
+
+export interface PaletteSwatchOptions extends GradientOptions {
+  /** Width of the swatch in terminal cells. Defaults to 24. */
+  width?: number;
+  /** Defaults to truecolor. */
+  colorLevel?: ColorLevel;
+  dither?: DitherMethod;
+}
+
+/**
+ * Colors each character of `text` left to right through a palette, e.g. to
+ * show a palette's name in its own gradient.
+ */
+export function renderPaletteText(
+  text: string,
+  colors: string[],
+  options: Omit<PaletteSwatchOptions, 'width'> = {}
+): string {
+  const { colorLevel, dither, ...gradientOptions } = options;
+  return gridToAnsi(
+    colorizeColumns(createGrid(text), colors, gradientOptions),
+    colorLevel,
+    dither
+  );
+}
+
+/** Renders a palette as a bar of full blocks running through its gradient. */
+export function renderPaletteSwatch(
+  colors: string[],
+  options: PaletteSwatchOptions = {}
+): string {
+  const { width = 24, ...textOptions } = options;
+  return renderPaletteText('█'.repeat(width), colors, textOptions);
+}
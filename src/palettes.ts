@@ -1,9 +1,30 @@
+import {
+  formatHex,
+  hslToRgb,
+  parseColor,
+  rgbToHsl,
+  type Rgb,
+} from './color.js';
+import {
+  interpolateGradient,
+  mixColors,
+  type GradientOptions,
+} from './colorizers.js';
+import {
+  formatColorStop,
+  parseColorStop,
+  resolveStopPositions,
+  reverseStops,
+  type PaletteStop,
+} from './gradient.js';
+import { ColorError, InputError } from './utils/errors.js';
+
 export const PALETTES = {
   'grad-blue': ['#4ea8ff', '#7f88ff'],
   sunset: ['#ff9966', '#ff5e62', '#ffa34e'],
   dawn: ['#00c6ff', '#0072ff'],
   nebula: ['#654ea3', '#eaafc8'],
-  mono: ['#f07178', '#f07178'],
+  mono: ['#f07178'],
   ocean: ['#667eea', '#764ba2'],
   fire: ['#ff0844', '#ffb199'],
   forest: ['#134e5e', '#71b280'],
@@ -12,18 +33,406 @@ export const PALETTES = {
   mint: ['#00d2ff', '#3a7bd5'],
   coral: ['#ff9a9e', '#fecfef'],
   matrix: ['#00ff41', '#008f11'],
+  instagram: ['#833ab4', '#fd1d1d', '#fcb045'],
+  cherry: ['#eb3349', '#f45c43'],
+  lush: ['#56ab2f', '#a8e063'],
+  mango: ['#ffe259', '#ffa751'],
+  peach: ['#ed4264', '#ffedbc'],
+  roseanna: ['#ffafbd', '#ffc3a0'],
+  'bloody-mary': ['#ff512f', '#dd2476'],
+  'sublime-light': ['#fc5c7d', '#6a82fb'],
+  'electric-violet': ['#4776e6', '#8e54e9'],
+  'aqua-marine': ['#1a2980', '#26d0ce'],
+  'rainbow-blue': ['#00f260', '#0575e6'],
+  kashmir: ['#614385', '#516395'],
+  'cotton-candy': ['#ffd1dc', '#e0c3fc', '#c1e1ff'],
+  vaporwave: ['#ff71ce', '#01cdfe', '#05ffa1', '#b967ff'],
+  cyberpunk: ['#ff00a0', '#00f0ff'],
+  rainbow: ['#ff3b30', '#ff9500', '#ffcc00', '#34c759', '#007aff', '#af52de'],
+  dracula: ['#bd93f9', '#ff79c6', '#ffb86c'],
+  nord: ['#8fbcbb', '#88c0d0', '#81a1c1', '#5e81ac'],
+  'nord-aurora': ['#bf616a', '#d08770', '#ebcb8b', '#a3be8c', '#b48ead'],
+  solarized: [
+    '#b58900',
+    '#cb4b16',
+    '#dc322f',
+    '#d33682',
+    '#6c71c4',
+    '#268bd2',
+    '#2aa198',
+    '#859900',
+  ],
+  gruvbox: ['#fb4934', '#fe8019', '#fabd2f', '#b8bb26'],
+  catppuccin: ['#f5c2e7', '#cba6f7', '#89b4fa', '#94e2d5'],
+  'tokyo-night': ['#7aa2f7', '#bb9af7', '#f7768e'],
+  monokai: ['#f92672', '#fd971f', '#e6db74', '#a6e22e'],
+  'rose-pine': ['#eb6f92', '#ebbcba', '#f6c177'],
+  synthwave: ['#ff7edb', '#fede5d', '#36f9f6'],
 } as const;
 
-export type PaletteName = keyof typeof PALETTES;
+/**
+ * Tags for finding palettes. `dark-bg-safe` palettes keep every color
+ * readable on a dark terminal background; `terminal` palettes come from
+ * editor and terminal themes.
+ */
+export type PaletteTag =
+  | 'warm'
+  | 'cool'
+  | 'pastel'
+  | 'neon'
+  | 'dark-bg-safe'
+  | 'terminal';
+
+export const PALETTE_TAGS: PaletteTag[] = [
+  'warm',
+  'cool',
+  'pastel',
+  'neon',
+  'dark-bg-safe',
+  'terminal',
+];
+
+export interface PaletteMetadata {
+  description: string;
+  tags: PaletteTag[];
+  /** Who designed the colors, for palettes taken from elsewhere. */
+  author?: string;
+  /** Where the colors come from. */
+  source?: string;
+}
+
+export interface PaletteInfo extends PaletteMetadata {
+  name: string;
+  colors: string[];
+  /** False for palettes added with `registerPalette`. */
+  builtIn: boolean;
+}
+
+const UI_GRADIENTS = {
+  author: 'Indrashish Ghosh',
+  source: 'https://uigradients.com',
+};
+
+const PALETTE_METADATA: Record<keyof typeof PALETTES, PaletteMetadata> = {
+  'grad-blue': {
+    description: 'Blue gradient (default)',
+    tags: ['cool', 'dark-bg-safe'],
+  },
+  sunset: { description: 'Warm sunset colors', tags: ['warm', 'dark-bg-safe'] },
+  dawn: { description: 'Cool morning blues', tags: ['cool', 'dark-bg-safe'] },
+  nebula: { description: 'Purple space nebula', tags: ['cool'] },
+  mono: { description: 'Single coral color', tags: ['warm', 'dark-bg-safe'] },
+  ocean: { description: 'Deep ocean blues', tags: ['cool'] },
+  fire: { description: 'Intense fire colors', tags: ['warm', 'dark-bg-safe'] },
+  forest: { description: 'Natural green tones', tags: ['cool'] },
+  gold: {
+    description: 'Luxurious gold gradient',
+    tags: ['warm', 'dark-bg-safe'],
+  },
+  purple: {
+    description: 'Royal purple to blue',
+    tags: ['cool', 'dark-bg-safe'],
+  },
+  mint: { description: 'Fresh mint colors', tags: ['cool', 'dark-bg-safe'] },
+  coral: {
+    description: 'Soft coral pink',
+    tags: ['warm', 'pastel', 'dark-bg-safe'],
+  },
+  matrix: {
+    description: 'Classic matrix green',
+    tags: ['neon', 'dark-bg-safe'],
+  },
+  instagram: {
+    description: 'Purple to red to yellow, like the old app icon',
+    tags: ['warm'],
+    ...UI_GRADIENTS,
+  },
+  cherry: {
+    description: 'Cherry reds',
+    tags: ['warm', 'dark-bg-safe'],
+    ...UI_GRADIENTS,
+  },
+  lush: {
+    description: 'Spring greens',
+    tags: ['cool', 'dark-bg-safe'],
+    ...UI_GRADIENTS,
+  },
+  mango: {
+    description: 'Ripe yellow to orange',
+    tags: ['warm', 'dark-bg-safe'],
+    ...UI_GRADIENTS,
+  },
+  peach: {
+    description: 'Pink fading to cream',
+    tags: ['warm', 'pastel', 'dark-bg-safe'],
+    ...UI_GRADIENTS,
+  },
+  roseanna: {
+    description: 'Soft pink to apricot',
+    tags: ['warm', 'pastel', 'dark-bg-safe'],
+    ...UI_GRADIENTS,
+  },
+  'bloody-mary': {
+    description: 'Orange red to raspberry',
+    tags: ['warm', 'dark-bg-safe'],
+    ...UI_GRADIENTS,
+  },
+  'sublime-light': {
+    description: 'Rose pink to periwinkle',
+    tags: ['dark-bg-safe'],
+    ...UI_GRADIENTS,
+  },
+  'electric-violet': {
+    description: 'Bright blue to violet',
+    tags: ['cool', 'dark-bg-safe'],
+    ...UI_GRADIENTS,
+  },
+  'aqua-marine': {
+    description: 'Navy to aquamarine',
+    tags: ['cool'],
+    ...UI_GRADIENTS,
+  },
+  'rainbow-blue': {
+    description: 'Neon green to blue',
+    tags: ['cool', 'neon', 'dark-bg-safe'],
+    ...UI_GRADIENTS,
+  },
+  kashmir: {
+    description: 'Muted purple to slate blue',
+    tags: ['cool'],
+    ...UI_GRADIENTS,
+  },
+  'cotton-candy': {
+    description: 'Pink, lilac and baby blue',
+    tags: ['pastel', 'dark-bg-safe'],
+  },
+  vaporwave: {
+    description: 'Hot pink, cyan, mint and violet',
+    tags: ['neon', 'dark-bg-safe'],
+  },
+  cyberpunk: {
+    description: 'Magenta to electric cyan',
+    tags: ['neon', 'dark-bg-safe'],
+  },
+  rainbow: {
+    description: 'The full spectrum, red to violet',
+    tags: ['dark-bg-safe'],
+  },
+  dracula: {
+    description: 'Purple, pink and orange from the Dracula theme',
+    tags: ['terminal', 'dark-bg-safe'],
+    author: 'Zeno Rocha',
+    source: 'https://draculatheme.com',
+  },
+  nord: {
+    description: 'The Frost blues of the Nord theme',
+    tags: ['terminal', 'cool', 'dark-bg-safe'],
+    author: 'Arctic Ice Studio',
+    source: 'https://www.nordtheme.com',
+  },
+  'nord-aurora': {
+    description: 'The Aurora accents of the Nord theme',
+    tags: ['terminal', 'dark-bg-safe'],
+    author: 'Arctic Ice Studio',
+    source: 'https://www.nordtheme.com',
+  },
+  solarized: {
+    description: 'The eight Solarized accent colors around the wheel',
+    tags: ['terminal', 'dark-bg-safe'],
+    author: 'Ethan Schoonover',
+    source: 'https://ethanschoonover.com/solarized/',
+  },
+  gruvbox: {
+    description: 'Retro red, orange, yellow and green from Gruvbox dark',
+    tags: ['terminal', 'warm', 'dark-bg-safe'],
+    author: 'Pavel Pertsev',
+    source: 'https://github.com/morhetz/gruvbox',
+  },
+  catppuccin: {
+    description: 'Pink, mauve, blue and teal from Catppuccin Mocha',
+    tags: ['terminal', 'pastel', 'dark-bg-safe'],
+    author: 'Catppuccin',
+    source: 'https://catppuccin.com',
+  },
+  'tokyo-night': {
+    description: 'Blue, purple and red from Tokyo Night',
+    tags: ['terminal', 'cool', 'dark-bg-safe'],
+    author: 'enkia',
+    source: 'https://github.com/enkia/tokyo-night-vscode-theme',
+  },
+  monokai: {
+    description: 'Pink, orange, yellow and green from Monokai',
+    tags: ['terminal', 'neon', 'dark-bg-safe'],
+    author: 'Wimer Hazenberg',
+    source: 'https://monokai.pro',
+  },
+  'rose-pine': {
+    description: 'Love, rose and gold from Rosé Pine',
+    tags: ['terminal', 'warm', 'pastel', 'dark-bg-safe'],
+    author: 'Rosé Pine',
+    source: 'https://rosepinetheme.com',
+  },
+  synthwave: {
+    description: "Pink, yellow and cyan from SynthWave '84",
+    tags: ['terminal', 'neon', 'dark-bg-safe'],
+    author: 'Robb Owen',
+    source: 'https://github.com/robb0wen/synthwave-vscode',
+  },
+};
+
+/**
+ * Names of palettes added with `registerPalette`. Augment it so TypeScript
+ * checks and autocompletes them:
+ *
+ * ```ts
+ * declare module 'oh-my-logo' {
+ *   interface CustomPalettes {
+ *     'acme-brand': true;
+ *   }
+ * }
+ * ```
+ */
+export interface CustomPalettes {}
+
+export type PaletteName = keyof typeof PALETTES | keyof CustomPalettes;
+
+const customPalettes = new Map<
+  string,
+  { colors: string[]; metadata: PaletteMetadata }
+>();
+
+function isBuiltInPalette(name: string): name is keyof typeof PALETTES {
+  return Object.hasOwn(PALETTES, name);
+}
+
+/**
+ * Checks that every stop of a palette holds a valid CSS color, throwing a
+ * `ColorError` that names the first bad entry. Returns the stops in the
+ * `'#7f88ff 70%'` string form.
+ */
+export function validatePalette(colors: readonly PaletteStop[]): string[] {
+  return colors.map((stop, index) => {
+    const formatted = formatColorStop(stop);
+    const { color } = parseColorStop(formatted);
+    try {
+      parseColor(color);
+    } catch (error) {
+      if (error instanceof ColorError) {
+        throw new ColorError(error.color, error.reason, index);
+      }
+      throw error;
+    }
+    return formatted;
+  });
+}
+
+/**
+ * Adds a palette that every function taking a palette name can use.
+ * Registering a name again replaces its colors; built-in palettes can't be
+ * replaced.
+ */
+export function registerPalette(
+  name: string,
+  colors: readonly PaletteStop[],
+  metadata: Partial<PaletteMetadata> = {}
+): void {
+  const paletteName = name.trim();
+
+  if (!paletteName || /\s/.test(paletteName)) {
+    throw new InputError(
+      `palette name "${name}" must be non-empty and contain no spaces`
+    );
+  }
+  if (isBuiltInPalette(paletteName)) {
+    throw new InputError(
+      `palette "${paletteName}" is built in and cannot be replaced`
+    );
+  }
+  if (colors.length === 0) {
+    throw new InputError(
+      `palette "${paletteName}" must include at least one color`
+    );
+  }
+
+  customPalettes.set(paletteName, {
+    colors: validatePalette(colors),
+    metadata: { description: '', tags: [], ...metadata },
+  });
+}
+
+/** Removes a registered palette. Returns false if it wasn't registered. */
+export function unregisterPalette(name: string): boolean {
+  return customPalettes.delete(name);
+}
 
 export function resolvePalette(name: string): string[] | null {
-  const paletteName = name as PaletteName;
-  const palette = PALETTES[paletteName];
+  const palette = isBuiltInPalette(name)
+    ? PALETTES[name]
+    : customPalettes.get(name)?.colors;
   return palette ? [...palette] : null;
 }
 
-export function getPaletteNames(): string[] {
-  return Object.keys(PALETTES);
+/** Returns a palette's colors along with its description, tags and source. */
+export function getPaletteInfo(name: string): PaletteInfo | null {
+  const palette = isBuiltInPalette(name)
+    ? { colors: PALETTES[name], metadata: PALETTE_METADATA[name] }
+    : customPalettes.get(name);
+  if (!palette) {
+    return null;
+  }
+
+  const { colors, metadata } = palette;
+  return {
+    name,
+    colors: [...colors],
+    ...metadata,
+    tags: [...metadata.tags],
+    builtIn: isBuiltInPalette(name),
+  };
+}
+
+export interface PaletteFilter {
+  /** Only palettes with this tag. */
+  tag?: PaletteTag;
+  /**
+   * Only palettes whose name, description, tags, author or source contain
+   * this text, ignoring case.
+   */
+  search?: string;
+}
+
+function matchesFilter(info: PaletteInfo, filter: PaletteFilter): boolean {
+  if (filter.tag !== undefined && !info.tags.includes(filter.tag)) {
+    return false;
+  }
+
+  const search = filter.search?.trim().toLowerCase();
+  if (!search) {
+    return true;
+  }
+  return [info.name, info.description, ...info.tags, info.author, info.source]
+    .filter((field) => field !== undefined)
+    .some((field) => field.toLowerCase().includes(search));
+}
+
+/**
+ * Lists the built-in palettes, then registered ones in the order added,
+ * keeping only those that match `filter`.
+ */
+export function getPaletteNames(filter: PaletteFilter = {}): string[] {
+  if (filter.tag !== undefined && !PALETTE_TAGS.includes(filter.tag)) {
+    throw new InputError(
+      `unknown palette tag "${filter.tag}" (expected one of: ${PALETTE_TAGS.join(', ')})`
+    );
+  }
+
+  const names = [...Object.keys(PALETTES), ...customPalettes.keys()];
+  if (filter.tag === undefined && filter.search === undefined) {
+    return names;
+  }
+  return names.filter((name) =>
+    matchesFilter(getPaletteInfo(name) as PaletteInfo, filter)
+  );
 }
 
 export function getDefaultPalette(): string[] {
@@ -31,6 +440,275 @@ export function getDefaultPalette(): string[] {
 }
 
 export function getPalettePreview(name: PaletteName): string {
-  const colors = PALETTES[name];
+  const colors = resolvePalette(name) ?? [];
   return colors.join(' → ');
 }
+
+/** A palette operation on stops in the `'#7f88ff 70%'` form. */
+export type PaletteTransform = (colors: string[]) => string[];
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+// Changes every color in HSL, keeping stop positions
+function mapHsl(
+  colors: readonly PaletteStop[],
+  map: (hsl: Rgb) => Rgb
+): string[] {
+  return colors.map((stop) => {
+    const { color, position } = parseColorStop(stop);
+    const rgb = hslToRgb(map(rgbToHsl(parseColor(color))));
+    return formatColorStop({ color: formatHex(rgb), position });
+  });
+}
+
+/** Raises the HSL lightness of every color by `amount` (0 to 1). */
+export function lighten(
+  colors: readonly PaletteStop[],
+  amount: number
+): string[] {
+  return mapHsl(colors, ([hue, saturation, lightness]) => [
+    hue,
+    saturation,
+    clamp(lightness + amount),
+  ]);
+}
+
+/** Lowers the HSL lightness of every color by `amount` (0 to 1). */
+export function darken(
+  colors: readonly PaletteStop[],
+  amount: number
+): string[] {
+  return lighten(colors, -amount);
+}
+
+/**
+ * Raises the HSL saturation of every color by `amount` (0 to 1); negative
+ * amounts desaturate.
+ */
+export function saturate(
+  colors: readonly PaletteStop[],
+  amount: number
+): string[] {
+  return mapHsl(colors, ([hue, saturation, lightness]) => [
+    hue,
+    clamp(saturation + amount),
+    lightness,
+  ]);
+}
+
+/** Turns every color `degrees` around the hue wheel. */
+export function rotateHue(
+  colors: readonly PaletteStop[],
+  degrees: number
+): string[] {
+  return mapHsl(colors, ([hue, saturation, lightness]) => [
+    (((hue + degrees) % 360) + 360) % 360,
+    saturation,
+    lightness,
+  ]);
+}
+
+/** Blends every color toward `color` by `amount` (0 to 1). */
+export function mix(
+  colors: readonly PaletteStop[],
+  color: string,
+  amount = 0.5
+): string[] {
+  parseColor(color);
+  return colors.map((stop) => {
+    const { color: from, position } = parseColorStop(stop);
+    return formatColorStop({ color: mixColors(from, color, amount), position });
+  });
+}
+
+// Stops with every position filled in, or null when none was set
+function resolveStops(
+  colors: readonly PaletteStop[]
+): Array<{ color: string; position: number }> | null {
+  const stops = colors.map(parseColorStop);
+  if (stops.every(({ position }) => position === undefined)) {
+    return null;
+  }
+
+  const positions = resolveStopPositions(stops.map(({ position }) => position));
+  return stops.map(({ color }, index) => ({
+    color,
+    position: positions[index],
+  }));
+}
+
+/**
+ * Runs the palette forward and back again, so the gradient ends on the
+ * color it starts with: `[a, b, c]` becomes `[a, b, c, b, a]`.
+ */
+export function mirror(colors: readonly PaletteStop[]): string[] {
+  const stops = resolveStops(colors);
+  if (!stops) {
+    const plain = colors.map(formatColorStop);
+    return [...plain, ...plain.slice(0, -1).reverse()];
+  }
+
+  const forward = stops.map(({ color, position }) => ({
+    color,
+    position: position / 2,
+  }));
+  const back = forward
+    .slice(0, -1)
+    .reverse()
+    .map(({ color, position }) => ({ color, position: 1 - position }));
+  return [...forward, ...back].map(formatColorStop);
+}
+
+/**
+ * Ends the palette on its first color, so a gradient shifted along an
+ * animation wraps around without a seam: `[a, b, c]` becomes `[a, b, c, a]`.
+ */
+export function loop(colors: readonly PaletteStop[]): string[] {
+  if (colors.length === 0) {
+    return [];
+  }
+
+  const stops = resolveStops(colors);
+  if (!stops) {
+    const plain = colors.map(formatColorStop);
+    return [...plain, plain[0]];
+  }
+
+  // Keep the spacing of the existing stops, as one more even stop would
+  const scale = (stops.length - 1) / stops.length;
+  return [
+    ...stops.map(({ color, position }) => ({
+      color,
+      position: position * scale,
+    })),
+    { color: stops[0].color, position: 1 },
+  ].map(formatColorStop);
+}
+
+/** Replaces the stops with `count` evenly spaced colors from the gradient. */
+export function resample(
+  colors: readonly PaletteStop[],
+  count: number,
+  options: GradientOptions = {}
+): string[] {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new InputError(
+      `resample count must be a positive integer, got ${count}`
+    );
+  }
+
+  const stops = colors.map(formatColorStop);
+  return Array.from({ length: count }, (_, index) =>
+    interpolateGradient(stops, count === 1 ? 0 : index / (count - 1), options)
+  );
+}
+
+function parseAmount(name: string, argument: string | undefined): number {
+  const match = /^(-?\d*\.?\d+)%?$/.exec(argument?.trim() ?? '');
+  if (!match) {
+    throw new InputError(
+      `palette transform "${name}" needs an amount such as ${name}:10%`
+    );
+  }
+  return Number(match[1]) / 100;
+}
+
+const PALETTE_TRANSFORMS: Record<
+  string,
+  (argument: string | undefined) => PaletteTransform
+> = {
+  lighten: (argument) => {
+    const amount = parseAmount('lighten', argument);
+    return (colors) => lighten(colors, amount);
+  },
+  darken: (argument) => {
+    const amount = parseAmount('darken', argument);
+    return (colors) => darken(colors, amount);
+  },
+  saturate: (argument) => {
+    const amount = parseAmount('saturate', argument);
+    return (colors) => saturate(colors, amount);
+  },
+  'rotate-hue': (argument) => {
+    const match = /^(-?\d*\.?\d+)(deg)?$/.exec(argument?.trim() ?? '');
+    if (!match) {
+      throw new InputError(
+        'palette transform "rotate-hue" needs an angle such as rotate-hue:30deg'
+      );
+    }
+    return (colors) => rotateHue(colors, Number(match[1]));
+  },
+  mix: (argument) => {
+    const [color = '', amount] = (argument ?? '').split(':');
+    if (!color.trim()) {
+      throw new InputError(
+        'palette transform "mix" needs a color such as mix:white or mix:#000000:20%'
+      );
+    }
+    const fraction = amount === undefined ? 0.5 : parseAmount('mix', amount);
+    parseColor(color);
+    return (colors) => mix(colors, color, fraction);
+  },
+  resample: (argument) => {
+    const count = Number(argument);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new InputError(
+        'palette transform "resample" needs a color count such as resample:8'
+      );
+    }
+    return (colors) => resample(colors, count);
+  },
+  mirror: () => mirror,
+  loop: () => loop,
+  reverse: () => reverseStops,
+};
+
+/** Names accepted by `parsePaletteTransform`. */
+export const PALETTE_TRANSFORM_NAMES = Object.keys(PALETTE_TRANSFORMS);
+
+// Operations that take no argument
+const PLAIN_TRANSFORMS = ['mirror', 'loop', 'reverse'];
+
+/**
+ * Parses a comma-separated list of palette operations, such as
+ * `'mirror,darken:10%'`, into one transform that applies them in order.
+ * Amounts are percentages and `rotate-hue` takes degrees.
+ */
+export function parsePaletteTransform(spec: string): PaletteTransform {
+  const transforms = spec
+    // Commas inside color functions such as rgb(0, 0, 0) don't split
+    .split(/,(?![^(]*\))/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      const separator = part.indexOf(':');
+      const name = (separator === -1 ? part : part.slice(0, separator))
+        .trim()
+        .toLowerCase();
+      const argument =
+        separator === -1 ? undefined : part.slice(separator + 1).trim();
+
+      if (!Object.hasOwn(PALETTE_TRANSFORMS, name)) {
+        throw new InputError(
+          `unknown palette transform "${name}" (expected one of: ${PALETTE_TRANSFORM_NAMES.join(', ')})`
+        );
+      }
+      if (PLAIN_TRANSFORMS.includes(name) && argument !== undefined) {
+        throw new InputError(`palette transform "${name}" takes no argument`);
+      }
+      return PALETTE_TRANSFORMS[name](argument);
+    });
+
+  return (colors) =>
+    transforms.reduce((current, transform) => transform(current), colors);
+}
+
+/** Applies palette operations written as in `parsePaletteTransform`. */
+export function transformPalette(
+  colors: readonly PaletteStop[],
+  spec: string
+): string[] {
+  return parsePaletteTransform(spec)(colors.map(formatColorStop));
+}
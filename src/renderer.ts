@@ -1,67 +1,67 @@
 import figlet from 'figlet';
-import gradient from 'gradient-string';
 import { FontError } from './utils/errors.js';
+import { createGrid, gridToAnsi, type LogoGrid } from './grid.js';
+import type { ColorLevel, DitherMethod } from './colorLevel.js';
+import {
+  colorizeColumns,
+  colorizeGeometry,
+  colorizeLines,
+  type GradientOptions,
+} from './colorizers.js';
+import { parseGradientGeometry, type GradientGeometry } from './geometry.js';
+import { createGlyphGrid } from './glyphs.js';
 
-export function renderLogo(
-  text: string,
+export function colorizeLogoGrid(
+  grid: LogoGrid,
   palette: string[],
-  font: string = 'Standard',
-  direction: string = 'vertical'
-): string {
-  try {
-    const asciiArt = figlet.textSync(text, {
-      font: font as figlet.Fonts,
-      horizontalLayout: 'default',
-      verticalLayout: 'default',
-      width: 80,
-      whitespaceBreak: true,
-    });
-
-    // Create gradient function
-    const gradientFn = gradient(palette);
+  direction: string = 'vertical',
+  gradient: GradientOptions = {}
+): LogoGrid {
+  // Diagonal, angled, radial and conic gradients are shared with filled
+  // mode. Both of the other directions run left to right, so with a scope
+  // they become a 90deg gradient
+  const geometry: GradientGeometry | null =
+    parseGradientGeometry(direction) ??
+    (gradient.gradientScope ? { type: 'linear', angle: 90 } : null);
+  if (geometry) {
+    return colorizeGeometry(grid, palette, geometry, gradient);
+  }
 
-    let coloredArt: string;
+  switch (direction) {
+    case 'horizontal':
+      // Apply gradient horizontally (left to right on each line)
+      return colorizeLines(grid, palette, gradient);
 
-    switch (direction) {
-      case 'horizontal':
-        // Apply gradient horizontally (left to right on each line)
-        const lines = asciiArt.split('\n');
-        const coloredLines = lines.map((line) => {
-          if (line.trim() === '') {
-            return line;
-          }
-          return gradientFn(line);
-        });
-        coloredArt = coloredLines.join('\n');
-        break;
+    case 'vertical':
+    default:
+      // Share one gradient across the columns of all lines
+      return colorizeColumns(grid, palette, gradient);
+  }
+}
 
-      case 'diagonal':
-        // Create a custom diagonal gradient by applying different gradients per line
-        const diagonalLines = asciiArt.split('\n');
-        const lineCount = diagonalLines.length;
-        coloredArt = diagonalLines
-          .map((line, index) => {
-            if (line.trim() === '') {
-              return line;
-            }
-            // Create a gradient that shifts based on line position
-            const shiftedPalette = palette.map((color, colorIndex) => {
-              const shift = (index / lineCount) * palette.length;
-              return palette[Math.floor(colorIndex + shift) % palette.length];
-            });
-            return gradient(shiftedPalette)(line);
-          })
-          .join('\n');
-        break;
+export function renderLogoGrid(
+  text: string,
+  palette: string[],
+  font: string = 'Standard',
+  direction: string = 'vertical',
+  gradient: GradientOptions = {}
+): LogoGrid {
+  try {
+    const render = (value: string) =>
+      figlet.textSync(value, {
+        font: font as figlet.Fonts,
+        horizontalLayout: 'default',
+        verticalLayout: 'default',
+        width: 80,
+        whitespaceBreak: true,
+      });
 
-      case 'vertical':
-      default:
-        // Apply gradient vertically (top to bottom across all lines)
-        coloredArt = gradientFn.multiline(asciiArt);
-        break;
-    }
+    // Scopes need to know which glyph each cell belongs to
+    const grid = gradient.gradientScope
+      ? createGlyphGrid(text, render)
+      : createGrid(render(text));
 
-    return coloredArt;
+    return colorizeLogoGrid(grid, palette, direction, gradient);
   } catch (error) {
     if (error instanceof Error && error.message.includes('font')) {
       throw new FontError(font);
@@ -69,3 +69,19 @@ export function renderLogo(
     throw error;
   }
 }
+
+export function renderLogo(
+  text: string,
+  palette: string[],
+  font: string = 'Standard',
+  direction: string = 'vertical',
+  colorLevel?: ColorLevel,
+  dither?: DitherMethod,
+  gradient?: GradientOptions
+): string {
+  return gridToAnsi(
+    renderLogoGrid(text, palette, font, direction, gradient),
+    colorLevel,
+    dither
+  );
+}
@@ -0,0 +1,79 @@
+import { existsSync, readFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { PaletteStop } from './gradient.js';
+import { registerPalette } from './palettes.js';
+import { InputError } from './utils/errors.js';
+
+/**
+ * Where the CLI looks for user palettes: `OHMYLOGO_PALETTES_FILE` if set,
+ * otherwise `oh-my-logo/palettes.json` in `XDG_CONFIG_HOME` or `~/.config`.
+ */
+export function getUserPalettesPath(
+  env: NodeJS.ProcessEnv = process.env
+): string {
+  if (env.OHMYLOGO_PALETTES_FILE) {
+    return env.OHMYLOGO_PALETTES_FILE;
+  }
+
+  const configHome = env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(configHome, 'oh-my-logo', 'palettes.json');
+}
+
+function isPaletteStop(value: unknown): value is PaletteStop {
+  return (
+    typeof value === 'string' ||
+    (value !== null &&
+      typeof value === 'object' &&
+      typeof (value as { color?: unknown }).color === 'string')
+  );
+}
+
+/**
+ * Registers every palette in a JSON file mapping names to color lists, such
+ * as `{ "acme-brand": ["#ff0066", "#7f00ff 70%", "#00ccff"] }`, and returns
+ * their names. A missing file at the default location is fine; a missing
+ * file named by `path` or `OHMYLOGO_PALETTES_FILE` is an error.
+ */
+export function loadUserPalettes(path?: string): string[] {
+  const file = path ?? getUserPalettesPath();
+  const explicit = path !== undefined || !!process.env.OHMYLOGO_PALETTES_FILE;
+
+  if (!existsSync(file)) {
+    if (explicit) {
+      throw new InputError(`palette file ${file} does not exist`);
+    }
+    return [];
+  }
+
+  let palettes: unknown;
+  try {
+    palettes = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new InputError(
+      `palette file ${file} could not be parsed: ${(error as Error).message}`
+    );
+  }
+
+  if (
+    palettes === null ||
+    typeof palettes !== 'object' ||
+    Array.isArray(palettes)
+  ) {
+    throw new InputError(
+      `palette file ${file} must map palette names to color lists`
+    );
+  }
+
+  const entries = Object.entries(palettes);
+  for (const [name, colors] of entries) {
+    if (!Array.isArray(colors) || !colors.every(isPaletteStop)) {
+      throw new InputError(
+        `palette "${name}" in ${file} must be a list of colors or {"color", "position"} objects`
+      );
+    }
+    registerPalette(name, colors);
+  }
+
+  return entries.map(([name]) => name);
+}
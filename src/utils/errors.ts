@@ -7,10 +7,17 @@ export class OhMyLogoError extends Error {
 
 export class PaletteError extends OhMyLogoError {
   public readonly palette: string;
+  /** Why a palette that was found can't be used, such as a malformed file. */
+  public readonly reason?: string;
 
-  constructor(paletteName: string) {
-    super(`Unknown palette: ${paletteName}`);
+  constructor(paletteName: string, reason?: string) {
+    super(
+      reason === undefined
+        ? `Unknown palette: ${paletteName}`
+        : `Invalid palette ${paletteName}: ${reason}`
+    );
     this.palette = paletteName;
+    this.reason = reason;
   }
 }
 
@@ -23,6 +30,24 @@ export class InputError extends OhMyLogoError {
   }
 }
 
+export class ColorError extends OhMyLogoError {
+  public readonly color: string;
+  public readonly reason: string;
+  /** Position of the color in the palette it came from, if any. */
+  public readonly index?: number;
+
+  constructor(color: string, reason: string, index?: number) {
+    super(
+      `Invalid color "${color}"${
+        index === undefined ? '' : ` at palette entry ${index + 1}`
+      }: ${reason}`
+    );
+    this.color = color;
+    this.reason = reason;
+    this.index = index;
+  }
+}
+
 export class FontError extends OhMyLogoError {
   public readonly font: string;
 
@@ -1,8 +1,34 @@
+import type { ColorLevel } from '../colorLevel.js';
+
 export interface ColorOptions {
   forceColor?: boolean;
   noColor?: boolean;
 }
 
+export interface ColorLevelOptions extends ColorOptions {
+  /** Explicit level, e.g. from --color-level. Skips detection. */
+  level?: ColorLevel;
+}
+
+/**
+ * Reads FORCE_COLOR. `0` and `false` turn colors off, `1` to `3` pick a
+ * level, and any other non-empty value turns colors on at the detected level.
+ */
+function parseForceColor(
+  value: string | undefined
+): ColorLevel | 'auto' | null {
+  if (!value) {
+    return null;
+  }
+  if (value === 'false') {
+    return 0;
+  }
+  if (/^[0-3]$/.test(value)) {
+    return Number(value) as ColorLevel;
+  }
+  return 'auto';
+}
+
 export function shouldUseColor(options: ColorOptions = {}): boolean {
   // Force color takes highest precedence
   if (options.forceColor) {
@@ -20,8 +46,9 @@ export function shouldUseColor(options: ColorOptions = {}): boolean {
   }
 
   // Check FORCE_COLOR environment variable
-  if (process.env.FORCE_COLOR) {
-    return true;
+  const forceColor = parseForceColor(process.env.FORCE_COLOR);
+  if (forceColor !== null) {
+    return forceColor !== 0;
   }
 
   // Check if running in CI with color support
@@ -33,6 +60,70 @@ export function shouldUseColor(options: ColorOptions = {}): boolean {
   return process.stdout.isTTY ?? false;
 }
 
+/**
+ * Guesses the color level of the terminal from COLORTERM, TERM and a few
+ * well-known terminal programs, or returns null when there is no hint.
+ * `TERM=dumb` gets no colors.
+ */
+export function detectTerminalColorLevel(): ColorLevel | null {
+  const { COLORTERM, TERM, TERM_PROGRAM, WT_SESSION } = process.env;
+
+  if (COLORTERM === 'truecolor' || COLORTERM === '24bit') {
+    return 3;
+  }
+  // Terminals known to support truecolor without setting COLORTERM
+  if (
+    WT_SESSION ||
+    TERM_PROGRAM === 'iTerm.app' ||
+    TERM_PROGRAM === 'WezTerm'
+  ) {
+    return 3;
+  }
+  if (TERM_PROGRAM === 'Apple_Terminal') {
+    return 2;
+  }
+  if (!TERM) {
+    return null;
+  }
+  // A dumb terminal can't show escape sequences at all
+  if (TERM === 'dumb') {
+    return 0;
+  }
+  if (/-direct$|-truecolor$|-24bit$/.test(TERM)) {
+    return 3;
+  }
+  if (/-256(color)?$/.test(TERM)) {
+    return 2;
+  }
+  if (/^(screen|xterm|vt100|vt220|rxvt|linux|cygwin|ansi)|color/.test(TERM)) {
+    return 1;
+  }
+
+  return null;
+}
+
+/**
+ * Resolves how many colors to emit. Colors are turned on or off as in
+ * `shouldUseColor`; FORCE_COLOR=1/2/3 then picks the level, and otherwise it
+ * comes from the terminal, falling back to truecolor.
+ */
+export function detectColorLevel(options: ColorLevelOptions = {}): ColorLevel {
+  if (options.level !== undefined) {
+    return options.level;
+  }
+
+  if (!shouldUseColor(options)) {
+    return 0;
+  }
+
+  const forceColor = parseForceColor(process.env.FORCE_COLOR);
+  if (typeof forceColor === 'number' && forceColor > 0) {
+    return forceColor;
+  }
+
+  return detectTerminalColorLevel() ?? 3;
+}
+
 export function stripAnsiCodes(text: string): string {
   // More comprehensive regex for ANSI escape sequences
   const ansiRegex = /\u001b\[[0-9;]*[a-zA-Z]/g;